@@ -0,0 +1,22 @@
+// Copies the stylesheets imported by the library components next to the
+// compiled modules in dist/, since tsc only emits JavaScript and typings.
+const fs = require('fs');
+const path = require('path');
+
+const srcDir = path.join(__dirname, '..', 'src');
+const distDir = path.join(__dirname, '..', 'dist');
+
+const copyCss = (dir) => {
+  fs.readdirSync(dir, { withFileTypes: true }).forEach((entry) => {
+    const source = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      copyCss(source);
+    } else if (entry.name.endsWith('.css')) {
+      const target = path.join(distDir, path.relative(srcDir, source));
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(source, target);
+    }
+  });
+};
+
+copyCss(path.join(srcDir, 'components'));
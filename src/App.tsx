@@ -1,101 +1,194 @@
-import React, { useCallback, Suspense, lazy } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { useAccessToken, useCountries } from "./hooks/useApi";
 import ErrorNotification from "./components/ErrorNotification";
 import ErrorBoundary from "./components/ErrorBoundary";
+import PhoneInput from "./components/PhoneInput";
+import PhoneInputSkeleton from "./components/PhoneInputSkeleton";
 import { usePhoneForm } from "./hooks/usePhoneForm";
 import "./App.css";
-import { useTwoFactorAuth } from "./hooks/useTwoFactorAuth";
+import { useTwoFactorFlow } from "./hooks/useTwoFactorFlow";
+import TwoFactorVerification from "./components/TwoFactorVerification";
+import { useI18n } from "./hooks/useI18n";
+import { useNotifications } from "./hooks/useNotifications";
+import { describeApiError, isRetryable } from "./api/errors";
+import { CATALOGS } from "./i18n/translate";
+import { PhoneNumberType } from "./utils/phoneMetadata";
 
-// Lazy load the CountrySelector component for improved performance.
-const CountrySelector = lazy(() => import("./components/CountrySelector"));
+// Codes are sent by SMS. Numbers whose type the metadata cannot tell (e.g. US
+// and Canadian numbers) are let through and left to the API.
+const SMS_NUMBER_TYPES: PhoneNumberType[] = ["mobile", "unknown"];
+
+// Values of the `data-ccs-theme` attribute read by the components' theme.css
+const THEMES = [
+  { value: "auto", label: "app.themeAuto" },
+  { value: "light", label: "app.themeLight" },
+  { value: "dark", label: "app.themeDark" },
+] as const;
+
+/**
+ * Returns the name of a language in that language, e.g. "español" for "es".
+ *
+ * @param {string} language - The language subtag.
+ * @returns {string} - The native name, or the subtag when unknown.
+ */
+const getNativeLanguageName = (language: string) => {
+  try {
+    return new Intl.DisplayNames([language], { type: "language" }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+};
 
 /**
  * Component: App
  *
  * The main application component that manages the phone number input form.
- * It fetches access tokens and country data, and handles the submission 
- * of phone numbers for two-factor authentication.
+ * It fetches access tokens and country data, handles the submission 
+ * of phone numbers for two-factor authentication, and then collects and
+ * verifies the one-time code sent to the user. The language and the
+ * color theme can be switched at any time.
  */
 const App: React.FC = () => {
+  const translator = useI18n();
+  const { t, locale, direction, setLocale } = translator;
+  const { notify } = useNotifications();
+  const [theme, setTheme] = useState("auto");
+
+  // Mirror the page for right-to-left locales and let assistive technology know the language
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = direction;
+  }, [locale, direction]);
+
+  // Theme the whole page, including notifications rendered outside the app container
+  useEffect(() => {
+    document.documentElement.dataset.ccsTheme = theme;
+  }, [theme]);
+
   // Fetch access token and handle potential errors.
-  const { accessToken, error: accessTokenError } = useAccessToken();
+  const { accessToken, error: accessTokenError, refetch: refetchAccessToken } = useAccessToken();
   
-  // Fetch country data based on the access token and handle potential errors.
-  const { countries, error: countriesError } = useCountries(accessToken);
+  // Fetch country data based on the access token, served from cache or a bundled list until it arrives.
+  const {
+    countries,
+    source: countriesSource,
+    isLoading: isLoadingCountries,
+    error: countriesError,
+    refetch: refetchCountries,
+  } = useCountries(accessToken);
 
   // Manage phone number form state and handling.
   const {
     selectedCountry,
     phoneNumber,
-    placeholderMask,
-    handlePhoneChange,
-    handleCountryChange,
+    value,
+    handleValueChange,
     isSubmitDisabled,
     error,
-  } = usePhoneForm();
+  } = usePhoneForm(countries, { allowedTypes: SMS_NUMBER_TYPES });
+
+  // Hook driving the two-factor flow from phone submission to code verification.
+  const twoFactorFlow = useTwoFactorFlow(accessToken);
+  const { requestCode } = twoFactorFlow;
 
-  // Hook to initiate two-factor authentication.
-  const initiateTwoFactorAuth = useTwoFactorAuth(accessToken);
+  // Bundled countries carry ISO codes instead of the API's country IDs, so codes
+  // cannot be requested until the API's list has loaded.
+  const hasApiCountries = countriesSource !== "fallback";
+  const isSendDisabled = isSubmitDisabled || !accessToken || !hasApiCountries || twoFactorFlow.isSending;
+
+  /**
+   * Request a code for the current number and report the outcome in a toast;
+   * on success the flow moves on to the code entry step.
+   */
+  const sendCode = useCallback(async () => {
+    if (!selectedCountry || !hasApiCountries) return;
+    const result = await requestCode(phoneNumber, selectedCountry.id);
+    if (result.success) {
+      notify({ id: "send-code", tone: "success", message: t("twoFactor.codeSent", { phone: phoneNumber }) });
+    } else {
+      notify({
+        id: "send-code",
+        tone: "error",
+        title: t("twoFactor.sendFailed"),
+        message: describeApiError(result.error, translator),
+        action: isRetryable(result.error) ? { label: t("notification.retry"), onClick: sendCode } : undefined,
+      });
+    }
+  }, [selectedCountry, hasApiCountries, phoneNumber, requestCode, notify, t, translator]);
 
   /**
    * Handle form submission to initiate two-factor authentication.
    * 
    * @param {React.FormEvent} e - The form event object.
    */
-  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+  const handleSubmit = useCallback((e: React.FormEvent) => {
     e.preventDefault();
-    if (selectedCountry) {
-      // Call the two-factor authentication function and handle the result.
-      const result = await initiateTwoFactorAuth(phoneNumber, selectedCountry.id);
-      if (result.success) {
-        alert("Two-factor authentication initiated successfully!");
-      } else {
-        alert(`An error occurred: ${result.message}`);
-      }
-    }
-  }, [selectedCountry, phoneNumber, initiateTwoFactorAuth]);
+    sendCode();
+  }, [sendCode]);
 
-  // Render error notification if there is an error fetching access token or countries.
-  if (accessTokenError || countriesError) {
-    return <ErrorNotification message={(accessTokenError || countriesError) ?? ''} />;
-  }
 
   return (
     <ErrorBoundary>
       <div className="App">
-        <h1>Phone Number Input</h1>
+        <label className="language-switcher">
+          {t("app.language")}{" "}
+          <select value={locale.split("-")[0]} onChange={(e) => setLocale(e.target.value)}>
+            {Object.keys(CATALOGS).map((language) => (
+              <option key={language} value={language} lang={language}>
+                {getNativeLanguageName(language)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="theme-switcher">
+          {t("app.theme")}{" "}
+          <select value={theme} onChange={(e) => setTheme(e.target.value)}>
+            {THEMES.map(({ value, label }) => (
+              <option key={value} value={value}>{t(label)}</option>
+            ))}
+          </select>
+        </label>
+        <h1>{t("app.title")}</h1>
+        {/* Show API errors without blocking the form, which keeps working on cached or bundled countries. */}
+        {accessTokenError ? (
+          <ErrorNotification title={t("error.accessToken")} error={accessTokenError} onRetry={refetchAccessToken} />
+        ) : countriesError && (
+          <ErrorNotification title={t("error.countries")} error={countriesError} onRetry={refetchCountries} />
+        )}
         <div className="form-container">
-          <form onSubmit={handleSubmit} aria-label="Phone number submission form">
-            <div className="phone-input-container">
-              <Suspense fallback={<div>Loading country selector...</div>}>
-                <CountrySelector
+          {/* A failure in one step keeps the page and the language switcher usable; new countries or a new step recover it. */}
+          <ErrorBoundary name="form" resetKeys={[countries, twoFactorFlow.status]}>
+            {twoFactorFlow.status !== "phone" ? (
+              <TwoFactorVerification flow={twoFactorFlow} />
+            ) : isLoadingCountries && !accessTokenError ? (
+              // Wait for the real list rather than offering the fallback one; failures fall back to it
+              <PhoneInputSkeleton />
+            ) : (
+              <form onSubmit={handleSubmit} aria-label={t("app.form")}>
+                <PhoneInput
                   countries={countries}
-                  selectedCountry={selectedCountry}
-                  onSelectCountry={handleCountryChange}
+                  value={value}
+                  onChange={handleValueChange}
+                  error={error}
+                  allowedTypes={SMS_NUMBER_TYPES}
+                  name="phone"
                 />
-              </Suspense>
-              <input
-                type="tel"
-                value={phoneNumber}
-                onChange={handlePhoneChange}
-                placeholder={placeholderMask}
-                className="phone-input"
-                maxLength={selectedCountry ? parseInt(selectedCountry.phone_length, 10) + 4 : 14}
-                aria-label="Phone number input"
-                aria-invalid={!!error}
-                aria-describedby="phone-error"
-              />
-            </div>
-            {error && <p id="phone-error" className="error-message">{error}</p>}
-            <button 
-              type="submit" 
-              className="submit-button"
-              disabled={isSubmitDisabled}
-              aria-disabled={isSubmitDisabled}
-            >
-              Submit
-            </button>
-          </form>
+                <button 
+                  type="submit" 
+                  className="submit-button"
+                  disabled={isSendDisabled}
+                  aria-disabled={isSendDisabled}
+                  aria-busy={twoFactorFlow.isSending}
+                  aria-describedby={hasApiCountries ? undefined : "fallback-countries-hint"}
+                >
+                  {twoFactorFlow.isSending ? t("app.sending") : t("app.submit")}
+                </button>
+                {!hasApiCountries && (
+                  <p id="fallback-countries-hint" className="submit-hint">{t("app.fallbackCountries")}</p>
+                )}
+              </form>
+            )}
+          </ErrorBoundary>
         </div>
       </div>
     </ErrorBoundary>
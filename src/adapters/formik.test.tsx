@@ -0,0 +1,62 @@
+import React, { useState } from "react";
+import { fireEvent, screen } from "@testing-library/react";
+import PhoneInput from "../components/PhoneInput";
+import { getFormikPhoneInputProps } from "./formik";
+import { PhoneInputValue } from "../types";
+import { MOCK_COUNTRIES } from "../mocks/fixtures";
+import { renderWithProviders } from "../mocks/testUtils";
+
+// Holds one field like Formik's useField, dirty while its value differs from the initial one
+const FieldHarness: React.FC<{ onChange: (value: PhoneInputValue) => void }> = ({ onChange }) => {
+  const [value, setValue] = useState<PhoneInputValue | undefined>(undefined);
+  const [touched, setTouched] = useState(false);
+  const helpers = {
+    setValue: (next: PhoneInputValue) => {
+      setValue(next);
+      onChange(next);
+    },
+    setTouched,
+  };
+  const resetForm = () => {
+    setValue(undefined);
+    setTouched(false);
+  };
+  return (
+    <>
+      <PhoneInput
+        {...getFormikPhoneInputProps([{ name: "phone", value }, { touched }, helpers], { countries: MOCK_COUNTRIES, defaultCountry: "FR" })}
+      />
+      <p>{value === undefined ? "pristine" : "dirty"}</p>
+      <button type="button" onClick={resetForm}>Reset</button>
+    </>
+  );
+};
+
+describe("getFormikPhoneInputProps", () => {
+  it("shows the default country without changing the field after mounting", async () => {
+    const onChange = jest.fn();
+    renderWithProviders(<FieldHarness onChange={onChange} />);
+
+    expect(await screen.findByRole("button", { expanded: false })).toHaveTextContent("+33");
+    expect(onChange).not.toHaveBeenCalled();
+    expect(screen.getByText("pristine")).toBeInTheDocument();
+  });
+
+  it("stores the country with the first edit and stays pristine after a reset", async () => {
+    const onChange = jest.fn();
+    renderWithProviders(<FieldHarness onChange={onChange} />);
+    await screen.findByRole("button", { expanded: false });
+
+    fireEvent.change(screen.getByRole("textbox"), { target: { value: "612345678" } });
+
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ e164: "+33612345678", country: expect.objectContaining({ iso: "FR" }) }));
+    expect(screen.getByText("dirty")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Reset" }));
+
+    expect(screen.getByText("pristine")).toBeInTheDocument();
+    expect(screen.getByRole("textbox")).toHaveValue("");
+    expect(screen.getByRole("button", { expanded: false })).toHaveTextContent("+33");
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
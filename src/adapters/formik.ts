@@ -0,0 +1,61 @@
+import { PhoneInputValue } from '../types';
+import { PhoneInputProps } from '../components/PhoneInput';
+import { PhoneInputValidationOptions, validatePhoneInputValue, withDefaultCountry } from '../utils/phoneValue';
+
+/**
+ * The parts of the tuple returned by Formik's `useField` the adapter uses.
+ * Declared structurally so the library is not a dependency of this package.
+ */
+export type FormikFieldTuple = [
+  { name: string; value: PhoneInputValue | null | undefined },
+  { touched: boolean; error?: string },
+  { setValue: (value: PhoneInputValue) => unknown; setTouched: (touched: boolean) => unknown },
+];
+
+/**
+ * Maps the result of Formik's `useField` to PhoneInput props, so the
+ * country and number are registered as a single field. Errors are shown
+ * once the field has been touched, as Formik does for native inputs.
+ * While the field has no country, PhoneInput shows the default one
+ * without reporting it, so the form stays pristine after mounting and
+ * after `resetForm()`.
+ *
+ * @param {FormikFieldTuple} fieldTuple - The `[field, meta, helpers]` tuple from `useField`.
+ * @param {Object} options - The `countries` and optional `defaultCountry` of the PhoneInput.
+ * @returns {Object} - Props to spread onto PhoneInput.
+ *
+ * ## Example Usage
+ * ```jsx
+ * const PhoneField = ({ countries }) => {
+ *   const fieldTuple = useField({ name: "phone", validate: formikPhoneValidator({ required: true }) });
+ *   return <PhoneInput {...getFormikPhoneInputProps(fieldTuple, { countries })} />;
+ * };
+ * ```
+ */
+export const getFormikPhoneInputProps = (
+  [field, meta, helpers]: FormikFieldTuple,
+  { countries, defaultCountry }: Pick<PhoneInputProps, 'countries' | 'defaultCountry'>
+): Pick<PhoneInputProps, 'countries' | 'defaultCountry' | 'name' | 'value' | 'onChange' | 'onBlur' | 'error'> => ({
+  countries,
+  defaultCountry,
+  name: field.name,
+  // Keep PhoneInput controlled even before Formik has a value, so resets are reflected
+  value: withDefaultCountry(field.value, countries, defaultCountry),
+  onChange: (value) => {
+    helpers.setValue(value);
+  },
+  onBlur: () => {
+    helpers.setTouched(true);
+  },
+  error: meta.touched && meta.error ? meta.error : null,
+});
+
+/**
+ * Builds a Formik field-level `validate` function that applies the phone
+ * input's validation.
+ *
+ * @param {PhoneInputValidationOptions} [options] - Whether the number is required.
+ * @returns {Function} - A validator returning a message, or undefined when the value is valid.
+ */
+export const formikPhoneValidator = (options?: PhoneInputValidationOptions) =>
+  (value: PhoneInputValue | null | undefined) => validatePhoneInputValue(value, options) ?? undefined;
@@ -0,0 +1,58 @@
+import React, { useState } from "react";
+import { fireEvent, screen } from "@testing-library/react";
+import PhoneInput from "../components/PhoneInput";
+import { getPhoneInputControllerProps } from "./reactHookForm";
+import { PhoneInputValue } from "../types";
+import { MOCK_COUNTRIES } from "../mocks/fixtures";
+import { renderWithProviders } from "../mocks/testUtils";
+
+// Holds one field like a react-hook-form Controller, dirty while its value differs from the default
+const ControllerHarness: React.FC<{ onChange: (value: PhoneInputValue) => void }> = ({ onChange }) => {
+  const [value, setValue] = useState<PhoneInputValue | undefined>(undefined);
+  const field = {
+    name: "phone",
+    value,
+    onChange: (next: PhoneInputValue) => {
+      setValue(next);
+      onChange(next);
+    },
+    onBlur: () => undefined,
+    ref: () => undefined,
+  };
+  return (
+    <>
+      <PhoneInput {...getPhoneInputControllerProps(field, {}, { countries: MOCK_COUNTRIES, defaultCountry: "GB" })} />
+      <p>{value === undefined ? "pristine" : "dirty"}</p>
+      <button type="button" onClick={() => setValue(undefined)}>Reset</button>
+    </>
+  );
+};
+
+describe("getPhoneInputControllerProps", () => {
+  it("shows the default country without changing the field after mounting", async () => {
+    const onChange = jest.fn();
+    renderWithProviders(<ControllerHarness onChange={onChange} />);
+
+    expect(await screen.findByRole("button", { expanded: false })).toHaveTextContent("+44");
+    expect(onChange).not.toHaveBeenCalled();
+    expect(screen.getByText("pristine")).toBeInTheDocument();
+  });
+
+  it("stores the country with the first edit and stays pristine after a reset", async () => {
+    const onChange = jest.fn();
+    renderWithProviders(<ControllerHarness onChange={onChange} />);
+    await screen.findByRole("button", { expanded: false });
+
+    fireEvent.change(screen.getByRole("textbox"), { target: { value: "7400123456" } });
+
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ e164: "+447400123456", country: expect.objectContaining({ iso: "GB" }) }));
+    expect(screen.getByText("dirty")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Reset" }));
+
+    expect(screen.getByText("pristine")).toBeInTheDocument();
+    expect(screen.getByRole("textbox")).toHaveValue("");
+    expect(screen.getByRole("button", { expanded: false })).toHaveTextContent("+44");
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,91 @@
+import { PhoneInputValue } from '../types';
+import { PhoneInputProps } from '../components/PhoneInput';
+import { PhoneInputValidationOptions, validatePhoneInputValue, withDefaultCountry } from '../utils/phoneValue';
+
+/**
+ * The parts of react-hook-form's `ControllerRenderProps` the adapter uses.
+ * Declared structurally so the library is not a dependency of this package.
+ */
+export interface ReactHookFormField {
+  name: string;
+  value: PhoneInputValue | null | undefined;
+  onChange: (value: PhoneInputValue) => void;
+  onBlur: () => void;
+  ref: React.Ref<HTMLInputElement>;
+}
+
+/**
+ * The parts of react-hook-form's `ControllerFieldState` the adapter uses.
+ */
+export interface ReactHookFormFieldState {
+  error?: { message?: string };
+}
+
+/**
+ * Maps a react-hook-form `Controller` field to PhoneInput props, so the
+ * country and number are registered as a single field. While the field
+ * has no country, PhoneInput shows the default one without reporting it,
+ * so the form stays pristine after mounting and after `reset()`.
+ *
+ * @param {ReactHookFormField} field - The `field` passed to the Controller's render prop.
+ * @param {ReactHookFormFieldState} fieldState - The `fieldState` passed to the render prop.
+ * @param {Object} options - The `countries` and optional `defaultCountry` of the PhoneInput.
+ * @returns {Object} - Props to spread onto PhoneInput.
+ *
+ * ## Example Usage
+ * ```jsx
+ * <Controller
+ *   name="phone"
+ *   control={control}
+ *   rules={phoneInputRules({ required: true })}
+ *   render={({ field, fieldState }) => (
+ *     <PhoneInput {...getPhoneInputControllerProps(field, fieldState, { countries })} />
+ *   )}
+ * />
+ * ```
+ */
+export const getPhoneInputControllerProps = (
+  field: ReactHookFormField,
+  fieldState: ReactHookFormFieldState,
+  { countries, defaultCountry }: Pick<PhoneInputProps, 'countries' | 'defaultCountry'>
+): Pick<PhoneInputProps, 'countries' | 'defaultCountry' | 'name' | 'value' | 'onChange' | 'onBlur' | 'error'>
+  & { ref: React.Ref<HTMLInputElement> } => ({
+  countries,
+  defaultCountry,
+  name: field.name,
+  // Keep PhoneInput controlled even before react-hook-form has a value, so resets are reflected
+  value: withDefaultCountry(field.value, countries, defaultCountry),
+  onChange: field.onChange,
+  onBlur: field.onBlur,
+  ref: field.ref,
+  error: fieldState.error?.message ?? null,
+});
+
+/**
+ * Builds `rules` for a react-hook-form `Controller` that apply the phone
+ * input's validation.
+ *
+ * @param {PhoneInputValidationOptions} [options] - Whether the number is required.
+ * @returns {Object} - Rules with a `validate` function returning true or a message.
+ */
+export const phoneInputRules = (options?: PhoneInputValidationOptions) => ({
+  validate: (value: PhoneInputValue | null | undefined) => validatePhoneInputValue(value, options) ?? true,
+});
+
+/**
+ * Builds a react-hook-form resolver that validates one phone field. Use it
+ * for forms where the phone number is the only field needing validation.
+ *
+ * @param {string} name - The name of the phone field.
+ * @param {PhoneInputValidationOptions} [options] - Whether the number is required.
+ * @returns {Function} - A resolver for `useForm({ resolver })`.
+ */
+export const phoneInputResolver = <TValues extends Record<string, unknown>>(
+  name: string,
+  options?: PhoneInputValidationOptions
+) => async (values: TValues) => {
+  const message = validatePhoneInputValue(values[name] as PhoneInputValue | undefined, options);
+  return message
+    ? { values: {}, errors: { [name]: { type: 'validate', message } } }
+    : { values, errors: {} };
+};
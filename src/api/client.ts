@@ -0,0 +1,198 @@
+import axios, { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { ApiEndpoints } from '../config';
+import { ApiError, toApiError } from './errors';
+import { decodeAccessToken } from './decoders';
+
+/**
+ * Type: TokenStatus
+ *
+ * The lifecycle of the access token:
+ * - idle: No token has been requested yet.
+ * - loading: The first token is being fetched.
+ * - ready: A token is available.
+ * - refreshing: A token is available and a new one is being fetched.
+ * - error: No token could be fetched.
+ */
+export type TokenStatus = 'idle' | 'loading' | 'ready' | 'refreshing' | 'error';
+
+/**
+ * Interface: TokenState
+ *
+ * The access token state shared by every consumer of an ApiClient.
+ */
+export interface TokenState {
+  accessToken: string;       // The current access token, or an empty string
+  expiresAt: number | null;  // When the token expires, in milliseconds since the epoch
+  status: TokenStatus;       // Where the token is in its lifecycle
+  error: ApiError | null;    // Why no token could be fetched
+}
+
+/**
+ * Interface: ApiClientConfig
+ *
+ * Connection settings for an ApiClient.
+ */
+export interface ApiClientConfig {
+  baseUrl: string;                   // Base URL of the SoftPoint API
+  apiKey: string;                    // Value of the Api-Key header
+  corporateId: string;               // Corporate ID used to request access tokens
+  endpoints: ApiEndpoints;           // Endpoint paths
+  headers?: Record<string, string>;  // Extra headers sent with every request
+  adapter?: AxiosAdapter;            // Replaces the HTTP transport, e.g. with the mock API
+}
+
+// Token lifetime assumed when the API does not report one, in seconds
+const DEFAULT_TOKEN_TTL = 30 * 60;
+
+// How long before expiry a token is refreshed, in milliseconds; short-lived
+// tokens are refreshed halfway through their lifetime instead
+const REFRESH_MARGIN = 60 * 1000;
+
+// Shortest delay before a scheduled refresh, in milliseconds, so tokens
+// with a tiny lifetime cannot trigger a loop of immediate refreshes
+const MIN_REFRESH_DELAY = 5 * 1000;
+
+/**
+ * Creates an API client that owns the access token lifecycle: it fetches
+ * the token, refreshes it shortly before it expires, de-duplicates
+ * concurrent refreshes, and retries a request once with a new token when
+ * the API answers 401.
+ *
+ * @param {ApiClientConfig} config - Connection settings.
+ *
+ * @returns {Object} - The client:
+ * - baseUrl: The configured base URL.
+ * - endpoints: The configured endpoint paths.
+ * - request: Sends an authenticated request.
+ * - getAccessToken: Resolves to a valid access token, fetching one if needed.
+ * - refreshToken: Fetches a new access token.
+ * - getState: Returns the current token state.
+ * - subscribe: Registers a listener for token state changes.
+ * - dispose: Cancels the scheduled refresh.
+ */
+export const createApiClient = (config: ApiClientConfig) => {
+  const http = axios.create({
+    baseURL: config.baseUrl,
+    headers: { ...config.headers, 'Api-Key': config.apiKey },
+    ...(config.adapter ? { adapter: config.adapter } : {}),
+  });
+
+  let state: TokenState = { accessToken: '', expiresAt: null, status: 'idle', error: null };
+  let refreshPromise: Promise<string> | null = null;
+  let refreshAt = 0; // When the current token should be replaced, in epoch milliseconds
+  let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+  const listeners = new Set<() => void>();
+
+  const setState = (patch: Partial<TokenState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  // Schedules a proactive refresh shortly before the token expires
+  const scheduleRefresh = () => {
+    clearTimeout(refreshTimer);
+    refreshTimer = setTimeout(() => {
+      refreshToken().catch(() => undefined); // Failures are reflected in the state
+    }, Math.max(MIN_REFRESH_DELAY, refreshAt - Date.now()));
+  };
+
+  /**
+   * Fetches a new access token. Concurrent calls share the same request.
+   *
+   * @returns {Promise<string>} - The new access token.
+   */
+  const refreshToken = (): Promise<string> => {
+    if (refreshPromise) return refreshPromise;
+
+    setState({ status: state.accessToken ? 'refreshing' : 'loading', error: null });
+    refreshPromise = http
+      .post<unknown>(config.endpoints.accessToken, {}, { params: { corporate_id: config.corporateId } })
+      .then((response) => {
+        const { access_token: accessToken, expires_in: expiresIn = DEFAULT_TOKEN_TTL } = decodeAccessToken(response.data);
+        const lifetime = expiresIn * 1000;
+        const expiresAt = Date.now() + lifetime;
+        refreshAt = expiresAt - Math.min(REFRESH_MARGIN, lifetime / 2);
+        setState({ accessToken, expiresAt, status: 'ready', error: null });
+        scheduleRefresh();
+        return accessToken;
+      })
+      .catch((err) => {
+        console.error("Error fetching access token:", err);
+        // Keep serving a token that has not expired yet; the next request retries
+        const hasValidToken = !!state.accessToken && !!state.expiresAt && state.expiresAt > Date.now();
+        setState(hasValidToken
+          ? { status: 'ready' }
+          : { accessToken: '', expiresAt: null, status: 'error', error: toApiError(err) });
+        throw err;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+    return refreshPromise;
+  };
+
+  /**
+   * Resolves to an access token that is not about to expire.
+   *
+   * @returns {Promise<string>} - A valid access token.
+   */
+  const getAccessToken = (): Promise<string> => {
+    const { accessToken, expiresAt } = state;
+    if (accessToken && expiresAt && refreshAt > Date.now()) {
+      return Promise.resolve(accessToken);
+    }
+    return refreshToken();
+  };
+
+  /**
+   * Sends a request with the current access token. When the API answers
+   * 401 the token is refreshed and the request is retried once.
+   *
+   * @param {AxiosRequestConfig} requestConfig - The request, with a URL relative to the base URL.
+   * @returns {Promise<AxiosResponse<T>>} - The response.
+   */
+  const request = async <T>(requestConfig: AxiosRequestConfig): Promise<AxiosResponse<T>> => {
+    const send = (token: string) => http.request<T>({
+      ...requestConfig,
+      headers: { ...requestConfig.headers, Authorization: `Bearer ${token}` },
+    });
+
+    const token = await getAccessToken();
+    try {
+      return await send(token);
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 401) {
+        throw error;
+      }
+      // Another request may already have replaced the rejected token
+      const freshToken = state.accessToken && state.accessToken !== token
+        ? state.accessToken
+        : await refreshToken();
+      return send(freshToken);
+    }
+  };
+
+  const getState = () => state;
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const dispose = () => clearTimeout(refreshTimer);
+
+  return {
+    baseUrl: config.baseUrl,
+    endpoints: config.endpoints,
+    request,
+    getAccessToken,
+    refreshToken,
+    getState,
+    subscribe,
+    dispose,
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,167 @@
+import { decodeAccessToken, decodeAcknowledgement, decodeCountries, InvalidResponseError } from "./decoders";
+import { toApiError } from "./errors";
+
+const HTML_BODY = "<!doctype html><title>Maintenance</title>";
+
+const FRANCE = { id: "73", name: "France", calling_code: "+33", phone_length: "9" };
+
+// Runs a decoder and returns what it threw
+const decodeError = (decode: () => unknown) => {
+  try {
+    decode();
+  } catch (error) {
+    return error as InvalidResponseError;
+  }
+  throw new Error("Expected the decoder to throw");
+};
+
+beforeEach(() => {
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  jest.spyOn(console, "table").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("decodeCountries", () => {
+  it("keeps valid entries as they are, without reporting anything", () => {
+    expect(decodeCountries({ FR: FRANCE })).toEqual({ FR: FRANCE });
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["an HTML page", HTML_BODY],
+    ["null", null],
+    ["an array", [FRANCE]],
+    ["a number", 42],
+  ])("rejects %s", (_, body) => {
+    const error = decodeError(() => decodeCountries(body));
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error.message).toBe("Invalid countries response: expected an object of countries keyed by ISO code");
+  });
+
+  it("rejects a body without usable countries and lists why", () => {
+    const error = decodeError(() => decodeCountries({ FR: { name: "France" }, DE: "Germany" }));
+
+    expect(error.message).toBe("Invalid countries response: no usable countries");
+    expect(error.issues).toEqual([
+      { path: "countries.FR", problem: "is not an object with id, name, calling_code and phone_length", action: "dropped" },
+      { path: "countries.DE", problem: "is not an object with id, name, calling_code and phone_length", action: "dropped" },
+    ]);
+    expect(toApiError(error)).toMatchObject({ kind: "invalid_response", issues: error.issues });
+  });
+
+  it("drops entries with missing fields and keeps the others", () => {
+    const { id, ...withoutId } = FRANCE;
+    const countries = decodeCountries({
+      FR: FRANCE,
+      DE: { ...withoutId, name: "Germany" },
+      ES: { ...FRANCE, id: "195", name: "  " },
+      GB: { ...FRANCE, id: " " },
+    });
+
+    expect(Object.keys(countries)).toEqual(["FR"]);
+    expect(console.warn).toHaveBeenCalledWith("The countries response had 3 problem(s) that were repaired or dropped:");
+    expect(console.table).toHaveBeenCalledWith([
+      expect.objectContaining({ path: "countries.DE", action: "dropped" }),
+      { path: "countries.ES", problem: "has no name", action: "dropped" },
+      { path: "countries.GB", problem: "has no usable id", action: "dropped" },
+    ]);
+  });
+
+  it("repairs numbers given for strings", () => {
+    const countries = decodeCountries({ FR: { id: 73, name: " France ", calling_code: 33, phone_length: 9 } });
+
+    expect(countries.FR).toEqual(FRANCE);
+    expect(console.table).toHaveBeenCalledWith([
+      { path: "countries.FR.id", problem: "is a number", action: "repaired" },
+      { path: "countries.FR.name", problem: "has surrounding whitespace", action: "repaired" },
+      { path: "countries.FR.calling_code", problem: "is a number", action: "repaired" },
+      { path: "countries.FR.phone_length", problem: "is not a plain digit string", action: "repaired" },
+    ]);
+  });
+
+  it("drops entries with values of the wrong type", () => {
+    const countries = decodeCountries({
+      FR: FRANCE,
+      DE: { ...FRANCE, id: { value: 80 } },
+      ES: { ...FRANCE, name: 34 },
+      GB: { ...FRANCE, calling_code: ["+44"] },
+      IT: { ...FRANCE, calling_code: "+39123" },
+    });
+
+    expect(Object.keys(countries)).toEqual(["FR"]);
+  });
+
+  it("takes an unusable phone length from the numbering plan, or drops the entry without one", () => {
+    const countries = decodeCountries({
+      FR: { ...FRANCE, phone_length: "nine" },
+      AQ: { id: "9", name: "Antarctica", calling_code: "+672", phone_length: "99" },
+    });
+
+    expect(countries).toEqual({ FR: FRANCE });
+    expect(console.table).toHaveBeenCalledWith([
+      { path: "countries.FR.phone_length", problem: 'is invalid ("nine"); used the numbering plan', action: "repaired" },
+      { path: "countries.AQ", problem: 'has an invalid phone length ("99")', action: "dropped" },
+    ]);
+  });
+
+  it("repairs lowercase keys and drops invalid and duplicate ones", () => {
+    const countries = decodeCountries({ fr: FRANCE, FR: { ...FRANCE, id: "other" }, FRA: FRANCE });
+
+    expect(countries).toEqual({ FR: FRANCE });
+    expect(console.table).toHaveBeenCalledWith([
+      { path: "countries.fr", problem: "key is not uppercase", action: "repaired" },
+      { path: "countries.FR", problem: "duplicates FR", action: "dropped" },
+      { path: "countries.FRA", problem: "key is not an ISO 3166-1 alpha-2 code", action: "dropped" },
+    ]);
+  });
+});
+
+describe("decodeAccessToken", () => {
+  it("reads the token and its lifetime", () => {
+    expect(decodeAccessToken({ access_token: " abc ", expires_in: 3600 })).toEqual({ access_token: "abc", expires_in: 3600 });
+    expect(decodeAccessToken({ access_token: "abc", expires_in: "3600" })).toEqual({ access_token: "abc", expires_in: 3600 });
+    expect(decodeAccessToken({ access_token: "abc" })).toEqual({ access_token: "abc" });
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["an HTML page", HTML_BODY],
+    ["an empty body", ""],
+    ["a missing token", { expires_in: 3600 }],
+    ["a numeric token", { access_token: 12345 }],
+    ["a blank token", { access_token: "  " }],
+  ])("rejects %s", (_, body) => {
+    const error = decodeError(() => decodeAccessToken(body));
+
+    expect(error.message).toBe("Invalid access token response: missing access_token");
+  });
+
+  it.each([
+    ["a word", "soon"],
+    ["zero", 0],
+    ["a negative number", -60],
+    ["an object", { seconds: 3600 }],
+  ])("drops an expires_in that is %s, so the default lifetime applies", (_, expiresIn) => {
+    expect(decodeAccessToken({ access_token: "abc", expires_in: expiresIn })).toEqual({ access_token: "abc" });
+    expect(console.table).toHaveBeenCalledWith([expect.objectContaining({ path: "expires_in", action: "dropped" })]);
+  });
+});
+
+describe("decodeAcknowledgement", () => {
+  it("accepts JSON and empty bodies", () => {
+    expect(() => decodeAcknowledgement("two-factor authentication", { status: "sent" })).not.toThrow();
+    expect(() => decodeAcknowledgement("two-factor authentication", "")).not.toThrow();
+    expect(() => decodeAcknowledgement("two-factor authentication", undefined)).not.toThrow();
+  });
+
+  it("rejects an HTML page served with a success status", () => {
+    const error = decodeError(() => decodeAcknowledgement("two-factor verification", HTML_BODY));
+
+    expect(error.message).toBe("Invalid two-factor verification response: expected a JSON body");
+    expect(toApiError(error).kind).toBe("invalid_response");
+  });
+});
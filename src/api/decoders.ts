@@ -0,0 +1,219 @@
+import { Country, CountryFields, isCountry } from '../types';
+import { getPhoneMetadata } from '../utils/phoneMetadata';
+
+/**
+ * Interface: DecodeIssue
+ *
+ * A problem found in an API response and what was done about it.
+ */
+export interface DecodeIssue {
+  path: string;                      // Where the problem is, e.g. "countries.FR.phone_length"
+  problem: string;                   // What is wrong with the value
+  action: 'repaired' | 'dropped';    // Whether the value was fixed or left out
+}
+
+/**
+ * InvalidResponseError is thrown when a response cannot be used at all.
+ * toApiError classifies it as an `invalid_response` ApiError.
+ */
+export class InvalidResponseError extends Error {
+  readonly endpoint: string;
+  readonly issues: DecodeIssue[];
+
+  constructor(endpoint: string, message: string, issues: DecodeIssue[] = []) {
+    super(`Invalid ${endpoint} response: ${message}`);
+    this.name = 'InvalidResponseError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+// Plausible bounds of a national number length
+const MIN_PHONE_LENGTH = 4;
+const MAX_PHONE_LENGTH = 17;
+
+/**
+ * Logs the problems found while decoding a response, as one grouped report.
+ *
+ * @param {string} endpoint - The endpoint the response came from.
+ * @param {DecodeIssue[]} issues - The problems found.
+ */
+const reportIssues = (endpoint: string, issues: DecodeIssue[]) => {
+  if (issues.length === 0) return;
+  console.warn(`The ${endpoint} response had ${issues.length} problem(s) that were repaired or dropped:`);
+  console.table(issues);
+};
+
+/**
+ * Checks whether a value is a plain object (not null and not an array).
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} - True for plain objects.
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Decodes one country entry, repairing what can be repaired.
+ *
+ * @param {string} iso - The ISO code the entry is keyed by.
+ * @param {unknown} entry - The raw entry.
+ * @param {DecodeIssue[]} issues - Collects the problems found.
+ * @returns {Country | null} - The country, or null when it has to be dropped.
+ */
+const decodeCountry = (iso: string, entry: unknown, issues: DecodeIssue[]): Country | null => {
+  const path = `countries.${iso}`;
+  const drop = (problem: string) => {
+    issues.push({ path, problem, action: 'dropped' });
+    return null;
+  };
+  const repair = (field: string, problem: string) =>
+    issues.push({ path: `${path}.${field}`, problem, action: 'repaired' });
+
+  if (!isCountry(entry)) {
+    return drop('is not an object with id, name, calling_code and phone_length');
+  }
+
+  let id: unknown = entry[CountryFields.ID];
+  if (typeof id === 'number' && Number.isFinite(id)) {
+    repair(CountryFields.ID, 'is a number');
+    id = String(id);
+  }
+  if (typeof id !== 'string' || !id.trim()) {
+    return drop('has no usable id');
+  }
+
+  const rawName: unknown = entry[CountryFields.NAME];
+  const name = typeof rawName === 'string' ? rawName.trim() : '';
+  if (!name) {
+    return drop('has no name');
+  }
+  if (name !== rawName) {
+    repair(CountryFields.NAME, 'has surrounding whitespace');
+  }
+
+  let callingCode: unknown = entry[CountryFields.CALLING_CODE];
+  if (typeof callingCode === 'number' && Number.isInteger(callingCode)) {
+    repair(CountryFields.CALLING_CODE, 'is a number');
+    callingCode = `+${callingCode}`;
+  }
+  const callingDigits = typeof callingCode === 'string' ? callingCode.replace(/\D/g, '') : '';
+  if (typeof callingCode !== 'string' || callingDigits.length < 1 || callingDigits.length > 4) {
+    return drop(`has an invalid calling code (${JSON.stringify(entry[CountryFields.CALLING_CODE])})`);
+  }
+
+  const rawLength: unknown = entry[CountryFields.PHONE_LENGTH];
+  let phoneLength = typeof rawLength === 'number' ? rawLength : Number(String(rawLength).trim());
+  if (!Number.isInteger(phoneLength) || phoneLength < MIN_PHONE_LENGTH || phoneLength > MAX_PHONE_LENGTH) {
+    // The numbering plan metadata knows the length of the countries it covers
+    const metadata = getPhoneMetadata({ iso, id, name, calling_code: callingCode, phone_length: '' });
+    if (!metadata) {
+      return drop(`has an invalid phone length (${JSON.stringify(rawLength)})`);
+    }
+    repair(CountryFields.PHONE_LENGTH, `is invalid (${JSON.stringify(rawLength)}); used the numbering plan`);
+    phoneLength = metadata.maxLength;
+  } else if (typeof rawLength !== 'string' || rawLength !== String(phoneLength)) {
+    repair(CountryFields.PHONE_LENGTH, 'is not a plain digit string');
+  }
+
+  return { id: id.trim(), name, calling_code: callingCode, phone_length: String(phoneLength) };
+};
+
+/**
+ * Decodes the countries response: an object of Country entries keyed by
+ * ISO 3166-1 alpha-2 code. Lowercase keys and numeric fields are repaired,
+ * entries that cannot be repaired and duplicate keys are dropped, and the
+ * problems are logged as one report.
+ *
+ * @param {unknown} data - The response body.
+ * @returns {Record<string, Country>} - The usable countries.
+ *
+ * @throws {InvalidResponseError} - When the body is not an object or no entry is usable.
+ */
+export const decodeCountries = (data: unknown): Record<string, Country> => {
+  const endpoint = 'countries';
+  if (!isRecord(data)) {
+    throw new InvalidResponseError(endpoint, 'expected an object of countries keyed by ISO code');
+  }
+
+  const issues: DecodeIssue[] = [];
+  const countries: Record<string, Country> = {};
+  Object.entries(data).forEach(([key, entry]) => {
+    let iso = key.trim();
+    if (!/^[A-Za-z]{2}$/.test(iso)) {
+      issues.push({ path: `countries.${key}`, problem: 'key is not an ISO 3166-1 alpha-2 code', action: 'dropped' });
+      return;
+    }
+    if (iso !== iso.toUpperCase()) {
+      issues.push({ path: `countries.${key}`, problem: 'key is not uppercase', action: 'repaired' });
+      iso = iso.toUpperCase();
+    }
+    if (countries[iso]) {
+      issues.push({ path: `countries.${key}`, problem: `duplicates ${iso}`, action: 'dropped' });
+      return;
+    }
+    const country = decodeCountry(iso, entry, issues);
+    if (country) countries[iso] = country;
+  });
+
+  if (Object.keys(countries).length === 0) {
+    throw new InvalidResponseError(endpoint, 'no usable countries', issues);
+  }
+  reportIssues(endpoint, issues);
+  return countries;
+};
+
+/**
+ * Interface: AccessTokenResponse
+ *
+ * The decoded access token response.
+ */
+export interface AccessTokenResponse {
+  access_token: string;   // The access token
+  expires_in?: number;    // Token lifetime in seconds, when the API provides a usable one
+}
+
+/**
+ * Decodes the access token response. An unusable `expires_in` is dropped
+ * so that the default lifetime applies.
+ *
+ * @param {unknown} data - The response body.
+ * @returns {AccessTokenResponse} - The token and its lifetime.
+ *
+ * @throws {InvalidResponseError} - When the body has no access token.
+ */
+export const decodeAccessToken = (data: unknown): AccessTokenResponse => {
+  const endpoint = 'access token';
+  if (!isRecord(data) || typeof data.access_token !== 'string' || !data.access_token.trim()) {
+    throw new InvalidResponseError(endpoint, 'missing access_token');
+  }
+
+  const issues: DecodeIssue[] = [];
+  const expiresIn = Number(data.expires_in);
+  const hasExpiry = data.expires_in !== undefined && data.expires_in !== null;
+  if (hasExpiry && !(Number.isFinite(expiresIn) && expiresIn > 0)) {
+    issues.push({ path: 'expires_in', problem: `is not a positive number (${JSON.stringify(data.expires_in)})`, action: 'dropped' });
+  }
+  reportIssues(endpoint, issues);
+
+  return {
+    access_token: data.access_token.trim(),
+    ...(hasExpiry && issues.length === 0 ? { expires_in: expiresIn } : {}),
+  };
+};
+
+/**
+ * Decodes the response of an endpoint that only acknowledges a request,
+ * such as the two-factor endpoints. Any JSON body or an empty body is
+ * accepted; text such as an HTML error page served with status 200 is not.
+ *
+ * @param {string} endpoint - The endpoint name, for the error message.
+ * @param {unknown} data - The response body.
+ *
+ * @throws {InvalidResponseError} - When the body is not JSON.
+ */
+export const decodeAcknowledgement = (endpoint: string, data: unknown) => {
+  if (typeof data === 'string' && data.trim() !== '') {
+    throw new InvalidResponseError(endpoint, 'expected a JSON body');
+  }
+};
@@ -0,0 +1,180 @@
+import axios from 'axios';
+import { DEFAULT_TRANSLATOR, Translator } from '../i18n/translate';
+import { DecodeIssue, InvalidResponseError } from './decoders';
+
+/**
+ * Type: ApiError
+ *
+ * A failed request, classified so that callers can react to the cause
+ * instead of parsing messages:
+ * - network: The API could not be reached.
+ * - timeout: The API did not answer in time.
+ * - unauthorized: The API rejected the credentials (401/403) or no access token is available.
+ * - rate_limited: Too many requests (429); `retryAfter` is in seconds when the API sends it.
+ * - validation: The API rejected the input (400/422); `fieldErrors` maps fields to messages.
+ * - invalid_response: The API answered with a body that cannot be used; `issues` lists why.
+ * - configuration: The request cannot be sent with the current configuration, e.g. an endpoint is not set.
+ * - country_unavailable: The country comes from the bundled fallback list, whose IDs the API does not know.
+ * - unknown: Anything else, such as a 5xx response or an unexpected exception.
+ *
+ * `message` is meant for logs and developers; UIs should use describeApiError.
+ */
+export type ApiError =
+  | { kind: 'network'; message: string }
+  | { kind: 'timeout'; message: string }
+  | { kind: 'unauthorized'; message: string; status?: number }
+  | { kind: 'rate_limited'; message: string; retryAfter: number | null }
+  | { kind: 'validation'; message: string; fieldErrors: Record<string, string[]> }
+  | { kind: 'invalid_response'; message: string; issues: DecodeIssue[] }
+  | { kind: 'configuration'; message: string }
+  | { kind: 'country_unavailable'; message: string }
+  | { kind: 'unknown'; message: string; status?: number };
+
+export type ApiErrorKind = ApiError['kind'];
+
+/**
+ * Reads a Retry-After header, given either in seconds or as an HTTP date.
+ *
+ * @param {unknown} value - The header value.
+ * @returns {number | null} - Seconds to wait, or null when the header is missing or invalid.
+ */
+export const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) return Number(text);
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+/**
+ * Collects field errors from an error response body. Both
+ * `{ errors: { field: ["message"] } }` and `{ errors: { field: "message" } }`
+ * are understood, as are `{ errors: [{ field, message }] }` lists.
+ *
+ * @param {unknown} body - The response body.
+ * @returns {Record<string, string[]>} - Messages keyed by field name.
+ */
+const readFieldErrors = (body: unknown): Record<string, string[]> => {
+  const errors = (body as { errors?: unknown } | null)?.errors;
+  const fieldErrors: Record<string, string[]> = {};
+  const add = (field: unknown, message: unknown) => {
+    if (typeof message !== 'string') return;
+    const key = typeof field === 'string' ? field : '_';
+    fieldErrors[key] = [...(fieldErrors[key] ?? []), message];
+  };
+
+  if (Array.isArray(errors)) {
+    errors.forEach((entry) => add(entry?.field, entry?.message));
+  } else if (errors && typeof errors === 'object') {
+    Object.entries(errors).forEach(([field, messages]) =>
+      (Array.isArray(messages) ? messages : [messages]).forEach((message) => add(field, message))
+    );
+  }
+  return fieldErrors;
+};
+
+/**
+ * Reads the message of an error response body, if it has one.
+ *
+ * @param {unknown} body - The response body.
+ * @returns {string | undefined} - The message.
+ */
+const readMessage = (body: unknown) => {
+  const message = (body as { message?: unknown } | null)?.message;
+  return typeof message === 'string' && message ? message : undefined;
+};
+
+/**
+ * Classifies anything thrown by a request as an ApiError.
+ *
+ * @param {unknown} error - The error thrown by axios or the API client.
+ * @returns {ApiError} - The classified error.
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (isApiError(error)) return error;
+  if (error instanceof InvalidResponseError) {
+    return { kind: 'invalid_response', message: error.message, issues: error.issues };
+  }
+  if (!axios.isAxiosError(error)) {
+    return { kind: 'unknown', message: error instanceof Error ? error.message : 'An unexpected error occurred' };
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return { kind: 'timeout', message: error.message };
+  }
+  if (!error.response) {
+    return { kind: 'network', message: error.message };
+  }
+
+  const { status, data, headers } = error.response;
+  const message = readMessage(data) ?? error.message;
+  switch (status) {
+    case 401:
+    case 403:
+      return { kind: 'unauthorized', message, status };
+    case 429:
+      return { kind: 'rate_limited', message, retryAfter: parseRetryAfter(headers?.['retry-after']) };
+    case 400:
+    case 422:
+      return { kind: 'validation', message, fieldErrors: readFieldErrors(data) };
+    default:
+      return { kind: 'unknown', message, status };
+  }
+};
+
+/**
+ * Checks whether a value is already an ApiError.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} - True for ApiError objects.
+ */
+export const isApiError = (value: unknown): value is ApiError => {
+  const kinds: string[] = ['network', 'timeout', 'unauthorized', 'rate_limited', 'validation', 'invalid_response', 'configuration',
+    'country_unavailable', 'unknown'];
+  return typeof value === 'object' && value !== null
+    && kinds.includes((value as ApiError).kind) && typeof (value as ApiError).message === 'string';
+};
+
+/**
+ * Whether repeating the failed request may succeed.
+ *
+ * @param {ApiError} error - The error.
+ * @returns {boolean} - False for input the API rejected, for configuration problems and for fallback
+ * countries (which need the API's country list, not a retry), true otherwise.
+ */
+export const isRetryable = (error: ApiError) =>
+  !['validation', 'configuration', 'country_unavailable'].includes(error.kind);
+
+/**
+ * Describes an error for the user in the translator's locale. Validation
+ * errors show the message of the first invalid field, since it is the most
+ * specific one available.
+ *
+ * @param {ApiError} error - The error.
+ * @param {Translator} [translator] - Localizes the description; English by default.
+ * @returns {string} - The description.
+ */
+export const describeApiError = (error: ApiError, { t }: Translator = DEFAULT_TRANSLATOR): string => {
+  switch (error.kind) {
+    case 'network':
+      return t('error.network');
+    case 'timeout':
+      return t('error.timeout');
+    case 'unauthorized':
+      return t('error.unauthorized');
+    case 'rate_limited':
+      return error.retryAfter
+        ? t('error.rateLimited', { count: error.retryAfter })
+        : t('error.rateLimitedLater');
+    case 'validation':
+      return Object.values(error.fieldErrors)[0]?.[0] ?? t('error.validation');
+    case 'invalid_response':
+      return t('error.invalidResponse');
+    case 'configuration':
+      return t('error.configuration');
+    case 'country_unavailable':
+      return t('error.countryUnavailable');
+    default:
+      return t('error.unknown');
+  }
+};
@@ -0,0 +1,24 @@
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import CountryFlag from "./CountryFlag";
+
+describe("CountryFlag", () => {
+  it("keeps the placeholder of a broken CDN image across renders with an inline provider", () => {
+    const view = render(<CountryFlag iso="fr" provider={{ type: "cdn", baseUrl: "https://flags.test" }} />);
+
+    fireEvent.error(screen.getByRole("img"));
+    view.rerender(<CountryFlag iso="fr" provider={{ type: "cdn", baseUrl: "https://flags.test" }} />);
+
+    expect(screen.queryByRole("img")).not.toBeInTheDocument();
+    expect(screen.getByText("FR")).toBeInTheDocument();
+  });
+
+  it("loads the image again for another country", () => {
+    const view = render(<CountryFlag iso="fr" provider={{ type: "cdn" }} />);
+
+    fireEvent.error(screen.getByRole("img"));
+    view.rerender(<CountryFlag iso="de" provider={{ type: "cdn" }} />);
+
+    expect(screen.getByRole("img")).toHaveAttribute("src", "https://flagcdn.com/de.svg");
+  });
+});
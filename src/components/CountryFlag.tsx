@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+
+/**
+ * Type: FlagProvider
+ *
+ * Describes how country flags are rendered:
+ * - `emoji`: Unicode regional indicator flags derived from the ISO code. Needs no network access.
+ * - `cdn`: Images loaded from a flag CDN (opt-in), `${baseUrl}/${iso}.svg`.
+ * - `custom`: A render function for anything else, such as self-hosted images or an SVG sprite.
+ */
+export type FlagProvider =
+  | { type: "emoji" }
+  | { type: "cdn"; baseUrl?: string }
+  | { type: "custom"; render: (iso: string) => React.ReactNode };
+
+export const DEFAULT_FLAG_PROVIDER: FlagProvider = { type: "emoji" };
+
+const DEFAULT_CDN_URL = "https://flagcdn.com";
+
+// Offset from "A" to the regional indicator symbol "🇦"
+const REGIONAL_INDICATOR_OFFSET = 0x1f1e6 - "A".charCodeAt(0);
+
+/**
+ * Converts an ISO 3166-1 alpha-2 code into its flag emoji.
+ *
+ * @param {string} iso - The two-letter ISO code.
+ * @returns {string | null} - The flag emoji, or null when the code is not two letters.
+ */
+export const isoToFlagEmoji = (iso: string): string | null => {
+  const code = iso.toUpperCase();
+  if (!/^[A-Z]{2}$/.test(code)) return null;
+  return String.fromCodePoint(...Array.from(code, (char) => char.charCodeAt(0) + REGIONAL_INDICATOR_OFFSET));
+};
+
+interface CountryFlagProps {
+  iso: string;             // The ISO code of the country
+  provider?: FlagProvider; // How to render the flag; defaults to emoji
+}
+
+/**
+ * Placeholder shown when a flag cannot be rendered.
+ */
+const FlagPlaceholder: React.FC<{ iso: string }> = ({ iso }) => (
+  <span className="country-flag country-flag-placeholder" aria-hidden="true">
+    {iso.slice(0, 2).toUpperCase()}
+  </span>
+);
+
+/**
+ * CountryFlag Component
+ *
+ * Renders the flag of a country with the configured provider. Flags are
+ * decorative (the country name or code is always shown next to them), so
+ * they are hidden from assistive technology. A placeholder with the ISO
+ * code is shown when a flag cannot be rendered or an image fails to load.
+ *
+ * @component
+ * @param {CountryFlagProps} props - The component props.
+ * @returns {JSX.Element} The rendered CountryFlag component.
+ */
+const CountryFlag: React.FC<CountryFlagProps> = ({ iso, provider = DEFAULT_FLAG_PROVIDER }) => {
+  // The image URL that failed to load; keyed by URL rather than by the provider object, which
+  // is often passed inline, so only a different country or CDN gets another chance to load
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+
+  switch (provider.type) {
+    case "emoji": {
+      const emoji = isoToFlagEmoji(iso);
+      if (!emoji) return <FlagPlaceholder iso={iso} />;
+      return (
+        <span className="country-flag country-flag-emoji" aria-hidden="true">
+          {emoji}
+        </span>
+      );
+    }
+    case "cdn": {
+      const src = `${provider.baseUrl ?? DEFAULT_CDN_URL}/${iso.toLowerCase()}.svg`;
+      if (src === failedSrc) return <FlagPlaceholder iso={iso} />;
+      return (
+        <img
+          src={src}
+          alt=""
+          className="country-flag"
+          loading="lazy"
+          onError={() => setFailedSrc(src)}
+        />
+      );
+    }
+    case "custom":
+      return <>{provider.render(iso) ?? <FlagPlaceholder iso={iso} />}</>;
+    default:
+      return <FlagPlaceholder iso={iso} />;
+  }
+};
+
+export default CountryFlag;
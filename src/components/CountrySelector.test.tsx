@@ -0,0 +1,297 @@
+import React, { useState } from "react";
+import { fireEvent, screen, within } from "@testing-library/react";
+import CountrySelector, { CountrySelectorProps } from "./CountrySelector";
+import HeadlessCountrySelector from "./HeadlessCountrySelector";
+import { CountryWithISO } from "../types";
+import { MOCK_COUNTRIES } from "../mocks/fixtures";
+import { renderWithProviders } from "../mocks/testUtils";
+import { getLastUsedCountry } from "../utils/defaultCountry";
+
+// Holds the selection like a form would
+const Harness: React.FC<Partial<CountrySelectorProps> & { onChange?: (country: CountryWithISO) => void }> = ({ onChange, ...props }) => {
+  const [selectedCountry, setSelectedCountry] = useState<CountryWithISO | null>(null);
+  return (
+    <CountrySelector
+      countries={MOCK_COUNTRIES}
+      defaultCountry="US"
+      {...props}
+      selectedCountry={selectedCountry}
+      onSelectCountry={(country) => {
+        setSelectedCountry(country);
+        onChange?.(country);
+      }}
+    />
+  );
+};
+
+const renderSelector = (props: React.ComponentProps<typeof Harness> = {}, locale?: string) =>
+  renderWithProviders(<Harness {...props} />, { locale });
+
+const getTrigger = () => screen.getByRole("button", { expanded: false });
+
+const openSelector = () => {
+  fireEvent.click(getTrigger());
+  return screen.getByRole("combobox");
+};
+
+const optionNames = () => screen.getAllByRole("option").map((option) => option.textContent);
+
+describe("CountrySelector", () => {
+  it("preselects the default country", () => {
+    const onChange = jest.fn();
+    renderSelector({ onChange });
+
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ iso: "US", id: "226" }));
+    expect(getTrigger()).toHaveTextContent("+1");
+  });
+
+  it("remembers the country the user picks, but not the default one", () => {
+    const view = renderSelector({ defaultCountry: undefined });
+    expect(getLastUsedCountry()).toBeNull();
+
+    openSelector();
+    fireEvent.click(screen.getByRole("option", { name: /Mexico/ }));
+    expect(getLastUsedCountry()).toBe("MX");
+
+    view.unmount();
+    const onChange = jest.fn();
+    renderSelector({ defaultCountry: undefined, onChange });
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ iso: "MX" }));
+  });
+
+  it("opens a listbox with every country sorted by name and focuses the search", () => {
+    renderSelector();
+
+    const search = openSelector();
+
+    expect(search).toHaveFocus();
+    expect(optionNames()).toEqual([
+      "🇨🇦Canada+1",
+      "🇫🇷France+33",
+      "🇩🇪Germany+49",
+      "🇲🇽Mexico+52",
+      "🇪🇸Spain+34",
+      "🇬🇧United Kingdom+44",
+      "🇺🇸United States+1",
+    ]);
+    expect(screen.getByRole("option", { selected: true })).toHaveTextContent("United States");
+  });
+
+  it("filters by name, ISO code and calling code", () => {
+    renderSelector();
+    const search = openSelector();
+
+    fireEvent.change(search, { target: { value: "ger" } });
+    expect(optionNames()).toEqual(["🇩🇪Germany+49"]);
+
+    fireEvent.change(search, { target: { value: "+44" } });
+    expect(optionNames()).toEqual(["🇬🇧United Kingdom+44"]);
+
+    fireEvent.change(search, { target: { value: "MX" } });
+    expect(optionNames()).toEqual(["🇲🇽Mexico+52"]);
+  });
+
+  it("highlights the matched text", () => {
+    renderSelector();
+    const search = openSelector();
+
+    fireEvent.change(search, { target: { value: "spa" } });
+
+    const option = screen.getByRole("option");
+    expect(within(option).getByText("Spa").tagName).toBe("MARK");
+  });
+
+  it("announces the number of results", () => {
+    renderSelector();
+    const search = openSelector();
+
+    fireEvent.change(search, { target: { value: "an" } });
+    expect(screen.getByRole("status")).toHaveTextContent(`${optionNames().length} countries found`);
+
+    fireEvent.change(search, { target: { value: "zzz" } });
+    expect(screen.queryAllByRole("option")).toHaveLength(0);
+    expect(screen.getByRole("status")).toHaveTextContent("No countries found");
+  });
+
+  it("selects a country on click and returns focus to the trigger", () => {
+    const onChange = jest.fn();
+    renderSelector({ onChange });
+    openSelector();
+
+    fireEvent.click(screen.getByRole("option", { name: /France/ }));
+
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ iso: "FR", name: "France" }));
+    expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+    expect(getTrigger()).toHaveFocus();
+    expect(getTrigger()).toHaveTextContent("+33");
+  });
+
+  it("moves the active option with the keyboard and selects it with Enter", () => {
+    const onChange = jest.fn();
+    renderSelector({ onChange });
+    const search = openSelector();
+
+    fireEvent.keyDown(search, { key: "Home" });
+    expect(search).toHaveAttribute("aria-activedescendant", expect.stringContaining("CA"));
+
+    fireEvent.keyDown(search, { key: "ArrowDown" });
+    fireEvent.keyDown(search, { key: "ArrowDown" });
+    expect(search).toHaveAttribute("aria-activedescendant", expect.stringContaining("DE"));
+
+    fireEvent.keyDown(search, { key: "End" });
+    fireEvent.keyDown(search, { key: "ArrowDown" }); // Stays on the last option
+    expect(search).toHaveAttribute("aria-activedescendant", expect.stringContaining("US"));
+
+    fireEvent.keyDown(search, { key: "ArrowUp" });
+    fireEvent.keyDown(search, { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ iso: "GB" }));
+  });
+
+  it("closes on Escape without changing the selection", () => {
+    const onChange = jest.fn();
+    renderSelector({ onChange });
+    const search = openSelector();
+
+    fireEvent.keyDown(search, { key: "ArrowDown" });
+    fireEvent.keyDown(search, { key: "Escape" });
+
+    expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+    expect(onChange).toHaveBeenCalledTimes(1); // Only the default selection
+    expect(getTrigger()).toHaveFocus();
+  });
+
+  it("closes when clicking outside", () => {
+    renderSelector();
+    openSelector();
+
+    fireEvent.mouseDown(document.body);
+
+    expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+  });
+
+  it("opens with the arrow keys on the trigger", () => {
+    renderSelector();
+
+    fireEvent.keyDown(getTrigger(), { key: "ArrowDown" });
+
+    expect(screen.getByRole("listbox")).toBeInTheDocument();
+  });
+
+  it("opens on the type-ahead match without changing the selection", () => {
+    const onChange = jest.fn();
+    renderSelector({ onChange });
+
+    fireEvent.keyDown(getTrigger(), { key: "g" });
+
+    expect(screen.getByRole("combobox")).toHaveAttribute("aria-activedescendant", expect.stringContaining("DE"));
+    expect(onChange).toHaveBeenCalledTimes(1); // Only the default selection
+  });
+
+  it("keeps the status region mounted and fills it when the list opens", () => {
+    renderSelector();
+
+    expect(screen.getByRole("status")).toBeEmptyDOMElement();
+    openSelector();
+    expect(screen.getByRole("status")).toHaveTextContent("7 countries found");
+  });
+
+  it("pins preferred countries until the user searches", () => {
+    renderSelector({ preferredCountries: ["GB", "FR"] });
+    const search = openSelector();
+
+    expect(optionNames().slice(0, 3)).toEqual(["🇬🇧United Kingdom+44", "🇫🇷France+33", "🇨🇦Canada+1"]);
+
+    fireEvent.change(search, { target: { value: "a" } });
+    expect(optionNames()[0]).not.toContain("United Kingdom");
+  });
+
+  it("shows and searches localized country names", () => {
+    renderSelector({}, "es");
+    const search = openSelector();
+
+    fireEvent.change(search, { target: { value: "alem" } });
+    expect(optionNames()).toEqual(["🇩🇪Alemania+49"]);
+
+    // The API's English name still matches
+    fireEvent.change(search, { target: { value: "germany" } });
+    expect(optionNames()).toEqual(["🇩🇪Alemania+49"]);
+  });
+
+  it("adds the given class names next to the built-in ones", () => {
+    renderSelector({ classNames: { trigger: "ds-trigger", option: "ds-option", optionSelected: "ds-selected" } });
+
+    expect(getTrigger()).toHaveClass("selected-country", "ds-trigger");
+    openSelector();
+    expect(screen.getAllByRole("option")[0]).toHaveClass("ds-option");
+    expect(screen.getByRole("option", { selected: true })).toHaveClass("ds-option", "ds-selected");
+  });
+
+  it("renders custom trigger and option content from slots", () => {
+    renderSelector({
+      slots: {
+        trigger: ({ country }) => `${country?.name} (${country?.iso})`,
+        option: ({ country, isSelected }) => `${country.iso}${isSelected ? " ✓" : ""}`,
+      },
+    });
+
+    expect(getTrigger()).toHaveTextContent("United States (US)");
+    openSelector();
+    expect(optionNames()).toEqual(["CA", "FR", "DE", "MX", "ES", "GB", "US ✓"]);
+  });
+});
+
+describe("HeadlessCountrySelector", () => {
+  // A minimal custom markup, rendered only through the prop getters
+  const CustomSelector: React.FC<{ onChange: (country: CountryWithISO) => void }> = ({ onChange }) => {
+    const [selectedCountry, setSelectedCountry] = useState<CountryWithISO | null>(null);
+    return (
+      <HeadlessCountrySelector
+        countries={MOCK_COUNTRIES}
+        defaultCountry="FR"
+        selectedCountry={selectedCountry}
+        onSelectCountry={(country) => {
+          setSelectedCountry(country);
+          onChange(country);
+        }}
+        virtualize={false}
+      >
+        {(selector) => (
+          <div {...selector.getRootProps()}>
+            <button {...selector.getTriggerProps()}>{selector.selectedCountry?.name}</button>
+            {selector.isOpen && (
+              <>
+                <input {...selector.getSearchProps()} />
+                <ol {...selector.getListboxProps()}>
+                  {selector.items.map((item) => (
+                    <li key={item.country.iso} {...selector.getOptionProps(item)}>{item.country.iso}</li>
+                  ))}
+                </ol>
+              </>
+            )}
+            <p {...selector.getStatusProps()}>{selector.statusMessage}</p>
+          </div>
+        )}
+      </HeadlessCountrySelector>
+    );
+  };
+
+  it("reuses the search, keyboard and selection behavior", () => {
+    const onChange = jest.fn();
+    renderWithProviders(<CustomSelector onChange={onChange} />);
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ iso: "FR" }));
+
+    fireEvent.keyDown(screen.getByRole("button", { name: /France/ }), { key: "Enter" });
+    const search = screen.getByRole("combobox");
+    expect(search).toHaveFocus();
+    expect(optionNames()).toHaveLength(7);
+
+    fireEvent.change(search, { target: { value: "united" } });
+    expect(optionNames()).toEqual(["GB", "US"]);
+    expect(screen.getByRole("status")).toHaveTextContent("2 countries found");
+
+    fireEvent.keyDown(search, { key: "ArrowDown" });
+    fireEvent.keyDown(search, { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ iso: "US", name: "United States" }));
+    expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+  });
+});
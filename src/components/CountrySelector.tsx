@@ -1,28 +1,63 @@
-import React, { useState, useRef, useEffect, useMemo } from "react";
+import React from "react";
+import { SearchHighlight } from "../utils/countrySearch";
+import CountryFlag, { FlagProvider, DEFAULT_FLAG_PROVIDER } from "./CountryFlag";
+import { Country, CountryWithISO } from "../types";
+import { CountrySelectorItem, useCountrySelector } from "../hooks/useCountrySelector";
+import { TrackedEvent } from "../telemetry/events";
+import "./theme.css";
 import "./CountrySelector.css";
 
-interface Country {
-  id: string;
-  name: string;
-  calling_code: string;
-  phone_length: string;
-}
+// Elements of the selector whose class names can be extended
+export type CountrySelectorClassNames = Partial<Record<
+  "root" | "trigger" | "dropdown" | "search" | "list" | "option" | "optionActive" | "optionSelected" | "status",
+  string
+>>;
 
-interface CountryWithISO extends Country {
-  iso: string;
+// Render functions replacing the content of the trigger and of each option
+export interface CountrySelectorSlots {
+  trigger?: (state: { country: CountryWithISO | null; isOpen: boolean }) => React.ReactNode;
+  option?: (item: CountrySelectorItem) => React.ReactNode;
 }
 
-interface CountrySelectorProps {
+export interface CountrySelectorProps {
   countries: Record<string, Country>;
   selectedCountry: CountryWithISO | null;
   onSelectCountry: (country: CountryWithISO) => void;
+  flagProvider?: FlagProvider;
+  defaultCountry?: string;
+  preferredCountries?: string[];
+  onEvent?: (event: TrackedEvent) => void;
+  classNames?: CountrySelectorClassNames;
+  slots?: CountrySelectorSlots;
 }
 
+/**
+ * Renders text with the matched range wrapped in a `<mark>` element.
+ *
+ * @param {string} text - The text to render.
+ * @param {SearchHighlight} [highlight] - The matched range, if it applies to this text.
+ * @returns {JSX.Element} The rendered text.
+ */
+export const HighlightedText: React.FC<{ text: string; highlight?: SearchHighlight }> = ({ text, highlight }) => {
+  if (!highlight) return <>{text}</>;
+  return (
+    <>
+      {text.slice(0, highlight.start)}
+      <mark>{text.slice(highlight.start, highlight.end)}</mark>
+      {text.slice(highlight.end)}
+    </>
+  );
+};
+
+// Joins class names, skipping empty ones
+const cx = (...names: Array<string | false | undefined>) => names.filter(Boolean).join(" ") || undefined;
+
 /**
  * CountrySelector Component
  * 
  * A React component that renders a searchable dropdown for country selection. It displays the flag,
  * calling code, and name of each country. It also allows users to filter countries based on their search input.
+ * It follows the WAI-ARIA combobox pattern so it can be used with a keyboard and screen readers.
  *
  * ## Props
  * 
@@ -39,21 +74,49 @@ interface CountrySelectorProps {
  * @property {Record<string, Country>} countries - An object mapping ISO codes to country objects.
  * @property {CountryWithISO | null} selectedCountry - The currently selected country or `null`.
  * @property {function} onSelectCountry - A callback function triggered when a country is selected.
+ * @property {FlagProvider} [flagProvider] - How flags are rendered: emoji (default), the flag CDN (opt-in)
+ *   or a custom renderer.
+ * @property {string} [defaultCountry] - ISO code of the country to preselect when none is selected.
+ * @property {string[]} [preferredCountries] - ISO codes pinned, in order, at the top of the unfiltered list.
+ * @property {function} [onEvent] - Receives `selector_opened`, `country_selected` and `search_no_results` events,
+ *   in addition to the nearest `TelemetryProvider`.
+ * @property {CountrySelectorClassNames} [classNames] - Class names added to the root, trigger, dropdown, search,
+ *   list, option (and its active and selected states) and status elements, next to the built-in ones.
+ * @property {CountrySelectorSlots} [slots] - Render functions replacing the content of the trigger (given the
+ *   selected country and whether the list is open) and of each option (given its item).
  * 
  * @param {CountrySelectorProps} props - The props passed to the component.
  * 
  * @returns {JSX.Element} The rendered CountrySelector component.
  *
  * ## Behavior
- * - **Dropdown Toggle**: Clicking on the selected country toggles the visibility of the dropdown.
- * - **Search**: Filters countries in real-time based on user input in the search field.
+ * - **Dropdown Toggle**: Clicking the selected country, or pressing Enter, Space, ArrowDown or ArrowUp
+ *   on it, opens the dropdown and moves focus to the search field.
+ * - **Type-ahead**: Typing a letter on the closed trigger opens the dropdown with the next country whose name
+ *   starts with it as the active option; the selection only changes once an option is chosen.
+ * - **Search**: Filters countries in real-time by name (ignoring accents), alias, ISO alpha-2/alpha-3 code
+ *   or calling code, ranks exact code and prefix matches first, and highlights the matched text.
+ * - **Keyboard Navigation**: ArrowUp/ArrowDown, Home/End and PageUp/PageDown move the active option,
+ *   Enter selects it, and Escape closes the dropdown and returns focus to the trigger.
+ * - **Screen Readers**: The active option is exposed through `aria-activedescendant` and the number of
+ *   results is announced as the search changes.
+ * - **Virtualized List**: Only the visible options (plus a few overscan rows and the active option) are
+ *   mounted, and the selected country is scrolled into view when the dropdown opens.
  * - **Outside Click Detection**: Closes the dropdown when the user clicks outside the component.
- * - **Default Selection**: Automatically selects the first country if no country is selected initially.
+ * - **Default Selection**: When no country is selected, preselects `defaultCountry`, else the country the user
+ *   picked last time, else the region of the browser's languages or time zone, else the first country.
+ * - **Preferred Countries**: `preferredCountries` are listed first, above a separator, until the user searches.
+ * - **Localization**: Country names come from `Intl.DisplayNames` in the locale of the nearest `I18nProvider`,
+ *   keyed by ISO code, and are sorted and searched in that locale; the API name still matches as an alias.
+ * - **Theming**: Colors, shadows and radii come from the `--ccs-*` variables of `theme.css`; set
+ *   `data-ccs-theme="dark"` or `"auto"` on an ancestor for the dark theme.
  *
  * ## Dependencies
- * - `useState`, `useRef`, `useEffect`, `useMemo` from React for state management, refs, and memoization.
+ * - `useCountrySelector` for the state, search, keyboard handling and ARIA attributes; use it directly,
+ *   or `HeadlessCountrySelector`, to render entirely different markup.
  * - External CSS for component styling.
- * - `flagcdn.com` for fetching country flag images using ISO codes.
+ * - `CountryFlag` for rendering flags with the configured provider; no third-party requests are made
+ *   unless the CDN provider is chosen.
  *
  * ## Example Usage
  * ```jsx
@@ -68,98 +131,83 @@ const CountrySelector: React.FC<CountrySelectorProps> = ({
   countries,
   selectedCountry,
   onSelectCountry,
+  flagProvider = DEFAULT_FLAG_PROVIDER,
+  defaultCountry,
+  preferredCountries,
+  onEvent,
+  classNames = {},
+  slots = {},
 }) => {
-  const [isOpen, setIsOpen] = useState(false);
-  const [searchTerm, setSearchTerm] = useState("");
-  const dropdownRef = useRef<HTMLDivElement>(null);
-
-  // Effect to handle closing the dropdown when clicking outside
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
-        setIsOpen(false);
-      }
-    };
-
-    document.addEventListener("mousedown", handleClickOutside);
-    return () => {
-      document.removeEventListener("mousedown", handleClickOutside);
-    };
-  }, []);
-
-  // Memoized array of countries with ISO codes
-  const countriesArray = useMemo(() => 
-    Object.entries(countries).map(([iso, country]) => ({
-      ...country,
-      iso,
-    })),
-    [countries]
-  );
-
-  // Memoized array of filtered countries based on search term
-  const filteredCountries = useMemo(() => 
-    countriesArray.filter((country) =>
-      country.name.toLowerCase().includes(searchTerm.toLowerCase())
-    ),
-    [countriesArray, searchTerm]
-  );
-
-  // Handles the selection of a country
-  const handleCountrySelect = (country: CountryWithISO) => {
-    onSelectCountry(country);
-    setIsOpen(false);
-  };
-
-  // Automatically selects the first country if no country is selected initially
-  useEffect(() => {
-    if (countriesArray.length > 0 && !selectedCountry) {
-      onSelectCountry(countriesArray[0]);
-    }
-  }, [countriesArray, selectedCountry, onSelectCountry]);
+  const selector = useCountrySelector({
+    countries,
+    selectedCountry,
+    onSelectCountry,
+    defaultCountry,
+    preferredCountries,
+    onEvent,
+  });
 
   return (
-    <div className="country-selector" ref={dropdownRef}>
-      <div className="selected-country" onClick={() => setIsOpen(!isOpen)}>
-        {selectedCountry && (
-          <>
-            <img
-              src={`https://flagcdn.com/${selectedCountry.iso.toLowerCase()}.svg`}
-              alt={`${selectedCountry.name} flag`}
-              className="country-flag"
-              loading="lazy"
-            />
-            <span>{selectedCountry.calling_code}</span>
-          </>
-        )}
-      </div>
-      {isOpen && (
-        <div className="country-dropdown">
-          <input
-            type="text"
-            placeholder="Search countries..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-          />
-          <ul>
-            {filteredCountries.map((country) => (
-              <li key={country.id} onClick={() => handleCountrySelect(country)}>
-                <div className="country-option">
-                  <img
-                    src={`https://flagcdn.com/${country.iso.toLowerCase()}.svg`}
-                    alt={`${country.name} flag`}
-                    className="country-flag"
-                    loading="lazy"
-                  />
-                  <span>{country.name}</span>
-                </div>
-                <span>{country.calling_code}</span>
-              </li>
-            ))}
-          </ul>
+    <div {...selector.getRootProps({ className: cx("country-selector", classNames.root) })}>
+      <button {...selector.getTriggerProps({ className: cx("selected-country", classNames.trigger) })}>
+        {slots.trigger
+          ? slots.trigger({ country: selector.selectedCountry, isOpen: selector.isOpen })
+          : selectedCountry && (
+            <>
+              <CountryFlag iso={selectedCountry.iso} provider={flagProvider} />
+              <span>{selectedCountry.calling_code}</span>
+            </>
+          )}
+      </button>
+      {selector.isOpen && (
+        <div className={cx("country-dropdown", classNames.dropdown)}>
+          <input {...selector.getSearchProps({ className: classNames.search })} />
+          <div {...selector.getListContainerProps({ className: cx("country-list", classNames.list) })}>
+            <ul {...selector.getListboxProps()}>
+              {selector.items.map((item) => {
+                const { country, highlight } = item;
+                return (
+                  <li
+                    key={country.id}
+                    {...selector.getOptionProps(item, {
+                      className: cx(
+                        item.isActive && "active",
+                        item.isLastPreferred && "preferred-last",
+                        classNames.option,
+                        item.isActive && classNames.optionActive,
+                        item.isSelected && classNames.optionSelected
+                      ),
+                    })}
+                  >
+                    {slots.option ? slots.option(item) : (
+                      <>
+                        <div className="country-option">
+                          <CountryFlag iso={country.iso} provider={flagProvider} />
+                          <span>
+                            <HighlightedText text={country.name} highlight={highlight?.field === "name" ? highlight : undefined} />
+                          </span>
+                        </div>
+                        <span>
+                          <HighlightedText
+                            text={country.calling_code}
+                            highlight={highlight?.field === "calling_code" ? highlight : undefined}
+                          />
+                        </span>
+                      </>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
         </div>
       )}
+      {/* Stays mounted while closed so the result count is announced when the dropdown opens */}
+      <div {...selector.getStatusProps({ className: cx("visually-hidden", classNames.status) })}>
+        {selector.statusMessage}
+      </div>
     </div>
   );
 };
 
-export default CountrySelector;
\ No newline at end of file
+export default CountrySelector;
@@ -1,64 +1,148 @@
 import React, { ErrorInfo, ReactNode } from 'react';
+import { TelemetryContext, TelemetryContextValue } from './TelemetryProvider';
+import { useI18n } from '../hooks/useI18n';
+
+/**
+ * Interface: ErrorBoundaryFallbackProps
+ *
+ * What a fallback render prop receives.
+ */
+export interface ErrorBoundaryFallbackProps {
+  error: Error;        // The error that was caught
+  reset: () => void;   // Renders the children again
+}
+
+/**
+ * The default fallback UI, in the locale of the nearest I18nProvider.
+ */
+const DefaultFallback: React.FC<ErrorBoundaryFallbackProps> = ({ reset }) => {
+  const { t } = useI18n();
+  return (
+    <div role="alert">
+      <h1>{t('errorBoundary.title')}</h1>
+      <button type="button" className="submit-button" onClick={reset}>
+        {t('errorBoundary.retry')}
+      </button>
+    </div>
+  );
+};
 
 /**
  * ErrorBoundary is a React component that catches JavaScript errors
  * in its child component tree and displays a fallback UI.
- * 
+ *
  * Usage:
- * Wrap any component that may throw an error with <ErrorBoundary> to 
- * prevent the entire application from crashing.
- * 
+ * Wrap any component that may throw an error with <ErrorBoundary> to
+ * prevent the entire application from crashing. Caught errors are
+ * forwarded to the `errorReporter` of the nearest TelemetryProvider.
+ *
+ * Recovery:
+ * - `fallback` is a node or a render prop receiving `{ error, reset }`;
+ *   the default fallback offers a "Try again" button.
+ * - `resetKeys` recover automatically: when any key changes while the
+ *   fallback is shown, the children are rendered again.
+ * - `onReset` runs before the children are rendered again, e.g. to clear
+ *   the state that caused the error.
+ *
  * Example:
- * <ErrorBoundary>
+ * <ErrorBoundary name="form" resetKeys={[countries]} fallback={({ reset }) => <Retry onClick={reset} />}>
  *   <YourComponent />
  * </ErrorBoundary>
  */
 interface Props {
   children: ReactNode; // The child elements to render within the ErrorBoundary
+  name?: string;       // Identifies the boundary in error reports
+  fallback?: ReactNode | ((props: ErrorBoundaryFallbackProps) => ReactNode); // Replaces the default fallback UI
+  resetKeys?: unknown[]; // Values that reset the boundary when they change
+  onReset?: () => void;  // Called when the boundary resets
 }
 
 interface State {
-  hasError: boolean; // State to track if an error has occurred
+  error: Error | null; // The caught error, or null while the children render normally
 }
 
+/**
+ * Checks whether two lists of reset keys differ.
+ *
+ * @param {unknown[]} previous - The keys of the previous render.
+ * @param {unknown[]} next - The keys of this render.
+ * @returns {boolean} - True when the length or any key changed.
+ */
+const haveKeysChanged = (previous: unknown[] = [], next: unknown[] = []) =>
+  previous.length !== next.length || previous.some((key, index) => !Object.is(key, next[index]));
+
 class ErrorBoundary extends React.Component<Props, State> {
+  // Reads the error reporter of the nearest TelemetryProvider
+  static contextType = TelemetryContext;
+
   constructor(props: Props) {
     super(props);
-    this.state = { hasError: false }; // Initialize state to track errors
+    this.state = { error: null }; // Initialize state to track errors
   }
 
   /**
    * Updates state when an error is thrown in a child component.
-   * 
-   * @param {Error} _ - The error that was thrown. Not used in this implementation.
-   * @returns {State} - Updated state indicating an error has occurred.
+   *
+   * @param {Error} error - The error that was thrown.
+   * @returns {State} - Updated state holding the error.
    */
-  static getDerivedStateFromError(_: Error): State {
-    return { hasError: true }; // Set hasError to true to indicate an error
+  static getDerivedStateFromError(error: Error): State {
+    return { error }; // Keep the error for the fallback
   }
 
   /**
-   * Logs error information to the console for debugging purposes.
-   * 
+   * Logs error information to the console for debugging purposes and
+   * forwards it to the error reporter, if one is registered.
+   *
    * @param {Error} error - The error that was thrown.
    * @param {ErrorInfo} errorInfo - An object containing information about the error.
    */
   componentDidCatch(error: Error, errorInfo: ErrorInfo) {
     console.error("Uncaught error:", error, errorInfo); // Log error details
+    const { errorReporter } = this.context as TelemetryContextValue;
+    try {
+      errorReporter?.captureException(error, { componentStack: errorInfo.componentStack, boundary: this.props.name });
+    } catch (reportError) {
+      console.error("Error reporter failed:", reportError); // Never let reporting break the fallback
+    }
+  }
+
+  /**
+   * Resets the boundary when a reset key changes while the fallback is shown.
+   *
+   * @param {Props} prevProps - The props of the previous render.
+   */
+  componentDidUpdate(prevProps: Props) {
+    if (this.state.error && haveKeysChanged(prevProps.resetKeys, this.props.resetKeys)) {
+      this.reset();
+    }
   }
 
+  /**
+   * Clears the error so the children are rendered again.
+   */
+  reset = () => {
+    this.props.onReset?.();
+    this.setState({ error: null });
+  };
+
   /**
    * Renders the fallback UI if an error has occurred, otherwise renders the children.
-   * 
+   *
    * @returns {ReactNode} - The fallback UI or the child components.
    */
   render() {
-    if (this.state.hasError) {
-      return <h1>Sorry.. there was an error</h1>; // Fallback UI
+    const { error } = this.state;
+    if (error) {
+      const { fallback } = this.props;
+      if (typeof fallback === 'function') {
+        return fallback({ error, reset: this.reset });
+      }
+      return fallback !== undefined ? fallback : <DefaultFallback error={error} reset={this.reset} />; // Fallback UI
     }
 
     return this.props.children; // Render child components if no error
   }
 }
 
-export default ErrorBoundary; // Export the ErrorBoundary component
\ No newline at end of file
+export default ErrorBoundary; // Export the ErrorBoundary component
@@ -1,25 +1,53 @@
 import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { ApiError, describeApiError, isRetryable } from '../api/errors';
+import './theme.css';
+import './Notifications.css';
 
 interface ErrorNotificationProps {
-  message: string; // The error message to be displayed in the notification.
+  error: ApiError | string;   // The error to describe, or a ready-made message
+  title?: string;             // What failed, shown before the description
+  onRetry?: () => void;       // Shows a Retry button when the error may go away on retry
+  onDismiss?: () => void;     // Shows a dismiss button
 }
 
 /**
  * ErrorNotification Component
- * 
+ *
  * The ErrorNotification component is designed to display error messages
- * to the user. It provides visual feedback when an operation fails, 
- * enhancing user experience and debugging.
- * 
+ * to the user. It provides visual feedback when an operation fails,
+ * describes typed API errors in the current locale, and offers to retry
+ * the operation when that can help.
+ *
  * @component
  * @param {ErrorNotificationProps} props - The component props.
- * @param {string} props.message - The error message to display.
+ * @param {ApiError | string} props.error - The error to display.
+ * @param {string} [props.title] - What failed.
+ * @param {Function} [props.onRetry] - Repeats the failed operation.
+ * @param {Function} [props.onDismiss] - Hides the notification.
  * @returns {JSX.Element} The rendered ErrorNotification component.
  */
-const ErrorNotification: React.FC<ErrorNotificationProps> = ({ message }) => {
+const ErrorNotification: React.FC<ErrorNotificationProps> = ({ error, title, onRetry, onDismiss }) => {
+  const translator = useI18n();
+  const { t } = translator;
+  const description = typeof error === 'string' ? error : describeApiError(error, translator);
+  const canRetry = onRetry && (typeof error === 'string' || isRetryable(error));
+
   return (
-    <div className="error-notification">
-      <p>Error: {message}</p>
+    <div className="error-notification notification notification-banner notification-error" role="alert">
+      <p className="notification-message">
+        {title ? <><strong>{title}</strong> {description}</> : t('errorNotification.message', { message: description })}
+      </p>
+      {canRetry && (
+        <button type="button" className="notification-action" onClick={onRetry}>
+          {t('notification.retry')}
+        </button>
+      )}
+      {onDismiss && (
+        <button type="button" className="notification-dismiss" onClick={onDismiss} aria-label={t('notification.dismiss')}>
+          ×
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,55 @@
+import React from "react";
+import { CountrySelectorOptions, CountrySelectorState, useCountrySelector } from "../hooks/useCountrySelector";
+
+export interface HeadlessCountrySelectorProps extends CountrySelectorOptions {
+  children: (selector: CountrySelectorState) => React.ReactNode; // Renders the selector from its state and prop getters
+}
+
+/**
+ * HeadlessCountrySelector Component
+ *
+ * The behavior of CountrySelector without its markup or styles: search,
+ * preferred countries, default selection, type-ahead, keyboard navigation
+ * and the ARIA combobox wiring come from `useCountrySelector`, and
+ * `children` renders whatever elements the design system needs by
+ * spreading the prop getters on them. Options are virtualized unless
+ * `virtualize` is false; the list container then needs a fixed
+ * `listHeight` and each option an absolutely positioned `itemHeight`.
+ *
+ * @component
+ * @param {HeadlessCountrySelectorProps} props - The useCountrySelector options and the render function.
+ * @returns {JSX.Element} The rendered children.
+ *
+ * ## Example Usage
+ * ```jsx
+ * <HeadlessCountrySelector countries={countries} selectedCountry={country} onSelectCountry={setCountry} virtualize={false}>
+ *   {({ isOpen, selectedCountry, items, statusMessage, getRootProps, getTriggerProps, getSearchProps,
+ *       getListContainerProps, getListboxProps, getOptionProps, getStatusProps }) => (
+ *     <div {...getRootProps()}>
+ *       <button {...getTriggerProps()}>{selectedCountry?.name ?? "Country"}</button>
+ *       {isOpen && (
+ *         <div>
+ *           <input {...getSearchProps()} />
+ *           <div {...getListContainerProps()}>
+ *             <ul {...getListboxProps()}>
+ *               {items.map((item) => (
+ *                 <li key={item.country.iso} {...getOptionProps(item, { className: item.isActive ? "active" : "" })}>
+ *                   {item.country.name} ({item.country.iso})
+ *                 </li>
+ *               ))}
+ *             </ul>
+ *           </div>
+ *         </div>
+ *       )}
+ *       <div {...getStatusProps({ className: "sr-only" })}>{statusMessage}</div>
+ *     </div>
+ *   )}
+ * </HeadlessCountrySelector>
+ * ```
+ */
+const HeadlessCountrySelector: React.FC<HeadlessCountrySelectorProps> = ({ children, ...options }) => {
+  const selector = useCountrySelector(options);
+  return <>{children(selector)}</>;
+};
+
+export default HeadlessCountrySelector;
@@ -0,0 +1,66 @@
+import React, { createContext, useState, useMemo, useEffect, ReactNode } from "react";
+import { MessageCatalog } from "../i18n/messages";
+import { createTranslator, detectLocale, DEFAULT_TRANSLATOR, Translator } from "../i18n/translate";
+
+/**
+ * Interface: I18nContextValue
+ *
+ * The translator of the current locale and a way to switch locale.
+ */
+export interface I18nContextValue extends Translator {
+  setLocale: (locale: string) => void;  // Switches the UI to another locale
+}
+
+/**
+ * The locale chosen by the nearest I18nProvider. Without a provider the
+ * components render in English.
+ */
+export const I18nContext = createContext<I18nContextValue>({
+  ...DEFAULT_TRANSLATOR,
+  setLocale: () => undefined,
+});
+
+interface I18nProviderProps {
+  locale?: string;                          // Initial locale; detected from the browser when omitted
+  messages?: Partial<MessageCatalog>;       // Messages that replace the bundled ones
+  children: ReactNode;                      // The localized components
+}
+
+/**
+ * I18nProvider Component
+ *
+ * Supplies the locale used for UI messages, validation messages and
+ * country names. The locale starts as `locale` (or the first browser
+ * language with a bundled catalog) and can be switched with `setLocale`
+ * from useI18n; a new `locale` prop also switches it.
+ *
+ * @component
+ * @param {I18nProviderProps} props - The component props.
+ * @returns {JSX.Element} The rendered I18nProvider component.
+ *
+ * ## Example Usage
+ * ```jsx
+ * <I18nProvider locale="es" messages={{ "app.submit": "Continuar" }}>
+ *   <App />
+ * </I18nProvider>
+ * ```
+ */
+const I18nProvider: React.FC<I18nProviderProps> = ({ locale: initialLocale, messages, children }) => {
+  const [locale, setLocale] = useState(() => initialLocale ?? detectLocale());
+
+  // Follow the prop when the host app changes it
+  useEffect(() => {
+    if (initialLocale) setLocale(initialLocale);
+  }, [initialLocale]);
+
+  // Compare by value so inline message objects do not recreate the translator on every render
+  const messagesKey = JSON.stringify(messages ?? {});
+  const value = useMemo(
+    () => ({ ...createTranslator(locale, JSON.parse(messagesKey)), setLocale }),
+    [locale, messagesKey]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
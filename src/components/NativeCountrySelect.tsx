@@ -0,0 +1,59 @@
+import React, { useMemo } from "react";
+import { Country, CountryWithISO } from "../types";
+import { useI18n } from "../hooks/useI18n";
+import { getCountryCatalog } from "../utils/countryCatalog";
+
+interface NativeCountrySelectProps {
+  countries: Record<string, Country>;                // An object mapping ISO codes to country objects
+  selectedCountry: CountryWithISO | null;            // The currently selected country
+  onSelectCountry: (country: CountryWithISO) => void; // Called with the API country object when one is chosen
+  disabled?: boolean;                                // Disables the select
+}
+
+/**
+ * NativeCountrySelect Component
+ *
+ * A plain `<select>` of calling codes. PhoneInput renders it in place of
+ * the CountrySelector when the selector fails to load or render, so a
+ * country can still be chosen and the form submitted. It is bundled with
+ * PhoneInput on purpose: it must not depend on the lazy chunk that failed.
+ *
+ * @component
+ * @param {NativeCountrySelectProps} props - The component props.
+ * @returns {JSX.Element} The rendered NativeCountrySelect component.
+ */
+const NativeCountrySelect: React.FC<NativeCountrySelectProps> = ({
+  countries,
+  selectedCountry,
+  onSelectCountry,
+  disabled,
+}) => {
+  const { t, locale, countryName } = useI18n();
+
+  // Countries with localized names, sorted for the locale
+  const options = useMemo(() => getCountryCatalog(countries, countryName, locale).localized, [countries, countryName, locale]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const iso = e.target.value;
+    if (countries[iso]) {
+      onSelectCountry({ ...countries[iso], iso });
+    }
+  };
+
+  return (
+    <select
+      className="native-country-select"
+      value={selectedCountry?.iso ?? ""}
+      onChange={handleChange}
+      disabled={disabled}
+      aria-label={t("phoneInput.countryFallback")}
+    >
+      <option value="" disabled>{t("countrySelector.empty")}</option>
+      {options.map(({ iso, name, calling_code: callingCode }) => (
+        <option key={iso} value={iso}>{`${name} (${callingCode})`}</option>
+      ))}
+    </select>
+  );
+};
+
+export default NativeCountrySelect;
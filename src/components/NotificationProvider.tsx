@@ -0,0 +1,181 @@
+import React, { createContext, useState, useCallback, useEffect, useMemo, useRef, ReactNode } from "react";
+import { useI18n } from "../hooks/useI18n";
+import "./theme.css";
+import "./Notifications.css";
+
+/**
+ * Type: NotificationTone
+ *
+ * The kind of message a notification carries.
+ */
+export type NotificationTone = "error" | "success" | "info";
+
+/**
+ * Interface: NotificationAction
+ *
+ * A button shown in a notification, such as "Retry".
+ */
+export interface NotificationAction {
+  label: string;        // Text of the button
+  onClick: () => void;  // Called when the button is pressed; the notification is dismissed first
+}
+
+/**
+ * Interface: NotificationOptions
+ *
+ * What to show and for how long.
+ */
+export interface NotificationOptions {
+  message: string;                  // The notification text
+  title?: string;                   // Short heading shown before the text
+  tone?: NotificationTone;          // Defaults to "info"
+  variant?: "toast" | "banner";     // Toasts float and time out; banners stay on top of the page until dismissed
+  action?: NotificationAction;      // Optional button
+  duration?: number | null;         // Milliseconds before a toast closes; null keeps it open
+  id?: string;                      // Replaces the open notification with the same id
+}
+
+export interface Notification extends NotificationOptions {
+  id: string;
+  tone: NotificationTone;
+  variant: "toast" | "banner";
+}
+
+export interface NotificationContextValue {
+  notify: (options: NotificationOptions) => string;  // Shows a notification and returns its id
+  dismiss: (id: string) => void;                      // Closes a notification
+}
+
+/**
+ * The notification functions of the nearest NotificationProvider.
+ */
+export const NotificationContext = createContext<NotificationContextValue | null>(null);
+
+// How long a toast stays open when no duration is given, in milliseconds
+const DEFAULT_TOAST_DURATION = 5000;
+
+let nextId = 0;
+
+/**
+ * NotificationItem Component
+ *
+ * Renders one toast or banner. Errors are announced assertively, other
+ * tones politely.
+ */
+const NotificationItem: React.FC<{ notification: Notification; onDismiss: (id: string) => void }> = ({
+  notification,
+  onDismiss,
+}) => {
+  const { t } = useI18n();
+  const { id, tone, variant, title, message, action } = notification;
+
+  return (
+    <div className={`notification notification-${variant} notification-${tone}`} role={tone === "error" ? "alert" : "status"}>
+      <p className="notification-message">
+        {title && <strong>{title} </strong>}
+        {message}
+      </p>
+      {action && (
+        <button
+          type="button"
+          className="notification-action"
+          onClick={() => {
+            onDismiss(id);
+            action.onClick();
+          }}
+        >
+          {action.label}
+        </button>
+      )}
+      <button
+        type="button"
+        className="notification-dismiss"
+        onClick={() => onDismiss(id)}
+        aria-label={t("notification.dismiss")}
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+interface NotificationProviderProps {
+  children: ReactNode; // The components that show notifications
+}
+
+/**
+ * NotificationProvider Component
+ *
+ * Shows toasts and banners requested through useNotifications. Banners are
+ * rendered above the children and stay until dismissed; toasts float at
+ * the bottom of the screen and close after their duration unless they
+ * carry an action.
+ *
+ * @component
+ * @param {NotificationProviderProps} props - The component props.
+ * @returns {JSX.Element} The rendered NotificationProvider component.
+ *
+ * ## Example Usage
+ * ```jsx
+ * <NotificationProvider>
+ *   <App />
+ * </NotificationProvider>
+ * ```
+ */
+const NotificationProvider: React.FC<NotificationProviderProps> = ({ children }) => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const timersRef = useRef(new Map<string, number>());
+  const { t } = useI18n();
+
+  const dismiss = useCallback((id: string) => {
+    window.clearTimeout(timersRef.current.get(id));
+    timersRef.current.delete(id);
+    setNotifications((current) => current.filter((notification) => notification.id !== id));
+  }, []);
+
+  const notify = useCallback((options: NotificationOptions) => {
+    const id = options.id ?? `notification-${++nextId}`;
+    const variant = options.variant ?? "toast";
+    const notification: Notification = { ...options, id, variant, tone: options.tone ?? "info" };
+    setNotifications((current) => [...current.filter((item) => item.id !== id), notification]);
+
+    window.clearTimeout(timersRef.current.get(id));
+    const duration = options.duration !== undefined
+      ? options.duration
+      : variant === "toast" && !options.action ? DEFAULT_TOAST_DURATION : null;
+    if (duration !== null) {
+      timersRef.current.set(id, window.setTimeout(() => dismiss(id), duration));
+    }
+    return id;
+  }, [dismiss]);
+
+  // Clears pending timers on unmount
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach((timer) => window.clearTimeout(timer));
+  }, []);
+
+  const value = useMemo(() => ({ notify, dismiss }), [notify, dismiss]);
+  const banners = notifications.filter((notification) => notification.variant === "banner");
+  const toasts = notifications.filter((notification) => notification.variant === "toast");
+
+  return (
+    <NotificationContext.Provider value={value}>
+      {banners.length > 0 && (
+        <div className="notification-banners">
+          {banners.map((notification) => (
+            <NotificationItem key={notification.id} notification={notification} onDismiss={dismiss} />
+          ))}
+        </div>
+      )}
+      {children}
+      <div className="notification-toasts" aria-label={t("notification.region")}>
+        {toasts.map((notification) => (
+          <NotificationItem key={notification.id} notification={notification} onDismiss={dismiss} />
+        ))}
+      </div>
+    </NotificationContext.Provider>
+  );
+};
+
+export default NotificationProvider;
@@ -0,0 +1,125 @@
+import React, { useRef, useCallback } from "react";
+import { useI18n } from "../hooks/useI18n";
+import "./theme.css";
+import "./OtpInput.css";
+
+interface OtpInputProps {
+  length: number;                     // Number of digits in the code
+  value: string;                      // The digits entered so far
+  onChange: (value: string) => void;  // Called with the updated digits
+  onComplete?: (code: string) => void; // Called once every digit has been entered
+  disabled?: boolean;                 // Disables every digit input
+}
+
+/**
+ * OtpInput Component
+ *
+ * Renders a one-time code as a row of single-digit inputs. Focus moves
+ * forward as digits are typed and backward on Backspace, and pasting a
+ * code into any box fills the remaining boxes from that position.
+ *
+ * @component
+ * @param {OtpInputProps} props - The component props.
+ * @returns {JSX.Element} The rendered OtpInput component.
+ *
+ * ## Example Usage
+ * ```jsx
+ * <OtpInput length={6} value={code} onChange={setCode} onComplete={verify} />
+ * ```
+ */
+const OtpInput: React.FC<OtpInputProps> = ({
+  length,
+  value,
+  onChange,
+  onComplete,
+  disabled = false,
+}) => {
+  const inputsRef = useRef<Array<HTMLInputElement | null>>([]);
+  const { t } = useI18n();
+
+  // Moves focus to the digit input at the given index, if it exists
+  const focusInput = useCallback((index: number) => {
+    const input = inputsRef.current[Math.max(0, Math.min(length - 1, index))];
+    input?.focus();
+    input?.select();
+  }, [length]);
+
+  // Writes digits starting at the given index and notifies the parent
+  const updateDigits = useCallback((index: number, digits: string) => {
+    const current = value.padEnd(length, " ").split("");
+    digits.split("").forEach((digit, offset) => {
+      if (index + offset < length) current[index + offset] = digit;
+    });
+    const next = current.join("").replace(/\s+$/, "");
+    onChange(next);
+    if (onComplete && /^\d+$/.test(next) && next.length === length) {
+      onComplete(next);
+    }
+    return index + digits.length;
+  }, [value, length, onChange, onComplete]);
+
+  const handleChange = (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const digits = e.target.value.replace(/\D/g, "");
+    if (!digits) return;
+    // A keystroke into a filled box keeps only the new digit; longer input (autofill) fills forward
+    const previous = (value[index] ?? "").trim();
+    const fill = previous && digits.length === 2 ? digits.replace(previous, "") || previous : digits;
+    focusInput(updateDigits(index, fill.slice(0, length - index)));
+  };
+
+  const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "Backspace":
+        e.preventDefault();
+        if (value[index] && value[index] !== " ") {
+          updateDigits(index, " ");
+        } else if (index > 0) {
+          updateDigits(index - 1, " ");
+          focusInput(index - 1);
+        }
+        break;
+      case "ArrowLeft":
+        e.preventDefault();
+        focusInput(index - 1);
+        break;
+      case "ArrowRight":
+        e.preventDefault();
+        focusInput(index + 1);
+        break;
+    }
+  };
+
+  const handlePaste = (index: number, e: React.ClipboardEvent<HTMLInputElement>) => {
+    e.preventDefault();
+    const digits = e.clipboardData.getData("text").replace(/\D/g, "").slice(0, length - index);
+    if (digits) {
+      focusInput(updateDigits(index, digits));
+    }
+  };
+
+  return (
+    // Codes are entered left to right, also in right-to-left locales
+    <div className="otp-input" role="group" aria-label={t("otp.group")} dir="ltr">
+      {Array.from({ length }, (_, index) => (
+        <input
+          key={index}
+          ref={(el) => { inputsRef.current[index] = el; }}
+          type="text"
+          inputMode="numeric"
+          autoComplete={index === 0 ? "one-time-code" : "off"}
+          pattern="\d*"
+          className="otp-digit"
+          value={(value[index] ?? "").trim()}
+          onChange={(e) => handleChange(index, e)}
+          onKeyDown={(e) => handleKeyDown(index, e)}
+          onPaste={(e) => handlePaste(index, e)}
+          onFocus={(e) => e.target.select()}
+          disabled={disabled}
+          aria-label={t("otp.digit", { index: index + 1, count: length })}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default OtpInput;
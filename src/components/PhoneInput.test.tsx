@@ -0,0 +1,183 @@
+import React from "react";
+import { fireEvent, screen } from "@testing-library/react";
+import PhoneInput, { PhoneInputProps } from "./PhoneInput";
+import { MOCK_COUNTRIES } from "../mocks/fixtures";
+import { renderWithProviders } from "../mocks/testUtils";
+
+// Makes the mocked CountrySelector throw while rendering, as a broken chunk would
+const mockSelectorFailure = { current: false };
+
+jest.mock("./CountrySelector", () => {
+  const ReactActual = jest.requireActual("react");
+  const actual = jest.requireActual("./CountrySelector");
+  return {
+    __esModule: true,
+    ...actual,
+    default: (props: object) => {
+      if (mockSelectorFailure.current) throw new Error("CountrySelector failed");
+      return ReactActual.createElement(actual.default, props);
+    },
+  };
+});
+
+const renderPhoneInput = (props: Partial<PhoneInputProps> = {}, locale?: string) =>
+  renderWithProviders(<PhoneInput countries={MOCK_COUNTRIES} defaultCountry="US" {...props} />, { locale });
+
+// Waits for the lazy CountrySelector to replace its loading placeholder
+const findTrigger = () => screen.findByRole("button", { expanded: false });
+
+const getField = () => screen.getByRole("textbox", { name: "Phone number input" });
+
+const chooseCountry = (name: string) => {
+  fireEvent.click(screen.getByRole("button", { expanded: false }));
+  fireEvent.click(screen.getByRole("option", { name: new RegExp(name) }));
+};
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  mockSelectorFailure.current = false;
+  jest.restoreAllMocks();
+});
+
+describe("PhoneInput", () => {
+  describe("per country", () => {
+    it("uses the placeholder mask of the selected country", async () => {
+      renderPhoneInput();
+      await findTrigger();
+      expect(getField()).toHaveAttribute("placeholder", "(000) 000-0000");
+
+      chooseCountry("France");
+      expect(getField()).toHaveAttribute("placeholder", "0 00 00 00 00");
+
+      chooseCountry("United Kingdom");
+      expect(getField()).toHaveAttribute("placeholder", "0000 000000");
+    });
+
+    it("formats and validates the number for the selected country", async () => {
+      const onChange = jest.fn();
+      renderPhoneInput({ onChange });
+      await findTrigger();
+      chooseCountry("France");
+
+      fireEvent.change(getField(), { target: { value: "0612345678" } });
+
+      expect(getField()).toHaveValue("6 12 34 56 78");
+      expect(getField()).toHaveAttribute("aria-invalid", "false");
+      expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ e164: "+33612345678", isValid: true }));
+    });
+
+    it("reports numbers that do not fit the country's numbering plan", async () => {
+      const onChange = jest.fn();
+      renderPhoneInput({ onChange });
+      await findTrigger();
+
+      fireEvent.change(getField(), { target: { value: "20155" } });
+
+      expect(getField()).toHaveAccessibleDescription("Phone number must be 10 digits long.");
+      expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ nationalNumber: "20155", isValid: false }));
+
+      fireEvent.change(getField(), { target: { value: "0155550123" } });
+      expect(getField()).toHaveAccessibleDescription("Phone numbers in United States cannot start with 0.");
+    });
+
+    it("clears the number and its error when the country changes", async () => {
+      renderPhoneInput();
+      await findTrigger();
+      fireEvent.change(getField(), { target: { value: "20155" } });
+
+      chooseCountry("Germany");
+
+      expect(getField()).toHaveValue("");
+      expect(getField()).toHaveAttribute("aria-invalid", "false");
+      expect(getField()).not.toHaveAttribute("aria-describedby");
+    });
+
+    it("validates in the locale of the I18nProvider", async () => {
+      renderPhoneInput({}, "fr");
+      await findTrigger();
+
+      const field = screen.getByRole("textbox", { name: "Numéro de téléphone" });
+      fireEvent.change(field, { target: { value: "20155" } });
+
+      expect(field).toHaveAccessibleDescription("Le numéro de téléphone doit comporter 10 chiffres.");
+    });
+  });
+
+  describe("errors", () => {
+    it("does not show an error before the number is edited", async () => {
+      renderPhoneInput({ required: true });
+      await findTrigger();
+
+      expect(getField()).toBeRequired();
+      expect(getField()).toHaveAttribute("aria-invalid", "false");
+      expect(getField()).not.toHaveAttribute("aria-describedby");
+    });
+
+    it("links the error message to the field", async () => {
+      renderPhoneInput({ id: "phone" });
+      await findTrigger();
+
+      fireEvent.change(getField(), { target: { value: "20155" } });
+
+      expect(getField()).toHaveAttribute("aria-invalid", "true");
+      expect(getField()).toHaveAttribute("aria-describedby", "phone-error");
+      expect(screen.getByText("Phone number must be 10 digits long.")).toHaveAttribute("id", "phone-error");
+    });
+
+    it("shows the error prop instead of the built-in validation", async () => {
+      const view = renderPhoneInput({ error: "Taken by another account" });
+      await findTrigger();
+
+      fireEvent.change(getField(), { target: { value: "20155" } });
+      expect(getField()).toHaveAccessibleDescription("Taken by another account");
+
+      view.rerender(<PhoneInput countries={MOCK_COUNTRIES} defaultCountry="US" error={null} />);
+      expect(getField()).toHaveAttribute("aria-invalid", "false");
+    });
+
+    it("uses the aria-label prop as the field's name", async () => {
+      renderPhoneInput({ "aria-label": "Mobile number" });
+      await findTrigger();
+
+      expect(screen.getByRole("textbox", { name: "Mobile number" })).toBeInTheDocument();
+    });
+  });
+
+  describe("lazy loading", () => {
+    it("shows a placeholder while the country selector loads", async () => {
+      renderPhoneInput();
+
+      expect(screen.getByText("Loading country selector...")).toBeInTheDocument();
+      expect(await findTrigger()).toHaveTextContent("+1");
+      expect(screen.queryByText("Loading country selector...")).not.toBeInTheDocument();
+    });
+
+    it("falls back to a native select when the country selector fails", async () => {
+      mockSelectorFailure.current = true;
+      const onChange = jest.fn();
+      renderPhoneInput({ onChange });
+
+      const select = await screen.findByRole("combobox", { name: "Country calling code" });
+      fireEvent.change(select, { target: { value: "GB" } });
+      fireEvent.change(getField(), { target: { value: "7400123456" } });
+
+      expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ e164: "+447400123456", isValid: true }));
+      expect(getField()).toHaveAttribute("placeholder", "0000 000000");
+    });
+
+    it("tries the country selector again when the countries change", async () => {
+      mockSelectorFailure.current = true;
+      const view = renderPhoneInput();
+      await screen.findByRole("combobox", { name: "Country calling code" });
+
+      mockSelectorFailure.current = false;
+      view.rerender(<PhoneInput countries={{ ...MOCK_COUNTRIES }} defaultCountry="US" />);
+
+      expect(await findTrigger()).toBeInTheDocument();
+      expect(screen.queryByRole("combobox", { name: "Country calling code" })).not.toBeInTheDocument();
+    });
+  });
+});
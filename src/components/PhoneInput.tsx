@@ -0,0 +1,324 @@
+import React, {
+  forwardRef,
+  useState,
+  useCallback,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  Suspense,
+} from "react";
+import { Country, CountryWithISO, PhoneInputValue } from "../types";
+import { FlagProvider } from "./CountryFlag";
+import type { CountrySelectorClassNames, CountrySelectorSlots } from "./CountrySelector";
+import ErrorBoundary from "./ErrorBoundary";
+import NativeCountrySelect from "./NativeCountrySelect";
+import {
+  formatPhoneNumber,
+  getPhoneNumberProblem,
+  getPlaceholderMask,
+  PhoneNumberType,
+  validatePhoneNumber,
+} from "../utils/phoneMetadata";
+import { applyMaskEdit, countDigits, fitMaskState, getCaretPosition, MaskState } from "../utils/phoneMask";
+import { createPhoneInputValue, EMPTY_PHONE_INPUT_VALUE, readPhoneInput } from "../utils/phoneValue";
+import { lazyWithRetry } from "../utils/lazyWithRetry";
+import { useI18n } from "../hooks/useI18n";
+import { useTelemetry } from "../hooks/useTelemetry";
+import { TrackedEvent } from "../telemetry/events";
+import "./theme.css";
+import "./PhoneInput.css";
+
+// Lazy load the CountrySelector component for improved performance,
+// retrying the chunk request before giving up.
+const loadCountrySelector = () => lazyWithRetry(() => import("./CountrySelector"));
+
+export interface PhoneInputProps {
+  countries: Record<string, Country>;             // An object mapping ISO codes to country objects
+  value?: PhoneInputValue;                        // The current value; makes the input controlled
+  defaultValue?: PhoneInputValue;                 // The initial value of an uncontrolled input
+  onChange?: (value: PhoneInputValue) => void;    // Called whenever the country or number changes
+  name?: string;                                  // Submits `${name}` (E.164) and `${name}_country` (ISO code) with a native form
+  id?: string;                                    // Id of the phone number field
+  placeholder?: string;                           // Overrides the country's placeholder mask
+  error?: string | null;                          // Overrides the built-in validation message
+  required?: boolean;                             // Marks the phone number field as required
+  disabled?: boolean;                             // Disables the phone number field
+  flagProvider?: FlagProvider;                    // How flags are rendered in the country selector
+  defaultCountry?: string;                        // ISO code of the country to preselect
+  preferredCountries?: string[];                  // ISO codes pinned at the top of the country list
+  selectorClassNames?: CountrySelectorClassNames; // Class names added to the country selector's elements
+  selectorSlots?: CountrySelectorSlots;           // Custom content of the country selector's trigger and options
+  allowedTypes?: PhoneNumberType[];               // Number types accepted by validation, e.g. ["mobile"]
+  onBlur?: (event: React.FocusEvent<HTMLInputElement>) => void; // Called when the phone number field loses focus
+  onEvent?: (event: TrackedEvent) => void;        // Receives telemetry events, in addition to the nearest TelemetryProvider
+  "aria-label"?: string;                          // Accessible label of the phone number field
+}
+
+/**
+ * PhoneInput Component
+ *
+ * A country selector and phone number field combined into one input. It
+ * formats and validates the number for the selected country (optionally
+ * restricted to `allowedTypes` such as mobile numbers), detects the
+ * country of pasted international numbers, and reports its value as
+ * `{ country, nationalNumber, e164, isValid }`.
+ *
+ * ## Modes
+ * - **Controlled**: pass `value` and `onChange`.
+ * - **Uncontrolled**: optionally pass `defaultValue`; `onChange` still reports changes.
+ *
+ * ## Forms
+ * With a `name`, hidden fields carry the E.164 number (`name`) and the ISO
+ * code of the country (`${name}_country`) in native form submissions.
+ * The forwarded ref points at the phone number field, so it can be focused.
+ *
+ * ## Editing
+ * The field is masked without fighting the caret: `beforeinput` edits are
+ * applied to the digits (see `applyMaskEdit`), so typing or deleting in
+ * the middle keeps the caret in place and Backspace next to ")" or "-"
+ * removes the nearest digit. Composition (IME) input, autofill and
+ * international numbers go through the change handler, which restores the
+ * caret after the same number of digits. Input longer than the numbering
+ * plan allows is cut off by the mask, not by `maxLength`.
+ *
+ * ## Degraded mode
+ * If the CountrySelector chunk cannot be loaded (after retries) or the
+ * selector throws, a native `<select>` of calling codes takes its place so
+ * the number can still be entered and submitted. The selector is tried
+ * again when `countries` changes.
+ *
+ * ## Localization
+ * Labels, validation messages and country names follow the nearest
+ * `I18nProvider`, and the layout is mirrored for right-to-left locales
+ * while the number itself stays left to right.
+ *
+ * ## Telemetry
+ * `onEvent` (and the nearest `TelemetryProvider`) receives the selector's
+ * events, `country_selected` with method `paste` when a pasted number
+ * switches country, and `validation_failed` when the field is left with
+ * an invalid number. Payloads carry ISO codes and digit counts, never the number.
+ *
+ * @component
+ * @param {PhoneInputProps} props - The component props.
+ * @returns {JSX.Element} The rendered PhoneInput component.
+ *
+ * ## Example Usage
+ * ```jsx
+ * <PhoneInput countries={countries} value={phone} onChange={setPhone} name="phone" ref={inputRef} />
+ * ```
+ */
+const PhoneInput = forwardRef<HTMLInputElement, PhoneInputProps>(({
+  countries,
+  value,
+  defaultValue = EMPTY_PHONE_INPUT_VALUE,
+  onChange,
+  name,
+  id,
+  placeholder,
+  error,
+  required,
+  disabled,
+  flagProvider,
+  defaultCountry,
+  preferredCountries,
+  selectorClassNames,
+  selectorSlots,
+  allowedTypes,
+  onBlur,
+  onEvent,
+  "aria-label": ariaLabel,
+}, ref) => {
+  const translator = useI18n();
+  const { t, direction } = translator;
+  const track = useTelemetry(onEvent);
+  const isControlled = value !== undefined;
+  const [internalValue, setInternalValue] = useState(defaultValue);
+  const [isTouched, setIsTouched] = useState(false);
+  const currentValue = isControlled ? value : internalValue;
+  const { country, nationalNumber } = currentValue;
+
+  // Each instance holds its own lazy component: React caches a failed
+  // import, so a new one is created when the selector's boundary resets
+  const [CountrySelector, setCountrySelector] = useState(loadCountrySelector);
+  const reloadCountrySelector = useCallback(() => setCountrySelector(loadCountrySelector), []);
+
+  // The field, also exposed through the forwarded ref
+  const inputRef = useRef<HTMLInputElement>(null);
+  useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
+
+  // Digits before the caret, restored once the new value is rendered
+  const pendingCaret = useRef<number | null>(null);
+
+  const generatedId = useId();
+  const inputId = id ?? `${generatedId}-input`;
+  const errorId = `${inputId}-error`;
+
+  // Stores the value when uncontrolled and reports it to the parent
+  const commit = useCallback((nextCountry: CountryWithISO | null, nextNationalNumber: string) => {
+    const next = createPhoneInputValue(nextCountry, nextNationalNumber);
+    if (!isControlled) setInternalValue(next);
+    onChange?.(next);
+  }, [isControlled, onChange]);
+
+  const handleCountryChange = useCallback((nextCountry: CountryWithISO) => {
+    setIsTouched(false); // A new country starts with an empty number
+    commit(nextCountry, "");
+  }, [commit]);
+
+  /**
+   * Stores edited digits for the current country and keeps the caret
+   * after the same digit once they are formatted.
+   *
+   * @param {MaskState} state - The edited digits and caret.
+   * @param {boolean} rejectOverflow - Ignores the edit instead of cutting off digits beyond the maximum length.
+   */
+  const applyDigits = (state: MaskState, rejectOverflow: boolean) => {
+    if (!country) return;
+    const fitted = fitMaskState(state, country);
+    if (rejectOverflow && fitted.isTruncated) return; // The number is already complete
+    setIsTouched(true);
+    pendingCaret.current = fitted.caret;
+    commit(country, fitted.digits);
+  };
+
+  // Applies edits to the digits before the browser touches the formatted text
+  const handleBeforeInput = (e: InputEvent) => {
+    const input = e.target as HTMLInputElement;
+    // Let compositions finish; the change handler reads their result
+    if (!country || e.isComposing || e.inputType === "insertCompositionText") return;
+    const edit = applyMaskEdit({
+      value: input.value,
+      selectionStart: input.selectionStart ?? input.value.length,
+      selectionEnd: input.selectionEnd ?? input.value.length,
+      inputType: e.inputType,
+      data: e.data ?? e.dataTransfer?.getData("text/plain") ?? null,
+    });
+    if (!edit) return;
+    e.preventDefault();
+    applyDigits(edit, e.inputType === "insertText");
+  };
+
+  // React's onBeforeInput lacks `inputType`, so listen to the native event
+  const beforeInputRef = useRef(handleBeforeInput);
+  useEffect(() => {
+    beforeInputRef.current = handleBeforeInput;
+  });
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    const listener = (e: Event) => beforeInputRef.current(e as InputEvent);
+    input.addEventListener("beforeinput", listener);
+    return () => input.removeEventListener("beforeinput", listener);
+  }, []);
+
+  // Handles what beforeinput left to the browser: compositions, autofill and international numbers
+  const handlePhoneChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { value: rawValue, selectionStart } = e.target;
+    const next = readPhoneInput(rawValue, country, countries);
+    if (!next) return;
+    setIsTouched(true);
+    if (next.country.iso !== country?.iso || /^\s*(\+|00)/.test(rawValue)) {
+      // An international number replaced the field; put the caret at the end
+      pendingCaret.current = next.nationalNumber.length;
+      commit(next.country, next.nationalNumber);
+      if (next.country.iso !== country?.iso) {
+        track({ type: "country_selected", country: next.country.iso, method: "paste" });
+      }
+      return;
+    }
+    applyDigits({ digits: rawValue.replace(/\D/g, ""), caret: countDigits(rawValue, selectionStart ?? rawValue.length) }, false);
+  };
+
+  // Moves the caret back after the digit it followed once the formatted value is rendered
+  useLayoutEffect(() => {
+    const input = inputRef.current;
+    if (pendingCaret.current === null || !input) return;
+    if (document.activeElement === input) {
+      const position = getCaretPosition(input.value, pendingCaret.current);
+      input.setSelectionRange(position, position);
+    }
+    pendingCaret.current = null;
+  });
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    if (isTouched) {
+      const problem = !nationalNumber
+        ? (required ? "required" : null)
+        : country ? getPhoneNumberProblem(nationalNumber, country, allowedTypes) : "country";
+      if (problem) {
+        track({ type: "validation_failed", country: country?.iso ?? null, reason: problem, digitCount: nationalNumber.length });
+      }
+    }
+    onBlur?.(e);
+  };
+
+  const validationMessage = error !== undefined
+    ? error
+    : isTouched && country ? validatePhoneNumber(nationalNumber, country, translator, allowedTypes) : null;
+
+  const displayValue = country && nationalNumber ? formatPhoneNumber(nationalNumber, country) : "";
+
+  return (
+    <div className="phone-input-field" dir={direction}>
+      <div className="phone-input-container">
+        <ErrorBoundary
+          name="CountrySelector"
+          resetKeys={[countries]}
+          onReset={reloadCountrySelector}
+          fallback={
+            <NativeCountrySelect
+              countries={countries}
+              selectedCountry={country}
+              onSelectCountry={handleCountryChange}
+              disabled={disabled}
+            />
+          }
+        >
+          <Suspense fallback={<div>{t("phoneInput.loadingSelector")}</div>}>
+            <CountrySelector
+              countries={countries}
+              selectedCountry={country}
+              onSelectCountry={handleCountryChange}
+              flagProvider={flagProvider}
+              defaultCountry={defaultCountry}
+              preferredCountries={preferredCountries}
+              classNames={selectorClassNames}
+              slots={selectorSlots}
+              onEvent={onEvent}
+            />
+          </Suspense>
+        </ErrorBoundary>
+        <input
+          ref={inputRef}
+          id={inputId}
+          type="tel"
+          dir="ltr"
+          autoComplete="tel"
+          value={displayValue}
+          onChange={handlePhoneChange}
+          onBlur={handleBlur}
+          placeholder={placeholder ?? (country ? getPlaceholderMask(country) : "(000) 000-0000")}
+          className="phone-input"
+          required={required}
+          disabled={disabled}
+          aria-label={ariaLabel ?? t("phoneInput.label")}
+          aria-invalid={!!validationMessage}
+          aria-describedby={validationMessage ? errorId : undefined}
+        />
+        {name && (
+          <>
+            <input type="hidden" name={name} value={country && nationalNumber ? currentValue.e164 : ""} />
+            <input type="hidden" name={`${name}_country`} value={country?.iso ?? ""} />
+          </>
+        )}
+      </div>
+      {validationMessage && <p id={errorId} className="error-message">{validationMessage}</p>}
+    </div>
+  );
+});
+
+PhoneInput.displayName = "PhoneInput";
+
+export default PhoneInput;
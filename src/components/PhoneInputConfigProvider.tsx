@@ -0,0 +1,80 @@
+import React, { createContext, useMemo, useEffect, ReactNode } from "react";
+import { AxiosAdapter } from "axios";
+import { PhoneInputConfigOptions, resolveConfig, validateConfig } from "../config";
+import { ApiClient, createApiClient } from "../api/client";
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * The API client configured by the nearest PhoneInputConfigProvider.
+ */
+export const ApiClientContext = createContext<ApiClient | null>(null);
+
+interface PhoneInputConfigProviderProps {
+  config: PhoneInputConfigOptions;                   // Base URL, credentials, endpoints and headers
+  fallback?: (errors: string[]) => ReactNode;        // Rendered instead of children when the config is invalid
+  adapter?: AxiosAdapter;                            // Replaces the HTTP transport, e.g. with the mock API
+  children: ReactNode;                               // The components using the API
+}
+
+/**
+ * ConfigurationError Component
+ *
+ * Lists the problems found in the configuration. The problems are meant
+ * for developers and stay in English.
+ */
+const ConfigurationError: React.FC<{ errors: string[] }> = ({ errors }) => {
+  const { t } = useI18n();
+  return (
+    <div className="error-notification" role="alert">
+      <p>{t("config.invalid")}</p>
+      <ul>
+        {errors.map((error) => (
+          <li key={error}>{error}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+/**
+ * PhoneInputConfigProvider Component
+ *
+ * Supplies the API base URL, corporate ID, API key, endpoint paths and
+ * extra headers at runtime, and creates the API client shared by the hooks
+ * below it. An invalid configuration renders an error screen (or the
+ * `fallback`) instead of the children. Pass an `adapter` to answer
+ * requests without the network, as the mock API in `src/mocks` does.
+ *
+ * @component
+ * @param {PhoneInputConfigProviderProps} props - The component props.
+ * @returns {JSX.Element} The rendered PhoneInputConfigProvider component.
+ *
+ * ## Example Usage
+ * ```jsx
+ * <PhoneInputConfigProvider config={{ baseUrl, apiKey, corporateId: "10", headers: { "X-Tenant": "acme" } }}>
+ *   <App />
+ * </PhoneInputConfigProvider>
+ * ```
+ */
+const PhoneInputConfigProvider: React.FC<PhoneInputConfigProviderProps> = ({ config, fallback, adapter, children }) => {
+  // Compare by value so inline config objects do not recreate the client on every render
+  const configKey = JSON.stringify(config);
+  const resolvedConfig = useMemo(() => resolveConfig(JSON.parse(configKey)), [configKey]);
+  const errors = useMemo(() => validateConfig(resolvedConfig), [resolvedConfig]);
+
+  const client = useMemo(
+    () => (errors.length === 0 ? createApiClient({ ...resolvedConfig, adapter }) : null),
+    [resolvedConfig, errors, adapter]
+  );
+
+  // Stops the scheduled token refresh of a client that is no longer used
+  useEffect(() => () => client?.dispose(), [client]);
+
+  if (!client) {
+    return <>{fallback ? fallback(errors) : <ConfigurationError errors={errors} />}</>;
+  }
+
+  return <ApiClientContext.Provider value={client}>{children}</ApiClientContext.Provider>;
+};
+
+export default PhoneInputConfigProvider;
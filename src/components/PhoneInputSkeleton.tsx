@@ -0,0 +1,35 @@
+import React from "react";
+import { useI18n } from "../hooks/useI18n";
+import "./theme.css";
+import "./PhoneInputSkeleton.css";
+
+/**
+ * PhoneInputSkeleton Component
+ *
+ * A placeholder shaped like a PhoneInput and its submit button, shown
+ * while the countries are loading. Screen readers hear a single status
+ * message instead of the empty shapes.
+ *
+ * @component
+ * @returns {JSX.Element} The rendered PhoneInputSkeleton component.
+ *
+ * ## Example Usage
+ * ```jsx
+ * {isLoading ? <PhoneInputSkeleton /> : <PhoneInput countries={countries} />}
+ * ```
+ */
+const PhoneInputSkeleton: React.FC = () => {
+  const { t } = useI18n();
+  return (
+    <div className="phone-input-skeleton" role="status" aria-busy="true">
+      <span className="visually-hidden">{t("app.loadingCountries")}</span>
+      <div className="phone-input-skeleton-row" aria-hidden="true">
+        <span className="skeleton-block skeleton-selector" />
+        <span className="skeleton-block skeleton-input" />
+      </div>
+      <span className="skeleton-block skeleton-button" aria-hidden="true" />
+    </div>
+  );
+};
+
+export default PhoneInputSkeleton;
@@ -0,0 +1,84 @@
+import React from "react";
+import { fireEvent, screen, waitFor, within } from "@testing-library/react";
+import PhoneListEditor from "./PhoneListEditor";
+import { PhoneListOptions, usePhoneList } from "../hooks/usePhoneList";
+import { MOCK_COUNTRIES } from "../mocks/fixtures";
+import { renderWithProviders } from "../mocks/testUtils";
+import { createPhoneInputValue } from "../utils/phoneValue";
+
+const US_NUMBER = createPhoneInputValue({ ...MOCK_COUNTRIES.US, iso: "US" }, "2015550123");
+
+// Renders the editor for a list, as an application would
+const Harness: React.FC<{ options?: PhoneListOptions }> = ({ options }) => {
+  const list = usePhoneList(options);
+  return <PhoneListEditor list={list} countries={MOCK_COUNTRIES} />;
+};
+
+const renderEditor = (options?: PhoneListOptions) => renderWithProviders(<Harness options={options} />);
+
+// Waits for the lazy country selector of every row to load
+const waitForSelectors = () =>
+  waitFor(() => expect(screen.queryByText("Loading country selector...")).not.toBeInTheDocument());
+
+const rows = () => screen.getAllByRole("listitem");
+
+const rowNames = () => rows().map((row) => row.getAttribute("aria-label"));
+
+describe("PhoneListEditor", () => {
+  it("renders a row per entry with the first one primary", async () => {
+    renderEditor({ initialEntries: [{ label: "Home" }, { label: "Work" }] });
+    await waitForSelectors();
+
+    expect(rowNames()).toEqual(["Home", "Work"]);
+    expect(within(rows()[0]).getByRole("radio", { name: "Primary" })).toBeChecked();
+    expect(within(rows()[1]).getByRole("radio", { name: "Primary" })).not.toBeChecked();
+  });
+
+  it("shows the duplicate message on the second entry with the same number", async () => {
+    renderEditor({ initialEntries: [{ label: "Home", value: US_NUMBER }, { label: "Work" }] });
+    await waitForSelectors();
+
+    fireEvent.change(screen.getByRole("textbox", { name: "Work" }), { target: { value: "2015550123" } });
+
+    expect(screen.getByRole("textbox", { name: "Work" })).toHaveAccessibleDescription("This number is already in the list.");
+    expect(screen.getByRole("textbox", { name: "Home" })).toHaveAttribute("aria-invalid", "false");
+  });
+
+  it("makes the first remaining row primary when the primary row is removed", async () => {
+    renderEditor({ initialEntries: [{ label: "Home" }, { label: "Work" }, { label: "Mobile" }] });
+    await waitForSelectors();
+    fireEvent.click(within(rows()[1]).getByRole("radio", { name: "Primary" }));
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove: Phone number 2" }));
+
+    expect(rowNames()).toEqual(["Home", "Mobile"]);
+    expect(within(rows()[0]).getByRole("radio", { name: "Primary" })).toBeChecked();
+  });
+
+  it("reorders rows and disables moves past either end", async () => {
+    renderEditor({ initialEntries: [{ label: "Home" }, { label: "Work" }] });
+    await waitForSelectors();
+
+    expect(screen.getByRole("button", { name: "Move up: Phone number 1" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Move down: Phone number 2" })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole("button", { name: "Move down: Phone number 1" }));
+
+    expect(rowNames()).toEqual(["Work", "Home"]);
+    expect(within(rows()[1]).getByRole("radio", { name: "Primary" })).toBeChecked();
+  });
+
+  it("keeps the last row and stops adding at the maximum", async () => {
+    renderEditor({ maxEntries: 2 });
+    await waitForSelectors();
+
+    expect(screen.getByRole("button", { name: "Remove: Phone number 1" })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole("button", { name: "Add phone number" }));
+    await waitForSelectors();
+
+    expect(rows()).toHaveLength(2);
+    expect(screen.getByRole("button", { name: "Add phone number" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Remove: Phone number 1" })).toBeEnabled();
+  });
+});
@@ -0,0 +1,187 @@
+import React, { memo, useCallback, useId } from "react";
+import PhoneInput from "./PhoneInput";
+import { FlagProvider } from "./CountryFlag";
+import { PhoneList, PhoneListEntry } from "../hooks/usePhoneList";
+import { useI18n } from "../hooks/useI18n";
+import { Country, PhoneInputValue } from "../types";
+import { PhoneNumberType } from "../utils/phoneMetadata";
+import "./theme.css";
+import "./PhoneListEditor.css";
+
+interface PhoneListEditorProps {
+  list: PhoneList;                        // The state and actions returned by usePhoneList
+  countries: Record<string, Country>;     // An object mapping ISO codes to country objects, shared by every row
+  flagProvider?: FlagProvider;            // How flags are rendered in the country selectors
+  preferredCountries?: string[];          // ISO codes pinned at the top of each country list
+  allowedTypes?: PhoneNumberType[];       // Number types accepted by validation; pass the same types as to usePhoneList
+  disabled?: boolean;                     // Disables every row and the add button
+}
+
+interface PhoneListRowProps {
+  entry: PhoneListEntry;
+  index: number;
+  count: number;
+  groupName: string;
+  countries: Record<string, Country>;
+  flagProvider?: FlagProvider;
+  preferredCountries?: string[];
+  allowedTypes?: PhoneNumberType[];
+  disabled?: boolean;
+  onValueChange: PhoneList["setValue"];
+  onLabelChange: PhoneList["setLabel"];
+  onPrimaryChange: PhoneList["setPrimary"];
+  onMove: PhoneList["moveEntry"];
+  onRemove: PhoneList["removeEntry"];
+}
+
+/**
+ * One entry of the list. Rows are memoized, so typing in one number does
+ * not re-render the others; the actions of usePhoneList are stable.
+ */
+const PhoneListRow = memo<PhoneListRowProps>(({
+  entry,
+  index,
+  count,
+  groupName,
+  countries,
+  flagProvider,
+  preferredCountries,
+  allowedTypes,
+  disabled,
+  onValueChange,
+  onLabelChange,
+  onPrimaryChange,
+  onMove,
+  onRemove,
+}) => {
+  const { t } = useI18n();
+  const { id } = entry;
+  const entryLabel = t("phoneList.entry", { index: index + 1 });
+
+  const handleValueChange = useCallback((value: PhoneInputValue) => onValueChange(id, value), [id, onValueChange]);
+
+  return (
+    <li className="phone-list-row" aria-label={entry.label || entryLabel}>
+      <div className="phone-list-row-header">
+        <input
+          type="text"
+          className="phone-list-label"
+          value={entry.label}
+          onChange={(e) => onLabelChange(id, e.target.value)}
+          placeholder={t("phoneList.labelPlaceholder")}
+          aria-label={`${entryLabel}: ${t("phoneList.label")}`}
+          disabled={disabled}
+        />
+        <label className="phone-list-primary">
+          <input
+            type="radio"
+            name={groupName}
+            checked={entry.isPrimary}
+            onChange={() => onPrimaryChange(id)}
+            disabled={disabled}
+          />
+          {t("phoneList.primary")}
+        </label>
+      </div>
+      <PhoneInput
+        countries={countries}
+        value={entry.value}
+        onChange={handleValueChange}
+        error={entry.error}
+        flagProvider={flagProvider}
+        preferredCountries={preferredCountries}
+        allowedTypes={allowedTypes}
+        disabled={disabled}
+        aria-label={entry.label || entryLabel}
+      />
+      <div className="phone-list-row-actions">
+        <button
+          type="button"
+          className="phone-list-action"
+          onClick={() => onMove(id, index - 1)}
+          disabled={disabled || index === 0}
+          aria-label={`${t("phoneList.moveUp")}: ${entryLabel}`}
+        >
+          {t("phoneList.moveUp")}
+        </button>
+        <button
+          type="button"
+          className="phone-list-action"
+          onClick={() => onMove(id, index + 1)}
+          disabled={disabled || index === count - 1}
+          aria-label={`${t("phoneList.moveDown")}: ${entryLabel}`}
+        >
+          {t("phoneList.moveDown")}
+        </button>
+        <button
+          type="button"
+          className="phone-list-action"
+          onClick={() => onRemove(id)}
+          disabled={disabled || count === 1}
+          aria-label={`${t("phoneList.remove")}: ${entryLabel}`}
+        >
+          {t("phoneList.remove")}
+        </button>
+      </div>
+    </li>
+  );
+});
+
+PhoneListRow.displayName = "PhoneListRow";
+
+/**
+ * PhoneListEditor Component
+ *
+ * Edits the list managed by usePhoneList: one row per entry with a label,
+ * a PhoneInput and a primary choice, plus actions to reorder, remove and
+ * add entries. Every row renders from the same `countries` object, so the
+ * country selectors share one sorted and indexed catalog.
+ *
+ * @component
+ * @param {PhoneListEditorProps} props - The component props.
+ * @param {PhoneList} props.list - The list returned by usePhoneList.
+ * @returns {JSX.Element} The rendered PhoneListEditor component.
+ */
+const PhoneListEditor: React.FC<PhoneListEditorProps> = ({
+  list,
+  countries,
+  flagProvider,
+  preferredCountries,
+  allowedTypes,
+  disabled,
+}) => {
+  const { t } = useI18n();
+  const groupName = `${useId()}-primary`;
+  const { entries, canAdd, addEntry, removeEntry, moveEntry, setValue, setLabel, setPrimary } = list;
+
+  return (
+    <div className="phone-list-editor" role="group" aria-label={t("phoneList.list")}>
+      <ol className="phone-list">
+        {entries.map((entry, index) => (
+          <PhoneListRow
+            key={entry.id}
+            entry={entry}
+            index={index}
+            count={entries.length}
+            groupName={groupName}
+            countries={countries}
+            flagProvider={flagProvider}
+            preferredCountries={preferredCountries}
+            allowedTypes={allowedTypes}
+            disabled={disabled}
+            onValueChange={setValue}
+            onLabelChange={setLabel}
+            onPrimaryChange={setPrimary}
+            onMove={moveEntry}
+            onRemove={removeEntry}
+          />
+        ))}
+      </ol>
+      <button type="button" className="phone-list-action" onClick={() => addEntry()} disabled={disabled || !canAdd}>
+        {t("phoneList.add")}
+      </button>
+    </div>
+  );
+};
+
+export default PhoneListEditor;
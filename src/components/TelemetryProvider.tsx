@@ -0,0 +1,62 @@
+import React, { createContext, useRef, useMemo, useEffect, ReactNode } from "react";
+import { ErrorReporter, TrackedEvent } from "../telemetry/events";
+
+/**
+ * Interface: TelemetryContextValue
+ *
+ * The handlers registered by the nearest TelemetryProvider.
+ */
+export interface TelemetryContextValue {
+  onEvent?: (event: TrackedEvent) => void;  // Receives funnel events
+  errorReporter?: ErrorReporter;           // Receives errors caught by error boundaries
+}
+
+/**
+ * The telemetry handlers of the nearest TelemetryProvider. Without a
+ * provider nothing is reported.
+ */
+export const TelemetryContext = createContext<TelemetryContextValue>({});
+
+interface TelemetryProviderProps extends TelemetryContextValue {
+  children: ReactNode; // The components to observe
+}
+
+/**
+ * TelemetryProvider Component
+ *
+ * Opts the components below it into telemetry: funnel events go to
+ * `onEvent` and errors caught by `ErrorBoundary` go to `errorReporter`.
+ * The handlers may change between renders without re-rendering the tree.
+ *
+ * @component
+ * @param {TelemetryProviderProps} props - The component props.
+ * @returns {JSX.Element} The rendered TelemetryProvider component.
+ *
+ * ## Example Usage
+ * ```jsx
+ * <TelemetryProvider
+ *   onEvent={(event) => analytics.track(event.type, event)}
+ *   errorReporter={{ captureException: (error, context) => Sentry.captureException(error, { extra: context }) }}
+ * >
+ *   <App />
+ * </TelemetryProvider>
+ * ```
+ */
+const TelemetryProvider: React.FC<TelemetryProviderProps> = ({ onEvent, errorReporter, children }) => {
+  // Keep the latest handlers in a ref so the context value stays stable
+  const handlersRef = useRef({ onEvent, errorReporter });
+  useEffect(() => {
+    handlersRef.current = { onEvent, errorReporter };
+  }, [onEvent, errorReporter]);
+
+  const value = useMemo<TelemetryContextValue>(() => ({
+    onEvent: (event) => handlersRef.current.onEvent?.(event),
+    errorReporter: {
+      captureException: (error, context) => handlersRef.current.errorReporter?.captureException(error, context),
+    },
+  }), []);
+
+  return <TelemetryContext.Provider value={value}>{children}</TelemetryContext.Provider>;
+};
+
+export default TelemetryProvider;
@@ -0,0 +1,130 @@
+import React, { useState, useCallback } from "react";
+import OtpInput from "./OtpInput";
+import { TwoFactorFlow } from "../hooks/useTwoFactorFlow";
+import { useI18n } from "../hooks/useI18n";
+import { describeApiError } from "../api/errors";
+import "./theme.css";
+import "./TwoFactorVerification.css";
+
+interface TwoFactorVerificationProps {
+  flow: TwoFactorFlow; // The state and actions returned by useTwoFactorFlow
+}
+
+/**
+ * Formats a number of seconds as m:ss for the countdown labels.
+ *
+ * @param {number} seconds - The number of seconds to format.
+ * @returns {string} - The formatted countdown.
+ */
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+/**
+ * TwoFactorVerification Component
+ *
+ * Renders the code entry step of the two-factor flow: the segmented code
+ * input, the verify action, the resend action with its cooldown, and the
+ * verified and locked end states.
+ *
+ * @component
+ * @param {TwoFactorVerificationProps} props - The component props.
+ * @param {TwoFactorFlow} props.flow - The flow returned by useTwoFactorFlow.
+ * @returns {JSX.Element} The rendered TwoFactorVerification component.
+ */
+const TwoFactorVerification: React.FC<TwoFactorVerificationProps> = ({ flow }) => {
+  const [code, setCode] = useState("");
+  const translator = useI18n();
+  const { t } = translator;
+  const { status, verifyCode, resendCode, reset } = flow;
+
+  const handleVerify = useCallback(async (value: string) => {
+    const result = await verifyCode(value);
+    if (!result.success) {
+      setCode(""); // Clear the boxes so the user can try again
+    }
+  }, [verifyCode]);
+
+  const handleResend = useCallback(async () => {
+    const result = await resendCode();
+    if (result.success) {
+      setCode("");
+    }
+  }, [resendCode]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleVerify(code);
+  };
+
+  if (status === "verified") {
+    return (
+      <div className="two-factor-verification" role="status">
+        <p className="two-factor-success">{t("twoFactor.verified")}</p>
+      </div>
+    );
+  }
+
+  if (status === "locked") {
+    return (
+      <div className="two-factor-verification">
+        <p className="error-message" role="alert">
+          {t(flow.lockReason === "expired" ? "twoFactor.expiredLocked" : "twoFactor.locked")}
+        </p>
+        <button type="button" className="submit-button" onClick={reset}>
+          {t("twoFactor.startOver")}
+        </button>
+      </div>
+    );
+  }
+
+  const isVerifying = status === "verifying";
+  const isCodeComplete = new RegExp(`^\\d{${flow.codeLength}}$`).test(code);
+  const canVerify = isCodeComplete && !isVerifying && !flow.isExpired && flow.attemptsLeft > 0;
+  const canResend = !flow.isSending && !isVerifying && flow.resendIn === 0 && flow.resendsLeft > 0;
+
+  return (
+    <div className="two-factor-verification">
+      <form onSubmit={handleSubmit} aria-label={t("twoFactor.form")}>
+        <p>{t("twoFactor.prompt", { count: flow.codeLength, phone: flow.phoneNumber })}</p>
+        <OtpInput
+          length={flow.codeLength}
+          value={code}
+          onChange={setCode}
+          onComplete={handleVerify}
+          disabled={isVerifying || flow.isExpired}
+        />
+        {flow.isExpired ? (
+          <p className="error-message" role="alert">{t("twoFactor.expired")}</p>
+        ) : (
+          <p className="two-factor-hint">{t("twoFactor.expiresIn", { time: formatCountdown(flow.expiresIn) })}</p>
+        )}
+        {flow.error && <p className="error-message" role="alert">{describeApiError(flow.error, translator)}</p>}
+        {flow.error && flow.attemptsLeft > 0 && (
+          <p className="two-factor-hint">
+            {t("twoFactor.attemptsLeft", { count: flow.attemptsLeft })}
+          </p>
+        )}
+        <button
+          type="submit"
+          className="submit-button"
+          disabled={!canVerify}
+          aria-disabled={!canVerify}
+        >
+          {isVerifying ? t("twoFactor.verifying") : t("twoFactor.verify")}
+        </button>
+      </form>
+      <div className="two-factor-actions">
+        <button type="button" className="link-button" onClick={handleResend} disabled={!canResend}>
+          {flow.resendIn > 0
+            ? t("twoFactor.resendIn", { time: formatCountdown(flow.resendIn) })
+            : t("twoFactor.resend")}
+        </button>
+        <button type="button" className="link-button" onClick={reset} disabled={isVerifying}>
+          {t("twoFactor.changeNumber")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorVerification;
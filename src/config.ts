@@ -1,8 +1,110 @@
-// Define the base URL for the API by retrieving it from the environment variables
-export const API_BASE_URL = process.env.REACT_APP_API_BASE_URL;
+/**
+ * Interface: ApiEndpoints
+ *
+ * Paths of the SoftPoint API endpoints, relative to the base URL.
+ */
+export interface ApiEndpoints {
+  accessToken: string;          // Issues access tokens
+  countries: string;            // Lists the supported countries
+  twoFactorAuth: string;        // Sends a two-factor authentication code
+  verifyTwoFactorAuth: string;  // Verifies a two-factor authentication code; has no default, so verification fails until it is set
+}
 
-// Check if the API base URL is defined
-if (!API_BASE_URL) {
-  // Throw an error if the REACT_APP_API_BASE_URL environment variable is not set
-  throw new Error('REACT_APP_API_BASE_URL is not defined in the environment');
+/**
+ * Interface: PhoneInputConfig
+ *
+ * Runtime configuration of the API client.
+ */
+export interface PhoneInputConfig {
+  baseUrl: string;                  // Base URL of the SoftPoint API
+  apiKey: string;                   // Value of the Api-Key header
+  corporateId: string;              // Corporate ID used to request access tokens
+  endpoints: ApiEndpoints;          // Endpoint paths
+  headers: Record<string, string>;  // Extra headers sent with every request
 }
+
+/**
+ * Type: PhoneInputConfigOptions
+ *
+ * A partial configuration; missing endpoints and headers use the defaults.
+ * `endpoints.verifyTwoFactorAuth` has none: without it, code verification
+ * fails with a `configuration` error while everything else keeps working.
+ */
+export type PhoneInputConfigOptions = Partial<Omit<PhoneInputConfig, 'endpoints'>> & {
+  endpoints?: Partial<ApiEndpoints>;
+};
+
+// Define the default endpoint paths of the SoftPoint API. The code
+// verification path is not part of the documented endpoints, so it has no
+// default; apps that verify codes configure it.
+export const DEFAULT_ENDPOINTS: Omit<ApiEndpoints, 'verifyTwoFactorAuth'> = {
+  accessToken: '/access_token',
+  countries: '/challenges/countries',
+  twoFactorAuth: '/challenges/two_factor_auth',
+};
+
+/**
+ * Reads the configuration from the REACT_APP_* environment variables.
+ * Missing values are left empty and reported by validateConfig.
+ *
+ * @returns {PhoneInputConfigOptions} - The configuration found in the environment.
+ */
+export const getEnvConfig = (): PhoneInputConfigOptions => ({
+  baseUrl: process.env.REACT_APP_API_BASE_URL,
+  apiKey: process.env.REACT_APP_API_KEY,
+  corporateId: process.env.REACT_APP_CORPORATE_ID || '10', // Corporate ID of the demo account
+  endpoints: { verifyTwoFactorAuth: process.env.REACT_APP_VERIFY_ENDPOINT },
+});
+
+/**
+ * Fills in the defaults for a partial configuration.
+ *
+ * @param {PhoneInputConfigOptions} options - The configuration provided by the host app.
+ * @returns {PhoneInputConfig} - The complete configuration.
+ */
+export const resolveConfig = (options: PhoneInputConfigOptions): PhoneInputConfig => ({
+  baseUrl: (options.baseUrl ?? '').replace(/\/+$/, ''), // Drop trailing slashes
+  apiKey: options.apiKey ?? '',
+  corporateId: options.corporateId ?? '',
+  endpoints: {
+    ...DEFAULT_ENDPOINTS,
+    ...options.endpoints,
+    verifyTwoFactorAuth: options.endpoints?.verifyTwoFactorAuth ?? '',
+  },
+  headers: { ...options.headers },
+});
+
+/**
+ * Checks a configuration for missing or malformed values.
+ *
+ * @param {PhoneInputConfig} config - The configuration to check.
+ * @returns {string[]} - A description of every problem found; empty when the configuration is valid.
+ */
+export const validateConfig = (config: PhoneInputConfig): string[] => {
+  const errors: string[] = [];
+
+  if (!config.baseUrl) {
+    errors.push('The API base URL is missing (REACT_APP_API_BASE_URL).');
+  } else if (!/^https?:\/\/[^\s/]+/.test(config.baseUrl)) {
+    errors.push(`The API base URL "${config.baseUrl}" is not an absolute http(s) URL.`);
+  }
+  if (!config.apiKey) {
+    errors.push('The API key is missing (REACT_APP_API_KEY).');
+  }
+  if (!config.corporateId) {
+    errors.push('The corporate ID is missing (REACT_APP_CORPORATE_ID).');
+  }
+  Object.entries(config.endpoints).forEach(([name, path]) => {
+    if (path === '' && name === 'verifyTwoFactorAuth') return; // Optional; verification reports it when used
+    if (typeof path !== 'string' || !path.startsWith('/')) {
+      errors.push(`The "${name}" endpoint must be a path starting with "/".`);
+    }
+  });
+  Object.entries(config.headers).forEach(([name, value]) => {
+    if (typeof value !== 'string') {
+      errors.push(`The value of the "${name}" header must be a string.`);
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,276 @@
+import { Country } from '../types';
+
+/**
+ * Bundled country list used when the countries endpoint cannot be reached
+ * and nothing is cached. Each entry is [ISO code, name, calling code,
+ * national number length].
+ *
+ * The API assigns its own country IDs, so fallback entries get IDs of the
+ * form `fallback:US`; they are replaced by the API's entries as soon as the
+ * endpoint responds. Those IDs mean nothing to the API, so the two-factor
+ * hooks refuse them with a `country_unavailable` error instead of sending them.
+ */
+const FALLBACK_ENTRIES: Array<[string, string, string, number]> = [
+  ['AF', 'Afghanistan', '+93', 9],
+  ['AX', 'Åland Islands', '+358', 10],
+  ['AL', 'Albania', '+355', 9],
+  ['DZ', 'Algeria', '+213', 9],
+  ['AS', 'American Samoa', '+1', 10],
+  ['AD', 'Andorra', '+376', 6],
+  ['AO', 'Angola', '+244', 9],
+  ['AI', 'Anguilla', '+1', 10],
+  ['AG', 'Antigua and Barbuda', '+1', 10],
+  ['AR', 'Argentina', '+54', 10],
+  ['AM', 'Armenia', '+374', 8],
+  ['AW', 'Aruba', '+297', 7],
+  ['AU', 'Australia', '+61', 9],
+  ['AT', 'Austria', '+43', 10],
+  ['AZ', 'Azerbaijan', '+994', 9],
+  ['BS', 'Bahamas', '+1', 10],
+  ['BH', 'Bahrain', '+973', 8],
+  ['BD', 'Bangladesh', '+880', 10],
+  ['BB', 'Barbados', '+1', 10],
+  ['BY', 'Belarus', '+375', 9],
+  ['BE', 'Belgium', '+32', 9],
+  ['BZ', 'Belize', '+501', 7],
+  ['BJ', 'Benin', '+229', 10],
+  ['BM', 'Bermuda', '+1', 10],
+  ['BT', 'Bhutan', '+975', 8],
+  ['BO', 'Bolivia', '+591', 8],
+  ['BQ', 'Caribbean Netherlands', '+599', 7],
+  ['BA', 'Bosnia and Herzegovina', '+387', 8],
+  ['BW', 'Botswana', '+267', 8],
+  ['BR', 'Brazil', '+55', 11],
+  ['IO', 'British Indian Ocean Territory', '+246', 7],
+  ['VG', 'British Virgin Islands', '+1', 10],
+  ['BN', 'Brunei', '+673', 7],
+  ['BG', 'Bulgaria', '+359', 9],
+  ['BF', 'Burkina Faso', '+226', 8],
+  ['BI', 'Burundi', '+257', 8],
+  ['KH', 'Cambodia', '+855', 9],
+  ['CM', 'Cameroon', '+237', 9],
+  ['CA', 'Canada', '+1', 10],
+  ['CV', 'Cape Verde', '+238', 7],
+  ['KY', 'Cayman Islands', '+1', 10],
+  ['CF', 'Central African Republic', '+236', 8],
+  ['TD', 'Chad', '+235', 8],
+  ['CL', 'Chile', '+56', 9],
+  ['CN', 'China', '+86', 11],
+  ['CX', 'Christmas Island', '+61', 9],
+  ['CC', 'Cocos (Keeling) Islands', '+61', 9],
+  ['CO', 'Colombia', '+57', 10],
+  ['KM', 'Comoros', '+269', 7],
+  ['CG', 'Congo', '+242', 9],
+  ['CD', 'Congo (DRC)', '+243', 9],
+  ['CK', 'Cook Islands', '+682', 5],
+  ['CR', 'Costa Rica', '+506', 8],
+  ['CI', "Côte d'Ivoire", '+225', 10],
+  ['HR', 'Croatia', '+385', 9],
+  ['CU', 'Cuba', '+53', 8],
+  ['CW', 'Curaçao', '+599', 7],
+  ['CY', 'Cyprus', '+357', 8],
+  ['CZ', 'Czech Republic', '+420', 9],
+  ['DK', 'Denmark', '+45', 8],
+  ['DJ', 'Djibouti', '+253', 8],
+  ['DM', 'Dominica', '+1', 10],
+  ['DO', 'Dominican Republic', '+1', 10],
+  ['EC', 'Ecuador', '+593', 9],
+  ['EG', 'Egypt', '+20', 10],
+  ['SV', 'El Salvador', '+503', 8],
+  ['GQ', 'Equatorial Guinea', '+240', 9],
+  ['ER', 'Eritrea', '+291', 7],
+  ['EE', 'Estonia', '+372', 8],
+  ['SZ', 'Eswatini', '+268', 8],
+  ['ET', 'Ethiopia', '+251', 9],
+  ['FK', 'Falkland Islands', '+500', 5],
+  ['FO', 'Faroe Islands', '+298', 6],
+  ['FJ', 'Fiji', '+679', 7],
+  ['FI', 'Finland', '+358', 10],
+  ['FR', 'France', '+33', 9],
+  ['GF', 'French Guiana', '+594', 9],
+  ['PF', 'French Polynesia', '+689', 8],
+  ['GA', 'Gabon', '+241', 8],
+  ['GM', 'Gambia', '+220', 7],
+  ['GE', 'Georgia', '+995', 9],
+  ['DE', 'Germany', '+49', 11],
+  ['GH', 'Ghana', '+233', 9],
+  ['GI', 'Gibraltar', '+350', 8],
+  ['GR', 'Greece', '+30', 10],
+  ['GL', 'Greenland', '+299', 6],
+  ['GD', 'Grenada', '+1', 10],
+  ['GP', 'Guadeloupe', '+590', 9],
+  ['GU', 'Guam', '+1', 10],
+  ['GT', 'Guatemala', '+502', 8],
+  ['GG', 'Guernsey', '+44', 10],
+  ['GN', 'Guinea', '+224', 9],
+  ['GW', 'Guinea-Bissau', '+245', 9],
+  ['GY', 'Guyana', '+592', 7],
+  ['HT', 'Haiti', '+509', 8],
+  ['HN', 'Honduras', '+504', 8],
+  ['HK', 'Hong Kong', '+852', 8],
+  ['HU', 'Hungary', '+36', 9],
+  ['IS', 'Iceland', '+354', 7],
+  ['IN', 'India', '+91', 10],
+  ['ID', 'Indonesia', '+62', 11],
+  ['IR', 'Iran', '+98', 10],
+  ['IQ', 'Iraq', '+964', 10],
+  ['IE', 'Ireland', '+353', 9],
+  ['IM', 'Isle of Man', '+44', 10],
+  ['IL', 'Israel', '+972', 9],
+  ['IT', 'Italy', '+39', 10],
+  ['JM', 'Jamaica', '+1', 10],
+  ['JP', 'Japan', '+81', 10],
+  ['JE', 'Jersey', '+44', 10],
+  ['JO', 'Jordan', '+962', 9],
+  ['KZ', 'Kazakhstan', '+7', 10],
+  ['KE', 'Kenya', '+254', 9],
+  ['KI', 'Kiribati', '+686', 8],
+  ['XK', 'Kosovo', '+383', 8],
+  ['KW', 'Kuwait', '+965', 8],
+  ['KG', 'Kyrgyzstan', '+996', 9],
+  ['LA', 'Laos', '+856', 10],
+  ['LV', 'Latvia', '+371', 8],
+  ['LB', 'Lebanon', '+961', 8],
+  ['LS', 'Lesotho', '+266', 8],
+  ['LR', 'Liberia', '+231', 9],
+  ['LY', 'Libya', '+218', 9],
+  ['LI', 'Liechtenstein', '+423', 7],
+  ['LT', 'Lithuania', '+370', 8],
+  ['LU', 'Luxembourg', '+352', 9],
+  ['MO', 'Macau', '+853', 8],
+  ['MG', 'Madagascar', '+261', 9],
+  ['MW', 'Malawi', '+265', 9],
+  ['MY', 'Malaysia', '+60', 10],
+  ['MV', 'Maldives', '+960', 7],
+  ['ML', 'Mali', '+223', 8],
+  ['MT', 'Malta', '+356', 8],
+  ['MH', 'Marshall Islands', '+692', 7],
+  ['MQ', 'Martinique', '+596', 9],
+  ['MR', 'Mauritania', '+222', 8],
+  ['MU', 'Mauritius', '+230', 8],
+  ['YT', 'Mayotte', '+262', 9],
+  ['MX', 'Mexico', '+52', 10],
+  ['FM', 'Micronesia', '+691', 7],
+  ['MD', 'Moldova', '+373', 8],
+  ['MC', 'Monaco', '+377', 8],
+  ['MN', 'Mongolia', '+976', 8],
+  ['ME', 'Montenegro', '+382', 8],
+  ['MS', 'Montserrat', '+1', 10],
+  ['MA', 'Morocco', '+212', 9],
+  ['MZ', 'Mozambique', '+258', 9],
+  ['MM', 'Myanmar', '+95', 9],
+  ['NA', 'Namibia', '+264', 9],
+  ['NR', 'Nauru', '+674', 7],
+  ['NP', 'Nepal', '+977', 10],
+  ['NL', 'Netherlands', '+31', 9],
+  ['NC', 'New Caledonia', '+687', 6],
+  ['NZ', 'New Zealand', '+64', 9],
+  ['NI', 'Nicaragua', '+505', 8],
+  ['NE', 'Niger', '+227', 8],
+  ['NG', 'Nigeria', '+234', 10],
+  ['NU', 'Niue', '+683', 4],
+  ['NF', 'Norfolk Island', '+672', 6],
+  ['KP', 'North Korea', '+850', 10],
+  ['MK', 'North Macedonia', '+389', 8],
+  ['MP', 'Northern Mariana Islands', '+1', 10],
+  ['NO', 'Norway', '+47', 8],
+  ['OM', 'Oman', '+968', 8],
+  ['PK', 'Pakistan', '+92', 10],
+  ['PW', 'Palau', '+680', 7],
+  ['PS', 'Palestine', '+970', 9],
+  ['PA', 'Panama', '+507', 8],
+  ['PG', 'Papua New Guinea', '+675', 8],
+  ['PY', 'Paraguay', '+595', 9],
+  ['PE', 'Peru', '+51', 9],
+  ['PH', 'Philippines', '+63', 10],
+  ['PL', 'Poland', '+48', 9],
+  ['PT', 'Portugal', '+351', 9],
+  ['PR', 'Puerto Rico', '+1', 10],
+  ['QA', 'Qatar', '+974', 8],
+  ['RE', 'Réunion', '+262', 9],
+  ['RO', 'Romania', '+40', 9],
+  ['RU', 'Russia', '+7', 10],
+  ['RW', 'Rwanda', '+250', 9],
+  ['BL', 'Saint Barthélemy', '+590', 9],
+  ['SH', 'Saint Helena', '+290', 5],
+  ['KN', 'Saint Kitts and Nevis', '+1', 10],
+  ['LC', 'Saint Lucia', '+1', 10],
+  ['MF', 'Saint Martin', '+590', 9],
+  ['PM', 'Saint Pierre and Miquelon', '+508', 6],
+  ['VC', 'Saint Vincent and the Grenadines', '+1', 10],
+  ['WS', 'Samoa', '+685', 7],
+  ['SM', 'San Marino', '+378', 10],
+  ['ST', 'São Tomé and Príncipe', '+239', 7],
+  ['SA', 'Saudi Arabia', '+966', 9],
+  ['SN', 'Senegal', '+221', 9],
+  ['RS', 'Serbia', '+381', 9],
+  ['SC', 'Seychelles', '+248', 7],
+  ['SL', 'Sierra Leone', '+232', 8],
+  ['SG', 'Singapore', '+65', 8],
+  ['SX', 'Sint Maarten', '+1', 10],
+  ['SK', 'Slovakia', '+421', 9],
+  ['SI', 'Slovenia', '+386', 8],
+  ['SB', 'Solomon Islands', '+677', 7],
+  ['SO', 'Somalia', '+252', 8],
+  ['ZA', 'South Africa', '+27', 9],
+  ['KR', 'South Korea', '+82', 10],
+  ['SS', 'South Sudan', '+211', 9],
+  ['ES', 'Spain', '+34', 9],
+  ['LK', 'Sri Lanka', '+94', 9],
+  ['SD', 'Sudan', '+249', 9],
+  ['SR', 'Suriname', '+597', 7],
+  ['SJ', 'Svalbard and Jan Mayen', '+47', 8],
+  ['SE', 'Sweden', '+46', 9],
+  ['CH', 'Switzerland', '+41', 9],
+  ['SY', 'Syria', '+963', 9],
+  ['TW', 'Taiwan', '+886', 9],
+  ['TJ', 'Tajikistan', '+992', 9],
+  ['TZ', 'Tanzania', '+255', 9],
+  ['TH', 'Thailand', '+66', 9],
+  ['TL', 'Timor-Leste', '+670', 8],
+  ['TG', 'Togo', '+228', 8],
+  ['TK', 'Tokelau', '+690', 4],
+  ['TO', 'Tonga', '+676', 7],
+  ['TT', 'Trinidad and Tobago', '+1', 10],
+  ['TN', 'Tunisia', '+216', 8],
+  ['TR', 'Turkey', '+90', 10],
+  ['TM', 'Turkmenistan', '+993', 8],
+  ['TC', 'Turks and Caicos Islands', '+1', 10],
+  ['TV', 'Tuvalu', '+688', 6],
+  ['VI', 'U.S. Virgin Islands', '+1', 10],
+  ['UG', 'Uganda', '+256', 9],
+  ['UA', 'Ukraine', '+380', 9],
+  ['AE', 'United Arab Emirates', '+971', 9],
+  ['GB', 'United Kingdom', '+44', 10],
+  ['US', 'United States', '+1', 10],
+  ['UY', 'Uruguay', '+598', 8],
+  ['UZ', 'Uzbekistan', '+998', 9],
+  ['VU', 'Vanuatu', '+678', 7],
+  ['VA', 'Vatican City', '+39', 10],
+  ['VE', 'Venezuela', '+58', 10],
+  ['VN', 'Vietnam', '+84', 9],
+  ['WF', 'Wallis and Futuna', '+681', 6],
+  ['EH', 'Western Sahara', '+212', 9],
+  ['YE', 'Yemen', '+967', 9],
+  ['ZM', 'Zambia', '+260', 9],
+  ['ZW', 'Zimbabwe', '+263', 9],
+];
+
+// Marks the IDs of fallback entries, which the API cannot resolve
+const FALLBACK_ID_PREFIX = 'fallback:';
+
+export const FALLBACK_COUNTRIES: Record<string, Country> = Object.fromEntries(
+  FALLBACK_ENTRIES.map(([iso, name, callingCode, phoneLength]) => [
+    iso,
+    { id: `${FALLBACK_ID_PREFIX}${iso}`, name, calling_code: callingCode, phone_length: String(phoneLength) },
+  ])
+);
+
+/**
+ * Checks whether a country ID belongs to the bundled fallback list rather
+ * than the API.
+ *
+ * @param {string} countryId - The ID of a country.
+ * @returns {boolean} - True for IDs of fallback entries.
+ */
+export const isFallbackCountryId = (countryId: string) => countryId.startsWith(FALLBACK_ID_PREFIX);
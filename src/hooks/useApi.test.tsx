@@ -0,0 +1,153 @@
+import { waitFor } from "@testing-library/react";
+import { useAccessToken, useCountries } from "./useApi";
+import { createMockApi } from "../mocks/mockApi";
+import { MOCK_COUNTRIES } from "../mocks/fixtures";
+import { renderHookWithProviders } from "../mocks/testUtils";
+import { FALLBACK_COUNTRIES } from "../data/fallbackCountries";
+
+// Token and countries hooks together, as the demo uses them
+const useTokenAndCountries = () => {
+  const token = useAccessToken();
+  const countries = useCountries(token.accessToken);
+  return { token, countries };
+};
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("useAccessToken", () => {
+  it("fetches a token with the corporate ID", async () => {
+    const { result, mockApi } = renderHookWithProviders(() => useAccessToken());
+
+    expect(result.current.isLoading).toBe(true);
+    await waitFor(() => expect(result.current.accessToken).toBe("mock-token-1"));
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.error).toBeNull();
+    expect(mockApi.requests[0]).toMatchObject({ endpoint: "accessToken", method: "POST", params: { corporate_id: "10" } });
+  });
+
+  it("reports a rejected API key as unauthorized", async () => {
+    const { result } = renderHookWithProviders(() => useAccessToken(), { mockApi: createMockApi({ scenario: "unauthorized" }) });
+
+    await waitFor(() => expect(result.current.error).toMatchObject({ kind: "unauthorized", status: 401 }));
+    expect(result.current.accessToken).toBe("");
+  });
+
+  it("reports a malformed token response as invalid", async () => {
+    const { result } = renderHookWithProviders(() => useAccessToken(), { mockApi: createMockApi({ scenario: "malformed" }) });
+
+    await waitFor(() => expect(result.current.error?.kind).toBe("invalid_response"));
+  });
+
+  it("recovers on refetch once the API answers again", async () => {
+    const mockApi = createMockApi({ scenario: "server_error" });
+    const { result } = renderHookWithProviders(() => useAccessToken(), { mockApi });
+    await waitFor(() => expect(result.current.error).toMatchObject({ kind: "unknown", status: 500 }));
+
+    mockApi.setScenario("success");
+    result.current.refetch();
+
+    await waitFor(() => expect(result.current.accessToken).not.toBe(""));
+    expect(result.current.error).toBeNull();
+  });
+
+  it("does not refresh short-lived tokens in a loop", async () => {
+    const mockApi = createMockApi({ tokenTtl: 30 });
+    const { result } = renderHookWithProviders(useTokenAndCountries, { mockApi });
+
+    await waitFor(() => expect(result.current.countries.source).toBe("network"));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(mockApi.requests.filter(({ endpoint }) => endpoint === "accessToken")).toHaveLength(1);
+  });
+});
+
+describe("useCountries", () => {
+  it("serves the fallback list until the API answers", async () => {
+    const { result } = renderHookWithProviders(useTokenAndCountries);
+
+    expect(result.current.countries.countries).toBe(FALLBACK_COUNTRIES);
+    expect(result.current.countries.isLoading).toBe(true);
+
+    await waitFor(() => expect(result.current.countries.source).toBe("network"));
+    expect(result.current.countries.countries).toEqual(MOCK_COUNTRIES);
+    expect(result.current.countries.isLoading).toBe(false);
+  });
+
+  it("sends the access token as a bearer token", async () => {
+    const { result, mockApi } = renderHookWithProviders(useTokenAndCountries);
+
+    await waitFor(() => expect(result.current.countries.source).toBe("network"));
+    const request = mockApi.requests.find(({ endpoint }) => endpoint === "countries");
+    expect(request?.authorization).toBe(`Bearer ${result.current.token.accessToken}`);
+  });
+
+  it("keeps loading while the API is slow", async () => {
+    const mockApi = createMockApi({ scenario: "slow", slowDelay: 200 });
+    const { result } = renderHookWithProviders(useTokenAndCountries, { mockApi });
+
+    await waitFor(() => expect(result.current.token.accessToken).not.toBe(""));
+    expect(result.current.countries.isLoading).toBe(true);
+    expect(result.current.countries.isRevalidating).toBe(true);
+
+    await waitFor(() => expect(result.current.countries.source).toBe("network"));
+  });
+
+  it("keeps the fallback list when the countries response is malformed", async () => {
+    const mockApi = createMockApi({ scenarios: { countries: "malformed" } });
+    const { result } = renderHookWithProviders(useTokenAndCountries, { mockApi });
+
+    await waitFor(() => expect(result.current.countries.error?.kind).toBe("invalid_response"));
+    expect(result.current.countries.countries).toBe(FALLBACK_COUNTRIES);
+    expect(result.current.countries.isLoading).toBe(false);
+  });
+
+  it("stops loading when the access token cannot be fetched", async () => {
+    const mockApi = createMockApi({ scenario: "unauthorized" });
+    const { result } = renderHookWithProviders(useTokenAndCountries, { mockApi });
+
+    await waitFor(() => expect(result.current.token.error?.kind).toBe("unauthorized"));
+    expect(result.current.countries.countries).toBe(FALLBACK_COUNTRIES);
+    expect(result.current.countries.isLoading).toBe(false);
+  });
+
+  it("reports rate limiting with the Retry-After delay", async () => {
+    const mockApi = createMockApi({ scenarios: { countries: "rate_limited" }, retryAfter: 45 });
+    const { result } = renderHookWithProviders(useTokenAndCountries, { mockApi });
+
+    await waitFor(() => expect(result.current.countries.error).toMatchObject({ kind: "rate_limited", retryAfter: 45 }));
+  });
+
+  it("refreshes a rejected token and retries once", async () => {
+    const mockApi = createMockApi();
+    const { result } = renderHookWithProviders(useTokenAndCountries, { mockApi });
+    await waitFor(() => expect(result.current.countries.source).toBe("network"));
+
+    mockApi.revokeTokens();
+    result.current.countries.refetch();
+
+    await waitFor(() => expect(result.current.token.accessToken).toBe("mock-token-2"));
+    await waitFor(() => expect(result.current.countries.isRevalidating).toBe(false));
+    expect(result.current.countries.error).toBeNull();
+    expect(mockApi.requests.map(({ endpoint }) => endpoint)).toEqual([
+      "accessToken",
+      "countries",
+      "countries",
+      "accessToken",
+      "countries",
+    ]);
+  });
+
+  it("fails as unauthorized when the API keeps rejecting the token", async () => {
+    const mockApi = createMockApi({ scenarios: { countries: "unauthorized" } });
+    const { result } = renderHookWithProviders(useTokenAndCountries, { mockApi });
+
+    await waitFor(() => expect(result.current.countries.error?.kind).toBe("unauthorized"));
+  });
+});
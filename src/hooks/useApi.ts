@@ -1,84 +1,151 @@
-import { useState, useEffect } from 'react';
-import axios from 'axios';
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
 import { Country } from '../types';
-
-const API_KEY = process.env.REACT_APP_API_KEY;
-const API_BASE_URL = process.env.REACT_APP_API_BASE_URL;
-
-const HEADERS = {
-  'Api-Key': API_KEY || '',
-};
+import { useApiClient } from './useApiClient';
+import { readCountriesCache, writeCountriesCache } from '../utils/countriesCache';
+import { FALLBACK_COUNTRIES } from '../data/fallbackCountries';
+import { ApiError, toApiError } from '../api/errors';
+import { decodeCountries } from '../api/decoders';
+import { useTelemetry } from './useTelemetry';
 
 /**
  * Custom Hook: useAccessToken
  * 
  * The useAccessToken hook is responsible for fetching and managing 
  * the access token required for authenticating API requests. 
- * It handles any errors that occur during the token retrieval process 
- * and provides the current access token and error state.
+ * The token itself is owned by the API client of the surrounding 
+ * PhoneInputConfigProvider, which refreshes it 
+ * before it expires and after the API rejects it, so every consumer 
+ * always sees the current token. Mounting several consumers, or
+ * StrictMode's double effect, shares a single token request, and the
+ * token outlives any one consumer, so unmounting does not cancel it.
  * 
- * @returns {Object} An object containing the access token and error state.
+ * @returns {Object} An object containing the access token and its state.
  * @returns {string} accessToken - The current access token.
- * @returns {string | null} error - An error message if the token fetching fails, otherwise null.
+ * @returns {ApiError | null} error - Why the token could not be fetched, otherwise null.
+ * @returns {boolean} isLoading - True while the first token is being fetched.
+ * @returns {boolean} isRefreshing - True while an existing token is being replaced.
+ * @returns {Function} refetch - Requests a new token.
  */
 export const useAccessToken = () => {
-  const [accessToken, setAccessToken] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const apiClient = useApiClient();
+  const { accessToken, status, error } = useSyncExternalStore(apiClient.subscribe, apiClient.getState);
+  const track = useTelemetry();
 
   useEffect(() => {
-    const fetchAccessToken = async () => {
-      try {
-        const response = await axios.post(
-          `${API_BASE_URL}/access_token?corporate_id=10`,
-          {},
-          { headers: HEADERS }
-        );
-        setAccessToken(response.data.access_token);
-      } catch (err) {
-        setError('Error fetching access token');
-        console.error("Error fetching access token:", err);
-      }
-    };
+    // Concurrent calls share one request, so StrictMode's double effect is harmless
+    apiClient.getAccessToken().catch(() => undefined); // Failures are reflected in the state
+  }, [apiClient]);
+
+  // Report each failure once
+  useEffect(() => {
+    if (error) track({ type: 'api_error', endpoint: 'access_token', errorKind: error.kind });
+  }, [error, track]);
 
-    fetchAccessToken();
-  }, []);
+  const refetch = useCallback(() => {
+    apiClient.refreshToken().catch(() => undefined); // Failures are reflected in the state
+  }, [apiClient]);
 
-  return { accessToken, error };
+  return {
+    accessToken,
+    error,
+    isLoading: status === 'idle' || status === 'loading',
+    isRefreshing: status === 'refreshing',
+    refetch,
+  };
 };
 
+/**
+ * Type: CountriesSource
+ *
+ * Where the countries currently served by useCountries came from.
+ */
+export type CountriesSource = 'network' | 'cache' | 'fallback';
+
 /**
  * Custom Hook: useCountries
  * 
- * The useCountries hook retrieves a list of countries using the provided 
- * access token for authentication. It handles errors during the 
- * fetching process and provides the fetched countries and error state.
+ * The useCountries hook serves the list of countries with a 
+ * stale-while-revalidate strategy: cached countries (or, when nothing is 
+ * cached, a bundled fallback list) are returned immediately, and once an 
+ * access token is available the endpoint configured in the surrounding 
+ * PhoneInputConfigProvider is queried in the background when the cache is 
+ * missing or older than its TTL. Responses are validated with
+ * decodeCountries: bad entries are repaired or dropped, and an unusable
+ * payload fails like a network error. A failed request keeps the current data
+ * and can be repeated with `refetch`.
+ *
+ * A request in flight is cancelled when the component unmounts, the token
+ * appears or disappears, or `refetch` starts a new one, and the response of
+ * a cancelled request is ignored, so an older answer never overwrites a
+ * newer one.
  * 
- * @param {string} accessToken - The access token used for authenticating the API request.
- * @returns {Object} An object containing the countries data and error state.
- * @returns {Record<string, Country>} countries - The fetched countries data.
- * @returns {string | null} error - An error message if fetching countries fails, otherwise null.
+ * @param {string} accessToken - The access token; countries are fetched once it is set.
+ * @returns {Object} An object containing the countries data and its state.
+ * @returns {Record<string, Country>} countries - The countries data.
+ * @returns {CountriesSource} source - Whether the data came from the network, the cache or the fallback list.
+ * @returns {boolean} isLoading - True while only the fallback list is available and the API has not answered yet;
+ *   false once fetching the countries or the access token has failed.
+ * @returns {boolean} isRevalidating - True while fresh data is being fetched in the background.
+ * @returns {ApiError | null} error - Why fetching countries failed, otherwise null.
+ * @returns {Function} refetch - Fetches the countries again.
  */
 export const useCountries = (accessToken: string) => {
-  const [countries, setCountries] = useState<Record<string, Country>>({});
-  const [error, setError] = useState<string | null>(null);
+  const apiClient = useApiClient();
+  const cacheSource = apiClient.baseUrl;
+  const [cached] = useState(() => readCountriesCache(cacheSource));
+  const [countries, setCountries] = useState<Record<string, Country>>(cached?.countries ?? FALLBACK_COUNTRIES);
+  const [source, setSource] = useState<CountriesSource>(cached ? 'cache' : 'fallback');
+  const [isRevalidating, setIsRevalidating] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [fetchCount, setFetchCount] = useState(0);
+  const { error: tokenError } = useSyncExternalStore(apiClient.subscribe, apiClient.getState);
+  const track = useTelemetry();
+
+  // Token refreshes do not change the countries, so only react to authentication itself
+  const isAuthenticated = Boolean(accessToken);
+  const needsRevalidation = !cached || cached.isStale;
 
   useEffect(() => {
-    const fetchCountries = async () => {
-      if (!accessToken) return;
+    if (!isAuthenticated || (!needsRevalidation && fetchCount === 0)) return;
 
+    const controller = new AbortController();
+    const fetchCountries = async () => {
+      setIsRevalidating(true);
       try {
-        const response = await axios.get<Record<string, Country>>(`${API_BASE_URL}/challenges/countries`, {
-          headers: { ...HEADERS, Authorization: `Bearer ${accessToken}` },
+        const response = await apiClient.request<unknown>({
+          method: 'GET',
+          url: apiClient.endpoints.countries,
+          signal: controller.signal,
         });
-        setCountries(response.data);
+        if (controller.signal.aborted) return; // A newer request owns the state
+        const decoded = decodeCountries(response.data);
+        setCountries(decoded);
+        setSource('network');
+        setError(null);
+        writeCountriesCache(cacheSource, decoded);
       } catch (err) {
-        setError('Error fetching countries');
+        if (controller.signal.aborted) return; // Cancelled on purpose, not a failure
+        const apiError = toApiError(err);
+        setError(apiError);
+        track({ type: 'api_error', endpoint: 'countries', errorKind: apiError.kind });
         console.error("Error fetching countries:", err);
+      } finally {
+        if (!controller.signal.aborted) setIsRevalidating(false);
       }
     };
 
     fetchCountries();
-  }, [accessToken]);
+    return () => {
+      controller.abort();
+      setIsRevalidating(false);
+    };
+  }, [apiClient, cacheSource, isAuthenticated, needsRevalidation, fetchCount, track]);
+
+  const refetch = useCallback(() => setFetchCount((count) => count + 1), []);
+
+  // The fallback list stands in for real data only once the API has failed; without a
+  // token the countries are never requested, so a failed token request ends the wait too
+  const isLoading = source === 'fallback' && error === null && (isAuthenticated || tokenError === null);
 
-  return { countries, error };
+  return { countries, source, isLoading, isRevalidating, error, refetch };
 };
@@ -0,0 +1,18 @@
+import { useContext } from 'react';
+import { ApiClientContext } from '../components/PhoneInputConfigProvider';
+
+/**
+ * useApiClient is a custom React hook that returns the API client
+ * configured by the nearest PhoneInputConfigProvider.
+ *
+ * @returns {ApiClient} - The configured API client.
+ *
+ * @throws {Error} - Throws an error if used outside a PhoneInputConfigProvider.
+ */
+export const useApiClient = () => {
+  const client = useContext(ApiClientContext);
+  if (!client) {
+    throw new Error('useApiClient must be used within a PhoneInputConfigProvider');
+  }
+  return client;
+};
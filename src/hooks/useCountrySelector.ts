@@ -0,0 +1,488 @@
+import React, { useState, useRef, useEffect, useMemo, useCallback, useId } from 'react';
+import { searchCountries, SearchHighlight } from '../utils/countrySearch';
+import { getCountryCatalog } from '../utils/countryCatalog';
+import { useVirtualList } from './useVirtualList';
+import { Country, CountryWithISO } from '../types';
+import { resolveDefaultCountry, saveLastUsedCountry } from '../utils/defaultCountry';
+import { useI18n } from './useI18n';
+import { useTelemetry } from './useTelemetry';
+import { CountrySelectionMethod, TrackedEvent } from '../telemetry/events';
+
+/**
+ * Interface: CountrySelectorOptions
+ *
+ * Options for useCountrySelector.
+ */
+export interface CountrySelectorOptions {
+  countries: Record<string, Country>;                 // An object mapping ISO codes to country objects
+  selectedCountry: CountryWithISO | null;             // The currently selected country
+  onSelectCountry: (country: CountryWithISO) => void; // Called with the API country object when one is chosen
+  defaultCountry?: string;                            // ISO code of the country to preselect when none is selected
+  preferredCountries?: string[];                      // ISO codes pinned, in order, at the top of the unfiltered list
+  onEvent?: (event: TrackedEvent) => void;            // Receives selector events, in addition to the nearest TelemetryProvider
+  virtualize?: boolean;                               // Renders only the visible options; true by default
+  itemHeight?: number;                                // Fixed height of each option when virtualized, in pixels
+  listHeight?: number;                                // Height of the scrolling option list when virtualized, in pixels
+}
+
+/**
+ * Interface: CountrySelectorItem
+ *
+ * An option to render, with its state.
+ */
+export interface CountrySelectorItem {
+  country: CountryWithISO;       // The country, with its localized name
+  highlight?: SearchHighlight;   // The part of the name or calling code matching the search
+  index: number;                 // Position in the filtered results
+  isActive: boolean;             // Whether the option is the keyboard-active one
+  isSelected: boolean;           // Whether the option is the selected country
+  isLastPreferred: boolean;      // Whether the option ends the pinned preferred countries
+}
+
+// Props passed to a prop getter; its handlers run before the selector's own
+type GetterProps<T extends HTMLElement> = React.HTMLAttributes<T> & { ref?: React.Ref<T> };
+
+// Number of options PageUp/PageDown move the active option by
+const PAGE_SIZE = 10;
+
+// Fixed height of each option, in pixels; must match `.country-dropdown li` in CountrySelector.css
+const ROW_HEIGHT = 40;
+
+// Height of the scrolling option list, in pixels; must match `.country-list` in CountrySelector.css
+const LIST_HEIGHT = 260;
+
+// Options rendered above and below the visible ones
+const OVERSCAN = 5;
+
+/**
+ * Combines refs so the selector and the caller can both hold an element.
+ *
+ * @param {Array<React.Ref<T> | undefined>} refs - The refs to update.
+ * @returns {Function} - A callback ref updating every ref.
+ */
+const mergeRefs = <T,>(...refs: Array<React.Ref<T> | undefined>) => (node: T | null) => {
+  refs.forEach((ref) => {
+    if (typeof ref === 'function') {
+      ref(node);
+    } else if (ref) {
+      (ref as React.MutableRefObject<T | null>).current = node;
+    }
+  });
+};
+
+/**
+ * Merges caller props into the props of a prop getter: event handlers are
+ * chained (the caller's first), class names are joined, styles are merged
+ * and refs are combined; other caller props take precedence.
+ *
+ * @param {Object} own - The props the selector needs.
+ * @param {Object} [props] - The props passed by the caller.
+ * @returns {Object} - The merged props.
+ */
+const mergeProps = <T extends HTMLElement>(own: GetterProps<T>, props: GetterProps<T> = {}): GetterProps<T> => {
+  const merged: Record<string, unknown> = { ...own, ...props };
+  Object.entries(props).forEach(([key, value]) => {
+    const ownValue = (own as Record<string, unknown>)[key];
+    if (/^on[A-Z]/.test(key) && typeof value === 'function' && typeof ownValue === 'function') {
+      merged[key] = (...args: unknown[]) => {
+        value(...args);
+        ownValue(...args);
+      };
+    }
+  });
+  merged.className = [own.className, props.className].filter(Boolean).join(' ') || undefined;
+  merged.style = own.style || props.style ? { ...own.style, ...props.style } : undefined;
+  // A new callback ref detaches and reattaches the element, so combine refs only when needed
+  merged.ref = own.ref && props.ref ? mergeRefs(own.ref, props.ref) : own.ref ?? props.ref;
+  return merged as GetterProps<T>;
+};
+
+/**
+ * useCountrySelector is a custom React hook holding the behavior of the
+ * country selector without any markup: search ranking and highlighting,
+ * preferred countries, default selection, type-ahead, keyboard navigation,
+ * outside-click handling, virtualization and the ARIA combobox wiring.
+ * CountrySelector renders its own markup with it; pass the same options to
+ * build a selector with different markup.
+ *
+ * Spread the prop getters on your elements. Each accepts your own props
+ * and merges them: handlers are chained, class names joined and refs
+ * combined.
+ *
+ * @param {CountrySelectorOptions} options - The countries, the selection and the list settings.
+ *
+ * @returns {Object} - The selector state and prop getters:
+ * - isOpen: Whether the option list is shown.
+ * - searchTerm: The text in the search field.
+ * - selectedCountry: The selected country, with its localized name.
+ * - activeCountry: The keyboard-active option while open.
+ * - items: The options to render, with their state; only the visible window when virtualized.
+ * - resultCount: The number of countries matching the search.
+ * - statusMessage: The localized result count while open, for the live region; empty while closed.
+ * - open / close / toggle: Show or hide the option list.
+ * - selectCountry: Selects a country and closes the list.
+ * - getRootProps: For the element containing the trigger and the list; clicks outside it close the list.
+ * - getTriggerProps: For the button showing the selected country.
+ * - getSearchProps: For the search input.
+ * - getListContainerProps: For the scrolling element around the listbox.
+ * - getListboxProps: For the listbox element.
+ * - getOptionProps: For each option, given its item.
+ * - getStatusProps: For the visually hidden live region announcing the results; keep it mounted while closed.
+ */
+export const useCountrySelector = ({
+  countries,
+  selectedCountry,
+  onSelectCountry,
+  defaultCountry,
+  preferredCountries,
+  onEvent,
+  virtualize = true,
+  itemHeight = ROW_HEIGHT,
+  listHeight = LIST_HEIGHT,
+}: CountrySelectorOptions) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const rootRef = useRef<HTMLElement | null>(null);
+  const triggerRef = useRef<HTMLButtonElement | null>(null);
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  const id = useId();
+  const listboxId = `${id}-listbox`;
+  const { t, locale, countryName } = useI18n();
+  const track = useTelemetry(onEvent);
+
+  // Effect to handle closing the dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setSearchTerm('');
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  // Countries with ISO codes, localized and indexed for search; shared by
+  // every selector rendering the same countries in the same locale
+  const { countries: countriesArray, localized: localizedCountries, searchIndex } = useMemo(
+    () => getCountryCatalog(countries, countryName, locale),
+    [countries, countryName, locale]
+  );
+
+  // Memoized array of ranked search results based on search term
+  const rankedResults = useMemo(() => searchCountries(searchIndex, searchTerm), [searchIndex, searchTerm]);
+
+  // Compare preferred countries by value so inline arrays do not invalidate the memo below
+  const preferredKey = (preferredCountries ?? []).map((iso) => iso.toUpperCase()).join(',');
+
+  // Memoized results with the preferred countries pinned on top while nothing is searched
+  const { searchResults, pinnedCount } = useMemo(() => {
+    const preferred = preferredKey ? preferredKey.split(',') : [];
+    if (searchTerm.trim() || preferred.length === 0) {
+      return { searchResults: rankedResults, pinnedCount: 0 };
+    }
+    const isPreferred = (iso: string) => preferred.includes(iso.toUpperCase());
+    const pinned = preferred
+      .map((iso) => rankedResults.find((result) => result.country.iso.toUpperCase() === iso))
+      .filter((result): result is typeof rankedResults[number] => !!result);
+    const rest = rankedResults.filter((result) => !isPreferred(result.country.iso));
+    return { searchResults: [...pinned, ...rest], pinnedCount: pinned.length };
+  }, [rankedResults, preferredKey, searchTerm]);
+
+  // Memoized array of filtered countries in ranked order
+  const filteredCountries = useMemo(() => searchResults.map((result) => result.country), [searchResults]);
+
+  // Windowed rendering of the option list
+  const { containerRef, onScroll, startIndex, endIndex, totalHeight, scrollToIndex } = useVirtualList({
+    itemCount: searchResults.length,
+    itemHeight,
+    overscan: OVERSCAN,
+    defaultViewportHeight: listHeight,
+  });
+  const wasOpenRef = useRef(false);
+
+  // Builds the DOM id of an option so it can be referenced by aria-activedescendant
+  const getOptionId = useCallback((country: CountryWithISO) => `${id}-option-${country.iso}`, [id]);
+
+  const activeCountry = isOpen ? filteredCountries[activeIndex] : undefined;
+
+  // Opens the dropdown with the given country, by default the selected one, as the active option
+  const open = (activeCountry: CountryWithISO | null = selectedCountry) => {
+    const index = filteredCountries.findIndex((country) => country.iso === activeCountry?.iso);
+    setActiveIndex(Math.max(0, index));
+    setIsOpen(true);
+    track({ type: 'selector_opened' });
+  };
+
+  // Closes the dropdown and optionally returns focus to the trigger
+  const close = (restoreFocus = false) => {
+    setIsOpen(false);
+    setSearchTerm('');
+    if (restoreFocus) {
+      triggerRef.current?.focus();
+    }
+  };
+
+  const toggle = () => (isOpen ? close() : open());
+
+  // Selects a country chosen by the user and remembers it for the next visit; the
+  // parent receives the country as returned by the API, not its localized copy
+  const chooseCountry = (country: CountryWithISO, method: CountrySelectionMethod) => {
+    saveLastUsedCountry(country.iso);
+    onSelectCountry(countriesArray.find(({ iso }) => iso === country.iso) ?? country);
+    track({ type: 'country_selected', country: country.iso, method });
+  };
+
+  // Handles the selection of a country
+  const selectCountry = (country: CountryWithISO, method: CountrySelectionMethod = 'click') => {
+    chooseCountry(country, method);
+    close(true);
+  };
+
+  // Moves focus into the search field whenever the dropdown opens
+  useEffect(() => {
+    if (isOpen) {
+      searchInputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  // Centers the selected country when the dropdown opens, then keeps the active option visible
+  useEffect(() => {
+    if (!isOpen) {
+      wasOpenRef.current = false;
+      return;
+    }
+    scrollToIndex(activeIndex, wasOpenRef.current ? 'nearest' : 'center');
+    wasOpenRef.current = true;
+  }, [isOpen, activeIndex, scrollToIndex]);
+
+  // Indexes of the mounted options: the visible window plus the active option
+  const renderedIndexes = useMemo(() => {
+    if (!virtualize) return searchResults.map((_, index) => index);
+    const indexes: number[] = [];
+    for (let index = startIndex; index < endIndex; index++) {
+      indexes.push(index);
+    }
+    if (activeIndex < searchResults.length && (activeIndex < startIndex || activeIndex >= endIndex)) {
+      indexes.push(activeIndex);
+    }
+    return indexes;
+  }, [virtualize, startIndex, endIndex, activeIndex, searchResults]);
+
+  const items = useMemo(() => renderedIndexes.map((index): CountrySelectorItem => {
+    const { country, highlight } = searchResults[index];
+    return {
+      country,
+      highlight,
+      index,
+      isActive: index === activeIndex,
+      isSelected: country.iso === selectedCountry?.iso,
+      isLastPreferred: index === pinnedCount - 1,
+    };
+  }), [renderedIndexes, searchResults, activeIndex, selectedCountry, pinnedCount]);
+
+  /**
+   * Finds the next country whose name starts with the typed character,
+   * starting after the selected country.
+   *
+   * @param {string} char - The character that was typed.
+   * @returns {CountryWithISO | undefined} - The matching country, if any.
+   */
+  const findTypeaheadMatch = (char: string) => {
+    const search = char.toLocaleLowerCase(locale);
+    const start = localizedCountries.findIndex((country) => country.iso === selectedCountry?.iso) + 1;
+
+    for (let offset = 0; offset < localizedCountries.length; offset++) {
+      const country = localizedCountries[(start + offset) % localizedCountries.length];
+      if (country.name.toLocaleLowerCase(locale).startsWith(search)) {
+        return country;
+      }
+    }
+    return undefined;
+  };
+
+  // Keyboard handling for the closed trigger
+  const handleTriggerKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (isOpen) return;
+    switch (e.key) {
+      case 'Enter':
+      case ' ':
+      case 'ArrowDown':
+      case 'ArrowUp':
+        e.preventDefault();
+        open();
+        break;
+      default:
+        // Type-ahead opens the list on the matching country without selecting it
+        if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+          const match = findTypeaheadMatch(e.key);
+          if (match) {
+            e.preventDefault();
+            open(match);
+          }
+        }
+    }
+  };
+
+  // Keyboard handling for the search field while the dropdown is open
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const lastIndex = filteredCountries.length - 1;
+    const moveTo = (index: number) => {
+      e.preventDefault();
+      setActiveIndex(Math.max(0, Math.min(lastIndex, index)));
+    };
+
+    switch (e.key) {
+      case 'ArrowDown':
+        moveTo(activeIndex + 1);
+        break;
+      case 'ArrowUp':
+        moveTo(activeIndex - 1);
+        break;
+      case 'Home':
+        moveTo(0);
+        break;
+      case 'End':
+        moveTo(lastIndex);
+        break;
+      case 'PageDown':
+        moveTo(activeIndex + PAGE_SIZE);
+        break;
+      case 'PageUp':
+        moveTo(activeIndex - PAGE_SIZE);
+        break;
+      case 'Enter':
+        e.preventDefault(); // Keep Enter from submitting the surrounding form
+        if (activeCountry) {
+          selectCountry(activeCountry, 'keyboard');
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        close(true);
+        break;
+      case 'Tab':
+        close(false);
+        break;
+    }
+  };
+
+  // Updates the search term and resets the active option to the first result
+  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const query = e.target.value.trim();
+    setSearchTerm(e.target.value);
+    setActiveIndex(0);
+
+    // Report a search that matches nothing once, not on every further keystroke
+    if (query && filteredCountries.length > 0 && searchCountries(searchIndex, query).length === 0) {
+      track({ type: 'search_no_results', queryLength: query.length, isNumeric: /^[+\d\s-]+$/.test(query) });
+    }
+  };
+
+  // Automatically selects the default country if no country is selected initially
+  useEffect(() => {
+    if (countriesArray.length > 0 && !selectedCountry) {
+      const country = resolveDefaultCountry(countriesArray, defaultCountry);
+      if (country) {
+        onSelectCountry(country);
+        track({ type: 'country_selected', country: country.iso, method: 'default' });
+      }
+    }
+  }, [countriesArray, selectedCountry, onSelectCountry, defaultCountry, track]);
+
+  // Empty while closed, so the live region, which stays mounted, announces the count on opening
+  const resultCount = filteredCountries.length;
+  const statusMessage = !isOpen
+    ? ''
+    : resultCount === 0
+      ? t('countrySelector.noResults')
+      : t('countrySelector.results', { count: resultCount });
+
+  // The selected country with its localized name, for display
+  const localizedSelection = selectedCountry
+    ? localizedCountries.find(({ iso }) => iso === selectedCountry.iso) ?? selectedCountry
+    : null;
+
+  const getRootProps = <T extends HTMLElement = HTMLDivElement>(props?: GetterProps<T>) =>
+    mergeProps<T>({ ref: rootRef as React.Ref<T> }, props);
+
+  const getTriggerProps = (props?: GetterProps<HTMLButtonElement>) => mergeProps<HTMLButtonElement>({
+    ref: triggerRef,
+    type: 'button',
+    onClick: toggle,
+    onKeyDown: handleTriggerKeyDown,
+    'aria-haspopup': 'listbox',
+    'aria-expanded': isOpen,
+    'aria-controls': isOpen ? listboxId : undefined,
+    'aria-label': selectedCountry
+      ? t('countrySelector.trigger', { name: countryName(selectedCountry), code: selectedCountry.calling_code })
+      : t('countrySelector.empty'),
+  } as GetterProps<HTMLButtonElement>, props);
+
+  const getSearchProps = (props?: GetterProps<HTMLInputElement>) => mergeProps<HTMLInputElement>({
+    ref: searchInputRef,
+    type: 'text',
+    role: 'combobox',
+    placeholder: t('countrySelector.searchPlaceholder'),
+    value: searchTerm,
+    onChange: handleSearchChange,
+    onKeyDown: handleSearchKeyDown,
+    'aria-label': t('countrySelector.searchLabel'),
+    'aria-expanded': true,
+    'aria-controls': listboxId,
+    'aria-autocomplete': 'list',
+    'aria-activedescendant': activeCountry ? getOptionId(activeCountry) : undefined,
+  } as GetterProps<HTMLInputElement>, props);
+
+  const getListContainerProps = <T extends HTMLElement = HTMLDivElement>(props?: GetterProps<T>) =>
+    mergeProps<T>(virtualize ? { ref: containerRef as React.Ref<T>, onScroll } : {}, props);
+
+  const getListboxProps = <T extends HTMLElement = HTMLUListElement>(props?: GetterProps<T>) => mergeProps<T>({
+    id: listboxId,
+    role: 'listbox',
+    'aria-label': t('countrySelector.list'),
+    style: virtualize ? { height: totalHeight } : undefined,
+  }, props);
+
+  const getOptionProps = <T extends HTMLElement = HTMLLIElement>(item: CountrySelectorItem, props?: GetterProps<T>) =>
+    mergeProps<T>({
+      id: getOptionId(item.country),
+      role: 'option',
+      'aria-selected': item.isSelected,
+      'aria-setsize': searchResults.length,
+      'aria-posinset': item.index + 1,
+      style: virtualize ? { top: item.index * itemHeight } : undefined,
+      onClick: () => selectCountry(item.country, 'click'),
+      onMouseMove: () => setActiveIndex(item.index),
+    }, props);
+
+  const getStatusProps = <T extends HTMLElement = HTMLDivElement>(props?: GetterProps<T>) =>
+    mergeProps<T>({ role: 'status', 'aria-live': 'polite' }, props);
+
+  return {
+    isOpen,
+    searchTerm,
+    selectedCountry: localizedSelection,
+    activeCountry,
+    items,
+    resultCount,
+    statusMessage,
+    open,
+    close,
+    toggle,
+    selectCountry,
+    getRootProps,
+    getTriggerProps,
+    getSearchProps,
+    getListContainerProps,
+    getListboxProps,
+    getOptionProps,
+    getStatusProps,
+  };
+};
+
+export type CountrySelectorState = ReturnType<typeof useCountrySelector>;
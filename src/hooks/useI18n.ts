@@ -0,0 +1,15 @@
+import { useContext } from 'react';
+import { I18nContext } from '../components/I18nProvider';
+
+/**
+ * useI18n is a custom React hook that returns the translator of the
+ * nearest I18nProvider, or the English translator outside one.
+ *
+ * @returns {Object} - An object containing:
+ * - locale: The current locale.
+ * - direction: "ltr" or "rtl".
+ * - t: Formats a message by key, e.g. `t('validation.length', { count: 10 })`.
+ * - countryName: The localized name of a country.
+ * - setLocale: Switches the UI to another locale.
+ */
+export const useI18n = () => useContext(I18nContext);
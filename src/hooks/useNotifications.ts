@@ -0,0 +1,20 @@
+import { useContext } from 'react';
+import { NotificationContext } from '../components/NotificationProvider';
+
+/**
+ * useNotifications is a custom React hook that returns the functions of
+ * the nearest NotificationProvider.
+ *
+ * @returns {Object} - An object containing:
+ * - notify: Shows a toast or banner and returns its id.
+ * - dismiss: Closes a notification by id.
+ *
+ * @throws {Error} - Throws an error if used outside a NotificationProvider.
+ */
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (!context) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
@@ -0,0 +1,166 @@
+import React from "react";
+import { act } from "@testing-library/react";
+import { usePhoneForm, PhoneFormOptions } from "./usePhoneForm";
+import { MOCK_COUNTRIES } from "../mocks/fixtures";
+import { renderHookWithProviders } from "../mocks/testUtils";
+import { createPhoneInputValue } from "../utils/phoneValue";
+
+const country = (iso: string) => ({ ...MOCK_COUNTRIES[iso], iso });
+
+// A phone form with a country selected, as after the selector's default selection
+const renderPhoneForm = (iso: string, options?: PhoneFormOptions, locale?: string) => {
+  const view = renderHookWithProviders(() => usePhoneForm(MOCK_COUNTRIES, options), { locale });
+  act(() => view.result.current.handleCountryChange(country(iso)));
+  return view;
+};
+
+// Simulates typing, pasting or autofilling text into the phone field
+const typeNumber = (form: ReturnType<typeof usePhoneForm>, value: string) => {
+  act(() => form.handlePhoneChange({ target: { value } } as React.ChangeEvent<HTMLInputElement>));
+};
+
+describe("usePhoneForm", () => {
+  describe("formatting", () => {
+    it("formats US numbers with the NANP mask", () => {
+      const { result } = renderPhoneForm("US");
+
+      typeNumber(result.current, "2015550123");
+
+      expect(result.current.phoneNumber).toBe("(201) 555-0123");
+      expect(result.current.parsedNumber).toMatchObject({ nationalNumber: "2015550123", e164: "+12015550123" });
+    });
+
+    it("formats partial numbers as they are typed", () => {
+      const { result } = renderPhoneForm("US");
+
+      typeNumber(result.current, "2015");
+
+      expect(result.current.phoneNumber).toBe("(201) 5");
+    });
+
+    it("picks the grouping pattern by leading digits", () => {
+      const { result } = renderPhoneForm("GB");
+
+      typeNumber(result.current, "7400123456");
+      expect(result.current.phoneNumber).toBe("7400 123456");
+
+      typeNumber(result.current, "2071234567");
+      expect(result.current.phoneNumber).toBe("20 7123 4567");
+    });
+
+    it("drops the trunk prefix", () => {
+      const { result } = renderPhoneForm("FR");
+
+      typeNumber(result.current, "0612345678");
+
+      expect(result.current.phoneNumber).toBe("6 12 34 56 78");
+      expect(result.current.parsedNumber?.e164).toBe("+33612345678");
+    });
+
+    it("switches to the country of a pasted international number", () => {
+      const { result } = renderPhoneForm("US");
+
+      typeNumber(result.current, "+33 6 12 34 56 78");
+
+      expect(result.current.selectedCountry?.iso).toBe("FR");
+      expect(result.current.parsedNumber?.nationalNumber).toBe("612345678");
+    });
+
+    it("uses the country's placeholder mask", () => {
+      const { result } = renderPhoneForm("FR");
+
+      expect(result.current.placeholderMask).toMatch(/^\d \d{2} \d{2} \d{2} \d{2}$/);
+    });
+
+    it("clears the number when the country changes", () => {
+      const { result } = renderPhoneForm("US");
+      typeNumber(result.current, "2015550123");
+
+      act(() => result.current.handleCountryChange(country("FR")));
+
+      expect(result.current.phoneNumber).toBe("");
+      expect(result.current.error).toBeNull();
+    });
+  });
+
+  describe("validation", () => {
+    it("disables submission until a country is selected", () => {
+      const { result } = renderHookWithProviders(() => usePhoneForm(MOCK_COUNTRIES));
+
+      expect(result.current.isSubmitDisabled).toBe(true);
+      expect(result.current.error).toBeNull();
+    });
+
+    it("shows no error before the user types", () => {
+      const { result } = renderPhoneForm("US");
+
+      expect(result.current.error).toBeNull();
+      expect(result.current.isSubmitDisabled).toBe(true);
+    });
+
+    it("reports numbers that are too short", () => {
+      const { result } = renderPhoneForm("US");
+
+      typeNumber(result.current, "201555");
+
+      expect(result.current.error).toBe("Phone number must be 10 digits long.");
+      expect(result.current.isSubmitDisabled).toBe(true);
+    });
+
+    it("reports invalid leading digits", () => {
+      const { result } = renderPhoneForm("US");
+
+      typeNumber(result.current, "1015550123");
+
+      expect(result.current.error).toMatch(/cannot start with/);
+    });
+
+    it("accepts a complete, valid number", () => {
+      const { result } = renderPhoneForm("US");
+
+      typeNumber(result.current, "2015550123");
+
+      expect(result.current.error).toBeNull();
+      expect(result.current.isSubmitDisabled).toBe(false);
+      expect(result.current.value.isValid).toBe(true);
+    });
+
+    it("reports errors in the current locale", () => {
+      const { result } = renderPhoneForm("US", undefined, "es");
+
+      typeNumber(result.current, "201555");
+
+      expect(result.current.error).not.toBe("Phone number must be 10 digits long.");
+      expect(result.current.error).toMatch(/10/);
+    });
+
+    it("detects the number type of complete numbers", () => {
+      const { result } = renderPhoneForm("GB");
+
+      typeNumber(result.current, "74001234");
+      expect(result.current.numberType).toBeNull();
+
+      typeNumber(result.current, "7400123456");
+      expect(result.current.numberType).toBe("mobile");
+    });
+
+    it("rejects number types that are not allowed", () => {
+      const { result } = renderPhoneForm("FR", { allowedTypes: ["mobile"] });
+
+      typeNumber(result.current, "123456789");
+
+      expect(result.current.numberType).toBe("fixed_line");
+      expect(result.current.error).toBe("This looks like a landline number. Please enter a mobile number.");
+      expect(result.current.isSubmitDisabled).toBe(true);
+    });
+
+    it("does not show an error when PhoneInput only selects a country", () => {
+      const { result } = renderHookWithProviders(() => usePhoneForm(MOCK_COUNTRIES));
+
+      act(() => result.current.handleValueChange(createPhoneInputValue(country("DE"), "")));
+
+      expect(result.current.selectedCountry?.iso).toBe("DE");
+      expect(result.current.error).toBeNull();
+    });
+  });
+});
@@ -1,84 +1,130 @@
-import { useState, useMemo, useCallback } from 'react';
-import { CountryWithISO } from '../types';
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import { Country, CountryWithISO, PhoneInputValue } from '../types';
+import {
+  formatPhoneNumber,
+  getPhoneNumberType,
+  getPlaceholderMask,
+  normalizeNationalNumber,
+  PhoneNumberType,
+  validatePhoneNumber,
+} from '../utils/phoneMetadata';
+import { ParsedPhoneNumber } from '../utils/parsePhoneNumber';
+import { createPhoneInputValue, readPhoneInput } from '../utils/phoneValue';
+import { useI18n } from './useI18n';
+
+/**
+ * Interface: PhoneFormOptions
+ *
+ * Options for usePhoneForm.
+ */
+export interface PhoneFormOptions {
+  allowedTypes?: PhoneNumberType[]; // Number types that can be submitted, e.g. ['mobile'] for SMS; any type when omitted
+}
 
 /**
  * usePhoneForm is a custom React hook that manages the state and logic 
  * for a phone number input form, including formatting, validation, and 
  * country selection.
  * 
+ * @param {Record<string, Country>} [countries] - The countries returned by
+ * useCountries, used to detect the country of pasted or autofilled
+ * international numbers.
+ * @param {PhoneFormOptions} [options] - `allowedTypes` restricts the accepted
+ * number types; a complete number of another type disables submission and
+ * shows an inline message.
+ * 
  * @returns {Object} - An object containing phone form state and handlers:
  * - selectedCountry: The currently selected country object.
  * - phoneNumber: The formatted phone number input by the user.
+ * - parsedNumber: The country, national number and E.164 form of the input.
+ * - numberType: The detected type of the number (mobile, fixed_line, ...), or null while incomplete.
  * - placeholderMask: The placeholder mask for the phone number input.
  * - handlePhoneChange: Handler function for phone number input changes.
  * - handleCountryChange: Handler function for country selection changes.
+ * - value: The input as a PhoneInputValue, for the PhoneInput component.
+ * - handleValueChange: Handler function for PhoneInput changes.
  * - isSubmitDisabled: Boolean indicating if the submit button should be disabled.
- * - error: Error message related to phone number validation.
+ * - error: Error message related to phone number validation, in the
+ *   locale of the nearest I18nProvider.
  */
-export const usePhoneForm = () => {
-  // State for storing the selected country, phone number, and validation error.
+export const usePhoneForm = (countries?: Record<string, Country>, { allowedTypes }: PhoneFormOptions = {}) => {
+  // State for storing the selected country, phone number, and whether to show validation errors.
   const [selectedCountry, setSelectedCountry] = useState<CountryWithISO | null>(null);
   const [phoneNumber, setPhoneNumber] = useState("");
-  const [error, setError] = useState<string | null>(null);
-
-  /**
-   * Formats the phone number based on user input and the selected country's 
-   * phone number length.
-   * 
-   * @param {string} value - The raw input value from the phone number field.
-   * @param {number} phoneLength - The required length of the phone number.
-   * @returns {string} - The formatted phone number string.
-   */
-  const formatPhoneNumber = useCallback((value: string, phoneLength: number) => {
-    const digits = value.replace(/\D/g, ""); // Remove non-digit characters
-    let formatted = "";
+  const [isErrorVisible, setIsErrorVisible] = useState(false);
+  const translator = useI18n();
 
-    // Format based on the length of the digits
-    if (digits.length <= 3) {
-      formatted = `(${digits}`; // Initial area code
-    } else if (digits.length <= 6) {
-      formatted = `(${digits.slice(0, 3)}) ${digits.slice(3)}`; // Area code + first part of the number
-    } else {
-      formatted = `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6, phoneLength)}`; // Full formatting
-    }
+  // Compare by value so inline arrays do not invalidate the memos below
+  const allowedTypesKey = allowedTypes?.join(',');
+  const acceptedTypes = useMemo(
+    () => (allowedTypesKey === undefined ? undefined : (allowedTypesKey.split(',') as PhoneNumberType[])),
+    [allowedTypesKey]
+  );
 
-    return formatted; // Return formatted phone number
-  }, []);
+  // Keep the selected country in sync when the countries are replaced, e.g. when
+  // network data arrives after the cached or bundled list
+  useEffect(() => {
+    if (!countries) return;
+    setSelectedCountry((current) => {
+      const updated = current && countries[current.iso];
+      if (!updated || updated.id === current.id) return current;
+      return { ...updated, iso: current.iso };
+    });
+  }, [countries]);
 
   /**
    * Generates a placeholder mask for the phone number input based on the 
-   * selected country's phone number length.
+   * selected country's numbering plan.
    * 
    * @returns {string} - The placeholder mask string.
    */
   const placeholderMask = useMemo(() => {
     if (!selectedCountry) return "(000) 000-0000"; // Default placeholder
-    const length = parseInt(selectedCountry.phone_length, 10);
-    return `(${"0".repeat(3)}) ${"0".repeat(3)}-${"0".repeat(Math.max(0, length - 6))}`; // Dynamic placeholder
+    return getPlaceholderMask(selectedCountry); // Dynamic placeholder
   }, [selectedCountry]);
 
   /**
    * Handles changes to the phone number input, updating the state and 
-   * validating the input.
+   * validating the input. Numbers starting with "+" or "00" (typically 
+   * pasted or autofilled) switch to the country of their calling code.
    * 
    * @param {React.ChangeEvent<HTMLInputElement>} e - The change event 
    * from the phone number input.
    */
   const handlePhoneChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const inputValue = e.target.value.replace(/\D/g, ""); // Extract digits
-    if (!selectedCountry) return;
+    const next = readPhoneInput(e.target.value, selectedCountry, countries);
+    if (!next) return;
 
-    const phoneLength = parseInt(selectedCountry.phone_length, 10);
-    const formatted = formatPhoneNumber(inputValue, phoneLength);
-    setPhoneNumber(formatted); // Update formatted phone number
+    setSelectedCountry(next.country); // Switch to the detected country, if any
+    setPhoneNumber(formatPhoneNumber(next.nationalNumber, next.country)); // Update formatted phone number
+    setIsErrorVisible(true); // Validate length and leading digits from now on
+  }, [selectedCountry, countries]);
 
-    // Validate phone number length
-    if (inputValue.length !== phoneLength) {
-      setError(`Phone number must be ${phoneLength} digits long.`); // Set error if length is incorrect
-    } else {
-      setError(null); // Clear error if valid
-    }
-  }, [selectedCountry, formatPhoneNumber]);
+  /**
+   * The current input as a typed object with its country, national number 
+   * and E.164 form, or null when no country is selected.
+   */
+  const parsedNumber = useMemo((): ParsedPhoneNumber | null => {
+    if (!selectedCountry) return null;
+    const callingCode = selectedCountry.calling_code.replace(/\D/g, "");
+    const nationalNumber = normalizeNationalNumber(phoneNumber, selectedCountry);
+    return {
+      country: selectedCountry,
+      callingCode,
+      nationalNumber,
+      e164: `+${callingCode}${nationalNumber}`,
+    };
+  }, [selectedCountry, phoneNumber]);
+
+  /**
+   * The type of the current number, once it is long enough to be valid.
+   */
+  const numberType = useMemo((): PhoneNumberType | null => {
+    if (!selectedCountry || !parsedNumber) return null;
+    const { nationalNumber } = parsedNumber;
+    if (validatePhoneNumber(nationalNumber, selectedCountry) !== null) return null;
+    return getPhoneNumberType(nationalNumber, selectedCountry);
+  }, [selectedCountry, parsedNumber]);
 
   /**
    * Updates the selected country and resets phone number and error state 
@@ -89,30 +135,66 @@ export const usePhoneForm = () => {
   const handleCountryChange = useCallback((country: CountryWithISO) => {
     setSelectedCountry(country); // Update selected country
     setPhoneNumber(""); // Reset phone number
-    setError(null); // Clear any existing errors
+    setIsErrorVisible(false); // Clear any existing errors
   }, []);
 
+  /**
+   * The current input as a PhoneInputValue, for use with the PhoneInput 
+   * component in controlled mode.
+   */
+  const value = useMemo(
+    () => createPhoneInputValue(selectedCountry, parsedNumber?.nationalNumber ?? ""),
+    [selectedCountry, parsedNumber]
+  );
+
+  /**
+   * Handles changes emitted by the PhoneInput component. Switching country 
+   * clears the validation error, like handleCountryChange.
+   * 
+   * @param {PhoneInputValue} next - The new value.
+   */
+  const handleValueChange = useCallback((next: PhoneInputValue) => {
+    const { country, nationalNumber } = next;
+    const isCountryChange = country?.iso !== selectedCountry?.iso;
+    setSelectedCountry(country);
+    setPhoneNumber(country && nationalNumber ? formatPhoneNumber(nationalNumber, country) : "");
+    setIsErrorVisible(!!country && !(isCountryChange && !nationalNumber));
+  }, [selectedCountry]);
+
   /**
    * Determines if the submit button should be disabled based on the 
-   * selected country and the current phone number length.
+   * selected country and the validity of the current phone number.
    * 
    * @returns {boolean} - True if the submit button should be disabled, 
    * false otherwise.
    */
   const isSubmitDisabled = useMemo(() => {
     if (!selectedCountry) return true; // Disable if no country is selected
-    const requiredLength = parseInt(selectedCountry.phone_length, 10);
-    const currentLength = phoneNumber.replace(/\D/g, "").length; // Count actual digits
-    return currentLength < requiredLength; // Disable if length is insufficient
-  }, [selectedCountry, phoneNumber]);
+    const digits = normalizeNationalNumber(phoneNumber, selectedCountry); // Count actual digits
+    return validatePhoneNumber(digits, selectedCountry, undefined, acceptedTypes) !== null; // Disable if the number is invalid
+  }, [selectedCountry, phoneNumber, acceptedTypes]);
+
+  /**
+   * The validation message for the current number, formatted when read so
+   * that it follows locale switches.
+   */
+  const error = useMemo(() => {
+    if (!isErrorVisible || !selectedCountry) return null;
+    const digits = normalizeNationalNumber(phoneNumber, selectedCountry);
+    return validatePhoneNumber(digits, selectedCountry, translator, acceptedTypes);
+  }, [isErrorVisible, selectedCountry, phoneNumber, translator, acceptedTypes]);
 
   // Return the state and handlers for use in components.
   return {
     selectedCountry,
     phoneNumber,
+    parsedNumber,
+    numberType,
+    value,
     placeholderMask,
     handlePhoneChange,
     handleCountryChange,
+    handleValueChange,
     isSubmitDisabled,
     error,
   };
@@ -0,0 +1,177 @@
+import { act } from "@testing-library/react";
+import { PhoneListOptions, usePhoneList } from "./usePhoneList";
+import { MOCK_COUNTRIES } from "../mocks/fixtures";
+import { renderHookWithProviders } from "../mocks/testUtils";
+import { createPhoneInputValue } from "../utils/phoneValue";
+
+const country = (iso: string) => ({ ...MOCK_COUNTRIES[iso], iso });
+
+const US_NUMBER = createPhoneInputValue(country("US"), "2015550123");
+const CA_NUMBER = createPhoneInputValue(country("CA"), "2015550123");
+const GB_NUMBER = createPhoneInputValue(country("GB"), "7400123456");
+
+const renderPhoneList = (options?: PhoneListOptions) => renderHookWithProviders(() => usePhoneList(options));
+
+// The ids of the entries, in order
+const ids = (list: ReturnType<typeof usePhoneList>) => list.entries.map((entry) => entry.id);
+
+describe("usePhoneList", () => {
+  describe("duplicates", () => {
+    it("flags every entry after the first with the same E.164 number", () => {
+      const { result } = renderPhoneList({ initialEntries: [{ value: US_NUMBER }, { value: GB_NUMBER }, {}] });
+      const [first, , third] = ids(result.current);
+
+      act(() => result.current.setValue(third, US_NUMBER));
+
+      const entries = result.current.entries;
+      expect(entries[0]).toMatchObject({ duplicateOf: null, error: null });
+      expect(entries[1]).toMatchObject({ duplicateOf: null, error: null });
+      expect(entries[2]).toMatchObject({ duplicateOf: first, error: "This number is already in the list." });
+      expect(result.current.hasDuplicates).toBe(true);
+      expect(result.current.isValid).toBe(false);
+    });
+
+    it("compares the E.164 numbers, not the digits", () => {
+      const { result } = renderPhoneList({ initialEntries: [{ value: US_NUMBER }, { value: GB_NUMBER }] });
+
+      act(() => result.current.setValue(ids(result.current)[1], CA_NUMBER));
+
+      // +1 is shared by the US and Canada, so the E.164 numbers are the same
+      expect(result.current.entries[1].duplicateOf).toBe(ids(result.current)[0]);
+
+      act(() => result.current.setValue(ids(result.current)[1], createPhoneInputValue(country("GB"), "2015550123")));
+      expect(result.current.hasDuplicates).toBe(false);
+    });
+
+    it("clears the flag once the first entry changes", () => {
+      const { result } = renderPhoneList({ initialEntries: [{ value: US_NUMBER }, { value: US_NUMBER }] });
+      expect(result.current.hasDuplicates).toBe(true);
+
+      act(() => result.current.setValue(ids(result.current)[0], GB_NUMBER));
+
+      expect(result.current.hasDuplicates).toBe(false);
+      expect(result.current.isValid).toBe(true);
+    });
+  });
+
+  describe("primary entry", () => {
+    it("makes the first entry primary", () => {
+      const { result } = renderPhoneList({ initialEntries: [{ label: "Home" }, { label: "Work" }] });
+
+      expect(result.current.primaryEntry?.label).toBe("Home");
+    });
+
+    it("hands the primary role to the first remaining entry when the primary one is removed", () => {
+      const { result } = renderPhoneList({ initialEntries: [{ label: "Home" }, { label: "Work" }, { label: "Mobile" }] });
+      const [home, work] = ids(result.current);
+      act(() => result.current.setPrimary(work));
+
+      act(() => result.current.removeEntry(work));
+      expect(result.current.primaryEntry?.id).toBe(home);
+
+      act(() => result.current.removeEntry(home));
+      expect(result.current.primaryEntry?.label).toBe("Mobile");
+    });
+
+    it("keeps the primary entry when another one is removed", () => {
+      const { result } = renderPhoneList({ initialEntries: [{ label: "Home" }, { label: "Work" }] });
+      const [home, work] = ids(result.current);
+      act(() => result.current.setPrimary(work));
+
+      act(() => result.current.removeEntry(home));
+
+      expect(result.current.primaryEntry?.id).toBe(work);
+    });
+
+    it("has no primary entry once the list is empty, and gives it to the next one added", () => {
+      const { result } = renderPhoneList();
+
+      act(() => result.current.removeEntry(ids(result.current)[0]));
+      expect(result.current.primaryEntry).toBeNull();
+
+      let added: string | null = null;
+      act(() => {
+        added = result.current.addEntry({ label: "Work" });
+      });
+      expect(result.current.primaryEntry?.id).toBe(added);
+    });
+
+    it("ignores unknown ids", () => {
+      const { result } = renderPhoneList({ initialEntries: [{ label: "Home" }] });
+
+      act(() => result.current.setPrimary("missing"));
+
+      expect(result.current.primaryEntry?.label).toBe("Home");
+    });
+  });
+
+  describe("moveEntry", () => {
+    it("moves an entry to another position", () => {
+      const { result } = renderPhoneList({ initialEntries: [{ label: "A" }, { label: "B" }, { label: "C" }] });
+      const [a, b, c] = ids(result.current);
+
+      act(() => result.current.moveEntry(c, 0));
+
+      expect(ids(result.current)).toEqual([c, a, b]);
+    });
+
+    it("clamps positions outside the list", () => {
+      const { result } = renderPhoneList({ initialEntries: [{ label: "A" }, { label: "B" }, { label: "C" }] });
+      const [a, b, c] = ids(result.current);
+
+      act(() => result.current.moveEntry(b, -1));
+      expect(ids(result.current)).toEqual([b, a, c]);
+
+      act(() => result.current.moveEntry(b, 10));
+      expect(ids(result.current)).toEqual([a, c, b]);
+    });
+
+    it("leaves the list alone for unknown ids and moves onto the same position", () => {
+      const { result } = renderPhoneList({ initialEntries: [{ label: "A" }, { label: "B" }] });
+      const entries = result.current.entries;
+
+      act(() => result.current.moveEntry("missing", 0));
+      act(() => result.current.moveEntry(entries[1].id, 1));
+      act(() => result.current.moveEntry(entries[1].id, 5));
+
+      expect(result.current.entries).toBe(entries);
+    });
+
+    it("keeps the primary entry when moving", () => {
+      const { result } = renderPhoneList({ initialEntries: [{ label: "A" }, { label: "B" }] });
+      const [a] = ids(result.current);
+
+      act(() => result.current.moveEntry(a, 1));
+
+      expect(result.current.primaryEntry?.id).toBe(a);
+    });
+  });
+
+  describe("maxEntries", () => {
+    it("refuses entries beyond the maximum", () => {
+      const { result } = renderPhoneList({ maxEntries: 2 });
+      expect(result.current.canAdd).toBe(true);
+
+      let added: Array<string | null> = [];
+      act(() => {
+        added = [result.current.addEntry()];
+      });
+      expect(added[0]).not.toBeNull();
+      expect(result.current.canAdd).toBe(false);
+
+      act(() => {
+        added = [result.current.addEntry()];
+      });
+      expect(added[0]).toBeNull();
+      expect(result.current.entries).toHaveLength(2);
+    });
+
+    it("allows adding again after a removal", () => {
+      const { result } = renderPhoneList({ initialEntries: [{}, {}], maxEntries: 2 });
+
+      act(() => result.current.removeEntry(ids(result.current)[1]));
+
+      expect(result.current.canAdd).toBe(true);
+    });
+  });
+});
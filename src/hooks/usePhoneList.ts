@@ -0,0 +1,244 @@
+import { useReducer, useMemo, useCallback, useRef } from 'react';
+import { PhoneInputValue } from '../types';
+import { PhoneNumberType, validatePhoneNumber } from '../utils/phoneMetadata';
+import { EMPTY_PHONE_INPUT_VALUE } from '../utils/phoneValue';
+import { useI18n } from './useI18n';
+
+/**
+ * Interface: PhoneListEntryInit
+ *
+ * An entry to start the list with.
+ */
+export interface PhoneListEntryInit {
+  label?: string;            // What the number is for, e.g. "Work"
+  value?: PhoneInputValue;   // The number and its country
+}
+
+/**
+ * Interface: PhoneListOptions
+ *
+ * Options for usePhoneList.
+ */
+export interface PhoneListOptions {
+  initialEntries?: PhoneListEntryInit[]; // The entries to start with; one empty entry by default
+  maxEntries?: number;                   // The most entries the list accepts
+  allowedTypes?: PhoneNumberType[];      // Number types accepted by validation; any type when omitted
+}
+
+/**
+ * Interface: PhoneListEntry
+ *
+ * An entry of the list with its validation state.
+ */
+export interface PhoneListEntry {
+  id: string;                  // Stable identifier, e.g. for React keys
+  label: string;               // What the number is for
+  value: PhoneInputValue;      // The number and its country
+  isPrimary: boolean;          // Whether this is the primary number
+  isTouched: boolean;          // Whether the number was edited, so errors are shown
+  duplicateOf: string | null;  // The id of an earlier entry with the same E.164 number
+  error: string | null;        // The validation or duplicate message, once touched
+}
+
+interface StoredEntry {
+  id: string;
+  label: string;
+  value: PhoneInputValue;
+  isTouched: boolean;
+}
+
+interface PhoneListState {
+  entries: StoredEntry[];
+  primaryId: string | null;
+}
+
+type PhoneListAction =
+  | { type: 'ADD'; entry: StoredEntry; maxEntries: number }
+  | { type: 'REMOVE'; id: string }
+  | { type: 'MOVE'; id: string; index: number }
+  | { type: 'SET_VALUE'; id: string; value: PhoneInputValue }
+  | { type: 'SET_LABEL'; id: string; label: string }
+  | { type: 'SET_PRIMARY'; id: string };
+
+let entryCount = 0;
+
+/**
+ * Creates a stored entry with a new id.
+ *
+ * @param {PhoneListEntryInit} [init] - The label and value of the entry.
+ * @returns {StoredEntry} - The entry, untouched.
+ */
+const createEntry = ({ label = '', value = EMPTY_PHONE_INPUT_VALUE }: PhoneListEntryInit = {}): StoredEntry => ({
+  id: `phone-${++entryCount}`,
+  label,
+  value,
+  isTouched: false,
+});
+
+const createInitialState = (initialEntries: PhoneListEntryInit[] = [{}]): PhoneListState => {
+  const entries = initialEntries.map(createEntry);
+  return { entries, primaryId: entries[0]?.id ?? null };
+};
+
+const updateEntry = (state: PhoneListState, id: string, patch: Partial<StoredEntry>): PhoneListState => ({
+  ...state,
+  entries: state.entries.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)),
+});
+
+const reducer = (state: PhoneListState, action: PhoneListAction): PhoneListState => {
+  switch (action.type) {
+    case 'ADD':
+      if (state.entries.length >= action.maxEntries) return state;
+      return {
+        entries: [...state.entries, action.entry],
+        primaryId: state.primaryId ?? action.entry.id,
+      };
+    case 'REMOVE': {
+      const entries = state.entries.filter((entry) => entry.id !== action.id);
+      // The first remaining entry takes over as primary
+      const primaryId = state.primaryId === action.id ? entries[0]?.id ?? null : state.primaryId;
+      return { entries, primaryId };
+    }
+    case 'MOVE': {
+      const from = state.entries.findIndex((entry) => entry.id === action.id);
+      const to = Math.min(Math.max(0, action.index), state.entries.length - 1);
+      if (from === -1 || from === to) return state;
+      const entries = [...state.entries];
+      const [entry] = entries.splice(from, 1);
+      entries.splice(to, 0, entry);
+      return { ...state, entries };
+    }
+    case 'SET_VALUE': {
+      // Like usePhoneForm: picking a country for an empty number does not show errors yet
+      const current = state.entries.find((entry) => entry.id === action.id);
+      const { country, nationalNumber } = action.value;
+      const isCountryChange = current?.value.country?.iso !== country?.iso;
+      return updateEntry(state, action.id, { value: action.value, isTouched: !!country && !(isCountryChange && !nationalNumber) });
+    }
+    case 'SET_LABEL':
+      return updateEntry(state, action.id, { label: action.label });
+    case 'SET_PRIMARY':
+      return state.entries.some((entry) => entry.id === action.id) ? { ...state, primaryId: action.id } : state;
+    default:
+      return state;
+  }
+};
+
+/**
+ * usePhoneList is a custom React hook that manages a list of phone
+ * numbers, e.g. the primary, home and work numbers of a contact. Each
+ * entry has its own country, label and validation state; one entry is
+ * the primary number. Numbers that appear twice in E.164 form are flagged
+ * on every entry after the first.
+ *
+ * Pair it with the PhoneListEditor component, whose rows share one
+ * countries dataset.
+ *
+ * @param {PhoneListOptions} [options] - Initial entries, a maximum and the accepted number types.
+ *
+ * @returns {Object} - An object containing the list state and actions:
+ * - entries: The entries in order, with their validation state.
+ * - primaryEntry: The primary entry, or null when the list is empty.
+ * - canAdd: Whether another entry may be added.
+ * - hasDuplicates: Whether any number appears twice.
+ * - isValid: Whether every entry holds a valid, unique number.
+ * - addEntry: Appends an entry and returns its id, or null when the list is full.
+ * - removeEntry: Removes an entry; the first remaining one becomes primary if needed.
+ * - moveEntry: Moves an entry to another position.
+ * - setValue: Stores a PhoneInput value for an entry.
+ * - setLabel: Renames an entry.
+ * - setPrimary: Makes an entry the primary number.
+ */
+export const usePhoneList = ({ initialEntries, maxEntries = Infinity, allowedTypes }: PhoneListOptions = {}) => {
+  const [state, dispatch] = useReducer(reducer, initialEntries, createInitialState);
+  const translator = useI18n();
+  const previousEntries = useRef(new Map<string, PhoneListEntry>());
+
+  // Compare by value so inline arrays do not invalidate the memo below
+  const allowedTypesKey = allowedTypes?.join(',');
+
+  const entries = useMemo((): PhoneListEntry[] => {
+    const acceptedTypes = allowedTypesKey === undefined ? undefined : (allowedTypesKey.split(',') as PhoneNumberType[]);
+    const firstByNumber = new Map<string, string>();
+    const next = new Map<string, PhoneListEntry>();
+    const result = state.entries.map((entry) => {
+      const { country, nationalNumber, e164 } = entry.value;
+      let duplicateOf: string | null = null;
+      if (country && nationalNumber) {
+        duplicateOf = firstByNumber.get(e164) ?? null;
+        if (!duplicateOf) firstByNumber.set(e164, entry.id);
+      }
+
+      let error: string | null = null;
+      if (entry.isTouched) {
+        if (!nationalNumber) {
+          error = translator.t('validation.required');
+        } else if (!country) {
+          error = translator.t('validation.country');
+        } else {
+          error = validatePhoneNumber(nationalNumber, country, translator, acceptedTypes)
+            ?? (duplicateOf ? translator.t('phoneList.duplicate') : null);
+        }
+      }
+
+      const isPrimary = entry.id === state.primaryId;
+      // Keep unchanged entries identical so memoized rows skip rendering
+      const previous = previousEntries.current.get(entry.id);
+      const derived = previous
+        && previous.label === entry.label
+        && previous.value === entry.value
+        && previous.isTouched === entry.isTouched
+        && previous.isPrimary === isPrimary
+        && previous.duplicateOf === duplicateOf
+        && previous.error === error
+        ? previous
+        : { ...entry, isPrimary, duplicateOf, error };
+      next.set(entry.id, derived);
+      return derived;
+    });
+    previousEntries.current = next;
+    return result;
+  }, [state, translator, allowedTypesKey]);
+
+  const isValid = useMemo(() => {
+    const acceptedTypes = allowedTypesKey === undefined ? undefined : (allowedTypesKey.split(',') as PhoneNumberType[]);
+    return entries.every(({ value: { country, nationalNumber }, duplicateOf }) =>
+      !!country && validatePhoneNumber(nationalNumber, country, undefined, acceptedTypes) === null && !duplicateOf
+    );
+  }, [entries, allowedTypesKey]);
+
+  const canAdd = state.entries.length < maxEntries;
+
+  const addEntry = useCallback((init?: PhoneListEntryInit) => {
+    if (!canAdd) return null;
+    const entry = createEntry(init);
+    dispatch({ type: 'ADD', entry, maxEntries });
+    return entry.id;
+  }, [canAdd, maxEntries]);
+
+  const removeEntry = useCallback((id: string) => dispatch({ type: 'REMOVE', id }), []);
+
+  const moveEntry = useCallback((id: string, index: number) => dispatch({ type: 'MOVE', id, index }), []);
+
+  const setValue = useCallback((id: string, value: PhoneInputValue) => dispatch({ type: 'SET_VALUE', id, value }), []);
+
+  const setLabel = useCallback((id: string, label: string) => dispatch({ type: 'SET_LABEL', id, label }), []);
+
+  const setPrimary = useCallback((id: string) => dispatch({ type: 'SET_PRIMARY', id }), []);
+
+  return {
+    entries,
+    primaryEntry: entries.find((entry) => entry.isPrimary) ?? null,
+    canAdd,
+    hasDuplicates: entries.some((entry) => entry.duplicateOf !== null),
+    isValid,
+    addEntry,
+    removeEntry,
+    moveEntry,
+    setValue,
+    setLabel,
+    setPrimary,
+  };
+};
+
+export type PhoneList = ReturnType<typeof usePhoneList>;
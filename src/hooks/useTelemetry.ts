@@ -0,0 +1,25 @@
+import { useContext, useCallback, useRef, useEffect } from 'react';
+import { TelemetryContext } from '../components/TelemetryProvider';
+import { dispatchEvent, TelemetryEvent, TrackedEvent } from '../telemetry/events';
+
+/**
+ * useTelemetry is a custom React hook that returns a function emitting
+ * telemetry events to the nearest TelemetryProvider and, when given, to a
+ * component's own `onEvent` prop.
+ *
+ * @param {Function} [onEvent] - The component's `onEvent` prop.
+ * @returns {Function} - `track(event)`; a no-op when nobody listens.
+ */
+export const useTelemetry = (onEvent?: (event: TrackedEvent) => void) => {
+  const context = useContext(TelemetryContext);
+
+  // Read the prop through a ref so `track` keeps its identity across renders
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  return useCallback((event: TelemetryEvent) => {
+    dispatchEvent(event, [onEventRef.current, context.onEvent]);
+  }, [context]);
+};
@@ -0,0 +1,144 @@
+import { act, waitFor } from "@testing-library/react";
+import { useAccessToken } from "./useApi";
+import { TwoFactorAuthOptions, useTwoFactorAuth, useVerifyTwoFactorCode } from "./useTwoFactorAuth";
+import { createMockApi, MockScenario } from "../mocks/mockApi";
+import { MOCK_CODE, MOCK_CONFIG, MOCK_ENDPOINTS } from "../mocks/fixtures";
+import { renderHookWithProviders } from "../mocks/testUtils";
+import { FALLBACK_COUNTRIES } from "../data/fallbackCountries";
+
+// The code request and verification callbacks with a ready access token
+const renderTwoFactor = async (scenario?: MockScenario, options?: TwoFactorAuthOptions) => {
+  const mockApi = createMockApi({ scenarios: { twoFactorAuth: scenario, verifyTwoFactorAuth: scenario } });
+  const view = renderHookWithProviders(() => {
+    const { accessToken } = useAccessToken();
+    return {
+      accessToken,
+      sendCode: useTwoFactorAuth(accessToken, options),
+      verifyCode: useVerifyTwoFactorCode(accessToken),
+    };
+  }, { mockApi });
+  await waitFor(() => expect(view.result.current.accessToken).not.toBe(""));
+  return view;
+};
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("useTwoFactorAuth", () => {
+  it("sends the digits of the number and the country ID", async () => {
+    const { result, mockApi } = await renderTwoFactor();
+
+    const outcome = await act(() => result.current.sendCode("(201) 555-0123", "226"));
+
+    expect(outcome).toEqual({ success: true, error: null });
+    expect(mockApi.requests.at(-1)).toMatchObject({
+      endpoint: "twoFactorAuth",
+      method: "POST",
+      data: { phone_number: "2015550123", country_id: "226" },
+    });
+  });
+
+  it("fails without an access token and sends nothing", async () => {
+    const mockApi = createMockApi();
+    const { result } = renderHookWithProviders(() => useTwoFactorAuth(""), { mockApi });
+
+    const outcome = await act(() => result.current("2015550123", "226"));
+
+    expect(outcome.error?.kind).toBe("unauthorized");
+    expect(mockApi.requests.some(({ endpoint }) => endpoint === "twoFactorAuth")).toBe(false);
+  });
+
+  it("refuses countries from the fallback list and sends nothing", async () => {
+    const { result, mockApi } = await renderTwoFactor();
+
+    const sent = await act(() => result.current.sendCode("2015550123", FALLBACK_COUNTRIES.US.id));
+    const verified = await act(() => result.current.verifyCode("2015550123", FALLBACK_COUNTRIES.US.id, MOCK_CODE));
+
+    expect(sent.error?.kind).toBe("country_unavailable");
+    expect(verified.error?.kind).toBe("country_unavailable");
+    expect(mockApi.requests.some(({ endpoint }) => endpoint === "twoFactorAuth" || endpoint === "verifyTwoFactorAuth")).toBe(false);
+  });
+
+  it("shares one request between double submits", async () => {
+    const { result, mockApi } = await renderTwoFactor();
+
+    await act(() => Promise.all([
+      result.current.sendCode("2015550123", "226"),
+      result.current.sendCode("2015550123", "226"),
+    ]));
+
+    expect(mockApi.requests.filter(({ endpoint }) => endpoint === "twoFactorAuth")).toHaveLength(1);
+  });
+
+  it("attaches the challenge token", async () => {
+    const { result, mockApi } = await renderTwoFactor(undefined, { getChallengeToken: () => "captcha-token" });
+
+    await act(() => result.current.sendCode("2015550123", "226"));
+
+    expect(mockApi.requests.at(-1)?.data).toMatchObject({ challenge_token: "captcha-token" });
+  });
+
+  it("reports 429 responses with their Retry-After delay and blocks the number", async () => {
+    const { result, mockApi } = await renderTwoFactor("rate_limited");
+
+    const first = await act(() => result.current.sendCode("2015550123", "226"));
+    expect(first.error).toMatchObject({ kind: "rate_limited", retryAfter: 30 });
+
+    mockApi.setScenario("success");
+    const second = await act(() => result.current.sendCode("2015550123", "226"));
+    expect(second.error?.kind).toBe("rate_limited");
+    expect(mockApi.requests.filter(({ endpoint }) => endpoint === "twoFactorAuth")).toHaveLength(1);
+  });
+
+  it("reports server errors", async () => {
+    const { result } = await renderTwoFactor("server_error");
+
+    const outcome = await act(() => result.current.sendCode("2015550123", "226"));
+
+    expect(outcome.error).toMatchObject({ kind: "unknown", status: 500 });
+  });
+
+  it("rejects a malformed acknowledgement", async () => {
+    const { result } = await renderTwoFactor("malformed");
+
+    const outcome = await act(() => result.current.sendCode("2015550123", "226"));
+
+    expect(outcome.error?.kind).toBe("invalid_response");
+  });
+});
+
+describe("useVerifyTwoFactorCode", () => {
+  it("accepts the code that was sent", async () => {
+    const { result } = await renderTwoFactor();
+
+    const outcome = await act(() => result.current.verifyCode("2015550123", "226", MOCK_CODE));
+
+    expect(outcome).toEqual({ success: true, error: null });
+  });
+
+  it("reports a wrong code as a validation error on the code field", async () => {
+    const { result } = await renderTwoFactor();
+
+    const outcome = await act(() => result.current.verifyCode("2015550123", "226", "000000"));
+
+    expect(outcome.error).toMatchObject({ kind: "validation", fieldErrors: { code: ["is invalid"] } });
+  });
+
+  it("fails with a configuration error, without sending, when no verification endpoint is set", async () => {
+    const mockApi = createMockApi();
+    const { result } = renderHookWithProviders(() => useVerifyTwoFactorCode("mock-token-1"), {
+      mockApi,
+      config: { ...MOCK_CONFIG, endpoints: { ...MOCK_ENDPOINTS, verifyTwoFactorAuth: undefined } },
+    });
+
+    const outcome = await act(() => result.current("2015550123", "226", MOCK_CODE));
+
+    expect(outcome.error?.kind).toBe("configuration");
+    expect(mockApi.requests.some(({ endpoint }) => endpoint === "verifyTwoFactorAuth")).toBe(false);
+  });
+});
@@ -1,55 +1,187 @@
-import { useCallback } from 'react';
-import axios from 'axios';
-import { API_BASE_URL } from '../config';
+import { useCallback, useEffect, useRef } from 'react';
+import { useApiClient } from './useApiClient';
+import { ApiError, toApiError } from '../api/errors';
+import { decodeAcknowledgement } from '../api/decoders';
+import { checkSendLimit, recordRetryAfter, recordSend, SendLimitOptions } from '../utils/sendLimits';
+import { isFallbackCountryId } from '../data/fallbackCountries';
+
+/**
+ * Type: TwoFactorAuthResult
+ *
+ * The outcome of a two-factor authentication request: either accepted, or
+ * rejected with the classified error.
+ */
+export type TwoFactorAuthResult =
+  | { success: true; error: null }
+  | { success: false; error: ApiError };
+
+/**
+ * Type: ChallengeTokenProvider
+ *
+ * Supplies a CAPTCHA or other challenge token for a code request, e.g. by
+ * running an invisible reCAPTCHA or Turnstile check. Returning null or
+ * undefined sends the request without a token.
+ */
+export type ChallengeTokenProvider = (request: { phoneNumber: string; countryId: string }) =>
+  string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * Interface: TwoFactorAuthOptions
+ *
+ * Abuse protection for code requests.
+ */
+export interface TwoFactorAuthOptions {
+  limits?: SendLimitOptions;                   // Cooldown per number and cap per session
+  getChallengeToken?: ChallengeTokenProvider;  // Adds a `challenge_token` to the request payload
+}
+
+// Returned instead of sending a request that cannot be authorized
+const MISSING_TOKEN_ERROR: ApiError = { kind: 'unauthorized', message: 'Access token is not available' };
+
+// Returned instead of sending the ID of a bundled fallback country, which the API cannot resolve
+const FALLBACK_COUNTRY_ERROR: ApiError = {
+  kind: 'country_unavailable',
+  message: 'Country IDs from the bundled fallback list cannot be sent; wait for the API country list',
+};
+
+const MISSING_VERIFY_ENDPOINT_ERROR: ApiError = {
+  kind: 'configuration',
+  message: 'The two-factor code verification endpoint is not configured (endpoints.verifyTwoFactorAuth)',
+};
 
 /**
  * useTwoFactorAuth is a custom React hook that handles the submission of
  * a phone number and country ID for two-factor authentication.
- * 
+ *
+ * Every request sends an SMS, so the callback protects against repeats:
+ * - A request for a number that is already in flight is not sent again;
+ *   the caller shares the pending result.
+ * - Each number has a cooldown after a code was sent, doubling with every
+ *   further code, and the session has a cap (see SendLimitOptions).
+ * - A 429 response's `Retry-After` extends the number's cooldown.
+ * Requests blocked by these limits fail with a `rate_limited` error
+ * without reaching the API; `retryAfter` is null once the session cap is hit.
+ *
  * @param {string | null} accessToken - The access token used for authorization.
- * 
- * @returns {Function} - A callback function that performs the two-factor 
+ * @param {TwoFactorAuthOptions} [options] - Send limits and a challenge token provider.
+ *
+ * @returns {Function} - A callback function that performs the two-factor
  * authentication request:
- * 
+ *
  * - phoneNumber: The user's phone number to authenticate.
  * - countryId: The ID of the country associated with the phone number.
- * 
- * @throws {Error} - Throws an error if the access token is not available.
+ *
+ * The callback never throws: a missing access token resolves to an
+ * `unauthorized` failure, a country from the bundled fallback list to a
+ * `country_unavailable` failure, and request errors are classified as an ApiError.
  */
-export const useTwoFactorAuth = (accessToken: string | null) => {
-  return useCallback(async (phoneNumber: string, countryId: string) => {
-    // Check if access token is available
-    if (!accessToken) {
-      throw new Error('Access token is not available');
+export const useTwoFactorAuth = (accessToken: string | null, options: TwoFactorAuthOptions = {}) => {
+  const apiClient = useApiClient();
+  const inFlight = useRef(new Map<string, Promise<TwoFactorAuthResult>>());
+
+  // Read the options through a ref so inline objects keep the callback stable
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  const send = useCallback(async (phoneNumber: string, countryId: string): Promise<TwoFactorAuthResult> => {
+    const { limits, getChallengeToken } = optionsRef.current;
+    const check = checkSendLimit(phoneNumber, countryId, limits);
+    if (!check.allowed) {
+      return check.reason === 'cooldown'
+        ? { success: false, error: { kind: 'rate_limited', message: 'Code requested too recently for this number', retryAfter: check.retryAfter } }
+        : { success: false, error: { kind: 'rate_limited', message: 'Code request limit reached for this session', retryAfter: null } };
     }
     try {
-      // Send a POST request to the two-factor authentication endpoint
-      await axios.post(
-        `${API_BASE_URL}/challenges/two_factor_auth`, // API endpoint
-        {
+      const challengeToken = await getChallengeToken?.({ phoneNumber, countryId });
+      // Send a POST request to the two-factor authentication endpoint; the client
+      // attaches the current access token and retries once if it is rejected
+      const response = await apiClient.request<unknown>({
+        method: 'POST',
+        url: apiClient.endpoints.twoFactorAuth, // API endpoint
+        data: {
           phone_number: phoneNumber.replace(/\D/g, ""), // Format phone number by removing non-digit characters
           country_id: countryId, // Include the country ID
+          ...(challengeToken ? { challenge_token: challengeToken } : {}), // Proof the request comes from a person
         },
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`, // Set authorization header with access token
-          },
-        }
-      );
-      return { success: true }; // Return success response if request is successful
+      });
+      decodeAcknowledgement('two-factor authentication', response.data); // Reject non-JSON bodies
+      recordSend(phoneNumber, countryId, limits); // Start the cooldown for this number
+      return { success: true, error: null }; // Return success response if request is successful
     } catch (error) {
       console.error("Error submitting phone number:", error); // Log the error for debugging
-      // Check if the error is an Axios error
-      if (axios.isAxiosError(error)) {
-        return { 
-          success: false, 
-          message: error.response?.data?.message || error.message // Return error message from response or generic message
-        };
+      const apiError = toApiError(error);
+      if (apiError.kind === 'rate_limited' && apiError.retryAfter !== null) {
+        recordRetryAfter(phoneNumber, countryId, apiError.retryAfter);
       }
-      return { 
-        success: false, 
-        message: "An unexpected error occurred" // Return a generic error message for unexpected errors
-      };
+      return { success: false, error: apiError };
+    }
+  }, [apiClient]);
+
+  return useCallback((phoneNumber: string, countryId: string): Promise<TwoFactorAuthResult> => {
+    // Check if access token is available
+    if (!accessToken) {
+      return Promise.resolve({ success: false, error: MISSING_TOKEN_ERROR });
+    }
+    if (isFallbackCountryId(countryId)) {
+      return Promise.resolve({ success: false, error: FALLBACK_COUNTRY_ERROR });
+    }
+    // Share the pending request for the same number instead of sending another SMS
+    const key = `${countryId}:${phoneNumber.replace(/\D/g, '')}`;
+    const pending = inFlight.current.get(key);
+    if (pending) return pending;
+
+    const request = send(phoneNumber, countryId).finally(() => inFlight.current.delete(key));
+    inFlight.current.set(key, request);
+    return request;
+  }, [accessToken, send]); // Dependency array to recompute the callback if the client or accessToken changes
+};
+
+/**
+ * useVerifyTwoFactorCode is a custom React hook that checks the one-time
+ * code the user received against the two-factor authentication challenge.
+ *
+ * @param {string | null} accessToken - The access token used for authorization.
+ *
+ * @returns {Function} - A callback function that performs the verification request:
+ *
+ * - phoneNumber: The phone number the code was sent to.
+ * - countryId: The ID of the country associated with the phone number.
+ * - code: The one-time code entered by the user.
+ *
+ * Like useTwoFactorAuth, the callback resolves to a failure instead of throwing,
+ * and refuses countries from the bundled fallback list.
+ * Without a configured verification endpoint it resolves to a `configuration`
+ * failure and sends nothing.
+ */
+export const useVerifyTwoFactorCode = (accessToken: string | null) => {
+  const apiClient = useApiClient();
+  return useCallback(async (phoneNumber: string, countryId: string, code: string): Promise<TwoFactorAuthResult> => {
+    if (!apiClient.endpoints.verifyTwoFactorAuth) {
+      return { success: false, error: MISSING_VERIFY_ENDPOINT_ERROR };
+    }
+    if (!accessToken) {
+      return { success: false, error: MISSING_TOKEN_ERROR };
+    }
+    if (isFallbackCountryId(countryId)) {
+      return { success: false, error: FALLBACK_COUNTRY_ERROR };
+    }
+    try {
+      const response = await apiClient.request<unknown>({
+        method: 'POST',
+        url: apiClient.endpoints.verifyTwoFactorAuth,
+        data: {
+          phone_number: phoneNumber.replace(/\D/g, ""),
+          country_id: countryId,
+          code,
+        },
+      });
+      decodeAcknowledgement('two-factor verification', response.data);
+      return { success: true, error: null };
+    } catch (error) {
+      console.error("Error verifying code:", error);
+      return { success: false, error: toApiError(error) };
     }
-  }, [accessToken]); // Dependency array to recompute the callback if accessToken changes
-};
\ No newline at end of file
+  }, [apiClient, accessToken]);
+};
@@ -0,0 +1,124 @@
+import { act, waitFor } from "@testing-library/react";
+import { useAccessToken } from "./useApi";
+import { TwoFactorFlowOptions, useTwoFactorFlow } from "./useTwoFactorFlow";
+import { createMockApi, MockApi } from "../mocks/mockApi";
+import { MOCK_CODE } from "../mocks/fixtures";
+import { renderHookWithProviders } from "../mocks/testUtils";
+
+const WRONG_CODE = "000000";
+
+// The flow with a ready access token, before any code is requested
+const renderFlow = async (options: TwoFactorFlowOptions, mockApi = createMockApi()) => {
+  const view = renderHookWithProviders(() => {
+    const { accessToken } = useAccessToken();
+    return { accessToken, flow: useTwoFactorFlow(accessToken, options) };
+  }, { mockApi });
+  await waitFor(() => expect(view.result.current.accessToken).not.toBe(""));
+  return view;
+};
+
+// The flow with a ready access token and a code sent to a US number
+const renderFlowWithCode = async (options: TwoFactorFlowOptions, mockApi?: MockApi) => {
+  const view = await renderFlow(options, mockApi);
+  await act(() => view.result.current.flow.requestCode("2015550123", "226"));
+  return view;
+};
+
+const countRequests = (mockApi: MockApi, endpoint: string) =>
+  mockApi.requests.filter((request) => request.endpoint === endpoint).length;
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("useTwoFactorFlow", () => {
+  it("verifies the code sent to the number", async () => {
+    const { result, mockApi } = await renderFlowWithCode({});
+    expect(result.current.flow.status).toBe("code_sent");
+    expect(result.current.flow.phoneNumber).toBe("2015550123");
+
+    const outcome = await act(() => result.current.flow.verifyCode(MOCK_CODE));
+
+    expect(outcome).toEqual({ success: true, error: null });
+    expect(result.current.flow.status).toBe("verified");
+    expect(mockApi.requests.at(-1)).toMatchObject({
+      endpoint: "verifyTwoFactorAuth",
+      data: { phone_number: "2015550123", country_id: "226", code: MOCK_CODE },
+    });
+  });
+
+  it("uses an attempt for each wrong code and locks after the last one", async () => {
+    const { result, mockApi } = await renderFlowWithCode({ maxAttempts: 2, maxResends: 0 });
+
+    await act(() => result.current.flow.verifyCode(WRONG_CODE));
+    expect(result.current.flow.status).toBe("code_sent");
+    expect(result.current.flow.attemptsLeft).toBe(1);
+    expect(result.current.flow.error?.kind).toBe("validation");
+
+    await act(() => result.current.flow.verifyCode(WRONG_CODE));
+    expect(result.current.flow.status).toBe("locked");
+    expect(result.current.flow.lockReason).toBe("attempts");
+
+    const outcome = await act(() => result.current.flow.verifyCode(MOCK_CODE));
+    expect(outcome.success).toBe(false);
+    expect(countRequests(mockApi, "verifyTwoFactorAuth")).toBe(2);
+  });
+
+  it("gives a resent code a fresh set of attempts", async () => {
+    const { result, mockApi } = await renderFlowWithCode({ maxAttempts: 3, maxResends: 2, resendCooldown: 0, limits: { cooldown: 0 } });
+    await act(() => result.current.flow.verifyCode(WRONG_CODE));
+    await act(() => result.current.flow.verifyCode(WRONG_CODE));
+    expect(result.current.flow.attemptsLeft).toBe(1);
+
+    const outcome = await act(() => result.current.flow.resendCode());
+
+    expect(outcome).toEqual({ success: true, error: null });
+    expect(result.current.flow.attemptsLeft).toBe(3);
+    expect(result.current.flow.resendsLeft).toBe(1);
+    expect(result.current.flow.error).toBeNull();
+    expect(countRequests(mockApi, "twoFactorAuth")).toBe(2);
+  });
+
+  it("refuses to resend before the cooldown has elapsed", async () => {
+    const { result, mockApi } = await renderFlowWithCode({ resendCooldown: 30 });
+    expect(result.current.flow.resendIn).toBeGreaterThan(25);
+
+    const outcome = await act(() => result.current.flow.resendCode());
+
+    expect(outcome.error).toMatchObject({ kind: "rate_limited", retryAfter: result.current.flow.resendIn });
+    expect(result.current.flow.resendsLeft).toBe(3);
+    expect(countRequests(mockApi, "twoFactorAuth")).toBe(1);
+  });
+
+  it("keeps the send limits of a number across remounts", async () => {
+    const { unmount } = await renderFlowWithCode({});
+    unmount();
+
+    const mockApi = createMockApi();
+    const { result } = await renderFlowWithCode({}, mockApi);
+
+    expect(result.current.flow.status).toBe("phone");
+    expect(result.current.flow.error).toMatchObject({ kind: "rate_limited" });
+    expect(countRequests(mockApi, "twoFactorAuth")).toBe(0);
+  });
+
+  it("locks when the code expires and no resends are left", async () => {
+    const { result } = await renderFlowWithCode({ codeTtl: 1, maxResends: 0 });
+    expect(result.current.flow.status).toBe("code_sent");
+
+    await waitFor(() => expect(result.current.flow.status).toBe("locked"), { timeout: 3000 });
+    expect(result.current.flow.lockReason).toBe("expired");
+  });
+
+  it("keeps an expired code resendable while resends are left", async () => {
+    const { result } = await renderFlowWithCode({ codeTtl: 1, maxResends: 1 });
+
+    await waitFor(() => expect(result.current.flow.isExpired).toBe(true), { timeout: 3000 });
+    expect(result.current.flow.status).toBe("code_sent");
+    expect(result.current.flow.lockReason).toBeNull();
+  });
+});
@@ -0,0 +1,381 @@
+import { useReducer, useState, useEffect, useCallback, useRef } from 'react';
+import { useTwoFactorAuth, useVerifyTwoFactorCode, TwoFactorAuthOptions, TwoFactorAuthResult } from './useTwoFactorAuth';
+import { useI18n } from './useI18n';
+import { ApiError } from '../api/errors';
+import { useTelemetry } from './useTelemetry';
+import { getSendAvailableAt } from '../utils/sendLimits';
+
+/**
+ * Type: TwoFactorStatus
+ *
+ * The steps of the two-factor flow:
+ * phone -> code_sent -> verifying -> verified, or locked once the
+ * verification attempts or resends are exhausted.
+ */
+export type TwoFactorStatus = 'phone' | 'code_sent' | 'verifying' | 'verified' | 'locked';
+
+/**
+ * Type: TwoFactorLockReason
+ *
+ * Why the flow locked: the last code ran out of attempts, or it expired
+ * with no resends left.
+ */
+export type TwoFactorLockReason = 'attempts' | 'expired';
+
+/**
+ * Interface: TwoFactorFlowOptions
+ *
+ * Tunables for the two-factor flow. Durations are expressed in seconds.
+ * `limits` and `getChallengeToken` are passed on to useTwoFactorAuth.
+ */
+export interface TwoFactorFlowOptions extends TwoFactorAuthOptions {
+  codeLength?: number;      // Number of digits in the one-time code
+  maxAttempts?: number;     // Verification attempts allowed per code
+  maxResends?: number;      // Number of times a code can be resent
+  resendCooldown?: number;  // Minimum seconds to wait before a code can be resent
+  codeTtl?: number;         // Seconds before a sent code expires
+}
+
+interface TwoFactorState {
+  status: TwoFactorStatus;
+  phoneNumber: string;
+  countryId: string;
+  attemptsLeft: number;
+  resendsLeft: number;
+  expiresAt: number | null;
+  resendAvailableAt: number | null;
+  isSending: boolean;
+  error: ApiError | null;
+  lockReason: TwoFactorLockReason | null;
+}
+
+type TwoFactorAction =
+  | { type: 'SEND_START' }
+  | { type: 'SEND_SUCCESS'; phoneNumber: string; countryId: string; now: number; availableAt: number | null }
+  | { type: 'RESEND_SUCCESS'; now: number; availableAt: number | null }
+  | { type: 'SEND_FAILURE'; error: ApiError; now: number }
+  | { type: 'VERIFY_START' }
+  | { type: 'VERIFY_SUCCESS' }
+  | { type: 'VERIFY_FAILURE'; error: ApiError }
+  | { type: 'EXPIRE' }
+  | { type: 'RESET' };
+
+const DEFAULT_OPTIONS: Required<Omit<TwoFactorFlowOptions, keyof TwoFactorAuthOptions>> = {
+  codeLength: 6,
+  maxAttempts: 3,
+  maxResends: 3,
+  resendCooldown: 30,
+  codeTtl: 300,
+};
+
+/**
+ * Whether a failed verification uses up an attempt. Only an answer about
+ * the code itself does, not a request that never got one.
+ *
+ * @param {ApiError} error - The verification error.
+ * @returns {boolean} - True when the attempt counts.
+ */
+const usesAttempt = (error: ApiError) => !['network', 'timeout', 'rate_limited', 'configuration', 'country_unavailable'].includes(error.kind);
+
+const createInitialState = (options: typeof DEFAULT_OPTIONS): TwoFactorState => ({
+  status: 'phone',
+  phoneNumber: '',
+  countryId: '',
+  attemptsLeft: options.maxAttempts,
+  resendsLeft: options.maxResends,
+  expiresAt: null,
+  resendAvailableAt: null,
+  isSending: false,
+  error: null,
+  lockReason: null,
+});
+
+/**
+ * When a new code may be requested: after the flow's own cooldown, and
+ * not before the send limits allow it.
+ *
+ * @param {number} now - The current time in milliseconds.
+ * @param {number} cooldown - The flow's cooldown in seconds.
+ * @param {number | null} availableAt - When the send limits allow the next code, if known.
+ * @returns {number} - The time in milliseconds.
+ */
+const nextResendAt = (now: number, cooldown: number, availableAt: number | null) =>
+  Math.max(now + cooldown * 1000, availableAt ?? 0);
+
+const createReducer = (options: typeof DEFAULT_OPTIONS) =>
+  (state: TwoFactorState, action: TwoFactorAction): TwoFactorState => {
+    switch (action.type) {
+      case 'SEND_START':
+        return { ...state, isSending: true, error: null };
+      case 'SEND_SUCCESS':
+        return {
+          ...createInitialState(options),
+          status: 'code_sent',
+          phoneNumber: action.phoneNumber,
+          countryId: action.countryId,
+          expiresAt: action.now + options.codeTtl * 1000,
+          resendAvailableAt: nextResendAt(action.now, options.resendCooldown, action.availableAt),
+        };
+      case 'RESEND_SUCCESS':
+        // A fresh code gets a fresh set of attempts and a new expiry.
+        return {
+          ...state,
+          isSending: false,
+          attemptsLeft: options.maxAttempts,
+          resendsLeft: state.resendsLeft - 1,
+          expiresAt: action.now + options.codeTtl * 1000,
+          resendAvailableAt: nextResendAt(action.now, options.resendCooldown, action.availableAt),
+        };
+      case 'SEND_FAILURE': {
+        // Honor the server's Retry-After for the resend countdown
+        const { error } = action;
+        const retryAt = error.kind === 'rate_limited' && error.retryAfter !== null
+          ? action.now + error.retryAfter * 1000
+          : null;
+        const resendAvailableAt = retryAt !== null && state.status !== 'phone'
+          ? Math.max(state.resendAvailableAt ?? 0, retryAt)
+          : state.resendAvailableAt;
+        return { ...state, isSending: false, error, resendAvailableAt };
+      }
+      case 'VERIFY_START':
+        return { ...state, status: 'verifying', error: null };
+      case 'VERIFY_SUCCESS':
+        return { ...state, status: 'verified', error: null };
+      case 'VERIFY_FAILURE': {
+        const attemptsLeft = usesAttempt(action.error) ? state.attemptsLeft - 1 : state.attemptsLeft;
+        // Lock the flow once no attempts remain and no new code can be requested.
+        const isLocked = attemptsLeft <= 0 && state.resendsLeft <= 0;
+        return {
+          ...state,
+          status: isLocked ? 'locked' : 'code_sent',
+          attemptsLeft,
+          error: action.error,
+          lockReason: isLocked ? 'attempts' : null,
+        };
+      }
+      case 'EXPIRE':
+        // An expired code can only be replaced by a resend; without one the flow is over.
+        return state.status === 'code_sent' && state.resendsLeft <= 0
+          ? { ...state, status: 'locked', lockReason: 'expired' }
+          : state;
+      case 'RESET':
+        return createInitialState(options);
+      default:
+        return state;
+    }
+  };
+
+/**
+ * Converts a timestamp into the number of whole seconds remaining from now.
+ *
+ * @param {number | null} timestamp - The target time in milliseconds.
+ * @param {number} now - The current time in milliseconds.
+ * @returns {number} - Seconds remaining, never negative.
+ */
+const secondsUntil = (timestamp: number | null, now: number) =>
+  timestamp === null ? 0 : Math.max(0, Math.ceil((timestamp - now) / 1000));
+
+/**
+ * Builds the failure returned when the flow rejects an action itself,
+ * without calling the API.
+ *
+ * @param {string} message - The localized reason.
+ * @returns {TwoFactorAuthResult} - A failure with a validation error on the code.
+ */
+const rejectLocally = (message: string): TwoFactorAuthResult => ({
+  success: false,
+  error: { kind: 'validation', message, fieldErrors: { code: [message] } },
+});
+
+/**
+ * useTwoFactorFlow is a custom React hook that drives the complete
+ * two-factor authentication flow on top of useTwoFactorAuth: requesting a
+ * code, verifying it, resending it after a cooldown, and enforcing attempt
+ * limits and code expiry. Repeated submits share the pending request, and
+ * useTwoFactorAuth applies the per-number cooldown, the session cap and
+ * the server's Retry-After. Each step is reported to the nearest
+ * TelemetryProvider as an `otp_*` event.
+ *
+ * @param {string | null} accessToken - The access token used for authorization.
+ * @param {TwoFactorFlowOptions} [options] - Overrides for the flow limits.
+ *
+ * @returns {Object} - An object containing the flow state and actions:
+ * - status: The current step of the flow.
+ * - phoneNumber: The phone number the code was sent to.
+ * - codeLength: Number of digits in the one-time code.
+ * - attemptsLeft: Verification attempts left for the current code.
+ * - resendsLeft: Number of resends still available.
+ * - resendIn: Seconds until a new code can be requested.
+ * - expiresIn: Seconds until the current code expires.
+ * - isExpired: Whether the current code has expired.
+ * - isSending: Whether a code request is in flight.
+ * - error: The ApiError of the last failed request, or null.
+ * - lockReason: Why the flow locked (`attempts` or `expired`), or null.
+ * - requestCode: Sends the first code to a phone number.
+ * - verifyCode: Verifies the code entered by the user.
+ * - resendCode: Sends a new code to the same phone number.
+ * - reset: Returns to the phone number step.
+ */
+export const useTwoFactorFlow = (accessToken: string | null, options: TwoFactorFlowOptions = {}) => {
+  const [config] = useState(() => ({ ...DEFAULT_OPTIONS, ...options }));
+  const pendingSend = useRef<Promise<TwoFactorAuthResult> | null>(null);
+  const [reducer] = useState(() => createReducer(config));
+  const [state, dispatch] = useReducer(reducer, config, createInitialState);
+  const [now, setNow] = useState(() => Date.now());
+  const { t } = useI18n();
+  const track = useTelemetry();
+
+  const initiateTwoFactorAuth = useTwoFactorAuth(accessToken, options);
+  const verifyTwoFactorCode = useVerifyTwoFactorCode(accessToken);
+
+  // Tick once per second while a code is pending so countdowns stay current.
+  const isCodePending = state.status === 'code_sent' || state.status === 'verifying';
+  useEffect(() => {
+    if (!isCodePending) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [isCodePending]);
+
+  const resendIn = secondsUntil(state.resendAvailableAt, now);
+  const expiresIn = secondsUntil(state.expiresAt, now);
+  const isExpired = isCodePending && expiresIn === 0;
+
+  // Lock the flow when the code expires and no new one can be requested
+  useEffect(() => {
+    if (isExpired && state.status === 'code_sent' && state.resendsLeft <= 0) {
+      dispatch({ type: 'EXPIRE' });
+    }
+  }, [isExpired, state.status, state.resendsLeft]);
+
+  // Report the flow locking itself, whichever failure caused it
+  useEffect(() => {
+    if (state.status === 'locked') track({ type: 'otp_locked' });
+  }, [state.status, track]);
+
+  /**
+   * Sends the first one-time code and moves the flow to the code entry step.
+   *
+   * @param {string} phoneNumber - The phone number to send the code to.
+   * @param {string} countryId - The ID of the country associated with the phone number.
+   * @returns {Promise<TwoFactorAuthResult>} - The result of the request.
+   */
+  const requestCode = useCallback((phoneNumber: string, countryId: string): Promise<TwoFactorAuthResult> => {
+    // A double submit shares the request that is already in flight
+    if (pendingSend.current) return pendingSend.current;
+
+    const send = async (): Promise<TwoFactorAuthResult> => {
+      dispatch({ type: 'SEND_START' });
+      const result = await initiateTwoFactorAuth(phoneNumber, countryId);
+      const now = Date.now();
+      if (result.success) {
+        dispatch({ type: 'SEND_SUCCESS', phoneNumber, countryId, now, availableAt: getSendAvailableAt(phoneNumber, countryId) });
+        track({ type: 'otp_requested', countryId });
+      } else {
+        dispatch({ type: 'SEND_FAILURE', error: result.error, now });
+        track({ type: 'otp_request_failed', countryId, errorKind: result.error.kind });
+      }
+      return result;
+    };
+    pendingSend.current = send().finally(() => {
+      pendingSend.current = null;
+    });
+    return pendingSend.current;
+  }, [initiateTwoFactorAuth, track]);
+
+  /**
+   * Sends a new code to the same phone number once the cooldown has elapsed.
+   *
+   * @returns {Promise<TwoFactorAuthResult>} - The result of the request.
+   */
+  const resendCode = useCallback(async (): Promise<TwoFactorAuthResult> => {
+    if (state.status !== 'code_sent' || state.isSending) {
+      return rejectLocally(t('twoFactor.cannotResend'));
+    }
+    if (state.resendsLeft <= 0) {
+      return rejectLocally(t('twoFactor.noResends'));
+    }
+    if (resendIn > 0) {
+      return {
+        success: false,
+        error: { kind: 'rate_limited', message: t('twoFactor.waitToResend', { count: resendIn }), retryAfter: resendIn },
+      };
+    }
+
+    dispatch({ type: 'SEND_START' });
+    const result = await initiateTwoFactorAuth(state.phoneNumber, state.countryId);
+    const now = Date.now();
+    if (result.success) {
+      dispatch({ type: 'RESEND_SUCCESS', now, availableAt: getSendAvailableAt(state.phoneNumber, state.countryId) });
+      track({ type: 'otp_resent' });
+    } else {
+      dispatch({ type: 'SEND_FAILURE', error: result.error, now });
+      track({ type: 'otp_request_failed', countryId: state.countryId, errorKind: result.error.kind });
+    }
+    return result;
+  }, [state.status, state.isSending, state.resendsLeft, state.phoneNumber, state.countryId, resendIn, initiateTwoFactorAuth, t, track]);
+
+  /**
+   * Verifies the one-time code entered by the user.
+   *
+   * @param {string} code - The code entered by the user.
+   * @returns {Promise<TwoFactorAuthResult>} - The result of the verification.
+   */
+  const verifyCode = useCallback(async (code: string): Promise<TwoFactorAuthResult> => {
+    if (state.status !== 'code_sent') {
+      return rejectLocally(t('twoFactor.noPendingCode'));
+    }
+    if (isExpired) {
+      return rejectLocally(t('twoFactor.expired'));
+    }
+    if (state.attemptsLeft <= 0) {
+      return rejectLocally(t('twoFactor.tooManyAttempts'));
+    }
+    if (code.length !== config.codeLength) {
+      return rejectLocally(t('twoFactor.codeLength', { count: config.codeLength }));
+    }
+
+    dispatch({ type: 'VERIFY_START' });
+    const result = await verifyTwoFactorCode(state.phoneNumber, state.countryId, code);
+    if (result.success) {
+      dispatch({ type: 'VERIFY_SUCCESS' });
+      track({ type: 'otp_verified', attemptsUsed: config.maxAttempts - state.attemptsLeft + 1 });
+    } else {
+      dispatch({ type: 'VERIFY_FAILURE', error: result.error });
+      track({
+        type: 'otp_verification_failed',
+        errorKind: result.error.kind,
+        attemptsLeft: usesAttempt(result.error) ? state.attemptsLeft - 1 : state.attemptsLeft,
+      });
+    }
+    return result;
+  }, [
+    state.status, state.attemptsLeft, state.phoneNumber, state.countryId, isExpired,
+    config.codeLength, config.maxAttempts, verifyTwoFactorCode, t, track,
+  ]);
+
+  /**
+   * Resets the flow back to the phone number step.
+   */
+  const reset = useCallback(() => dispatch({ type: 'RESET' }), []);
+
+  return {
+    status: state.status,
+    phoneNumber: state.phoneNumber,
+    codeLength: config.codeLength,
+    attemptsLeft: state.attemptsLeft,
+    resendsLeft: state.resendsLeft,
+    resendIn,
+    expiresIn,
+    isExpired,
+    isSending: state.isSending,
+    error: state.error,
+    lockReason: state.lockReason,
+    requestCode,
+    verifyCode,
+    resendCode,
+    reset,
+  };
+};
+
+export type TwoFactorFlow = ReturnType<typeof useTwoFactorFlow>;
@@ -0,0 +1,95 @@
+import { useState, useRef, useCallback } from 'react';
+
+/**
+ * Interface: VirtualListOptions
+ *
+ * Options for useVirtualList.
+ */
+export interface VirtualListOptions {
+  itemCount: number;               // Total number of items in the list
+  itemHeight: number;              // Fixed height of every item, in pixels
+  overscan?: number;               // Items rendered above and below the visible window
+  defaultViewportHeight?: number;  // Height assumed until the container can be measured
+}
+
+/**
+ * useVirtualList is a custom React hook that windows a fixed-row-height
+ * list, so only the rows visible in its scroll container (plus a few
+ * overscan rows) need to be mounted.
+ *
+ * @param {VirtualListOptions} options - The list dimensions.
+ *
+ * @returns {Object} - An object containing the window and helpers:
+ * - containerRef: Callback ref for the scrolling container.
+ * - onScroll: Scroll handler for the scrolling container.
+ * - startIndex: Index of the first row to render.
+ * - endIndex: Index after the last row to render.
+ * - totalHeight: Height of the full list, in pixels.
+ * - scrollToIndex: Scrolls a row into view, either to the nearest edge or centered.
+ */
+export const useVirtualList = ({
+  itemCount,
+  itemHeight,
+  overscan = 5,
+  defaultViewportHeight = 0,
+}: VirtualListOptions) => {
+  const containerRef = useRef<HTMLElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(defaultViewportHeight);
+
+  // Measures the container as soon as it mounts
+  const setContainer = useCallback((node: HTMLElement | null) => {
+    containerRef.current = node;
+    if (node) {
+      setScrollTop(node.scrollTop);
+      if (node.clientHeight) setViewportHeight(node.clientHeight);
+    }
+  }, []);
+
+  const onScroll = useCallback((e: React.UIEvent<HTMLElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  const totalHeight = itemCount * itemHeight;
+  const startIndex = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+  const endIndex = Math.min(itemCount, Math.ceil((scrollTop + viewportHeight) / itemHeight) + overscan);
+
+  /**
+   * Scrolls the container so the row at the given index is visible.
+   *
+   * @param {number} index - The row to scroll to.
+   * @param {'nearest' | 'center'} [align] - Scroll just enough to show the row, or center it.
+   */
+  const scrollToIndex = useCallback((index: number, align: 'nearest' | 'center' = 'nearest') => {
+    const node = containerRef.current;
+    if (!node || index < 0 || index >= itemCount) return;
+
+    const height = node.clientHeight || viewportHeight;
+    const itemTop = index * itemHeight;
+    const itemBottom = itemTop + itemHeight;
+    let next = node.scrollTop;
+
+    if (align === 'center') {
+      next = itemTop - (height - itemHeight) / 2;
+    } else if (itemTop < node.scrollTop) {
+      next = itemTop;
+    } else if (itemBottom > node.scrollTop + height) {
+      next = itemBottom - height;
+    }
+
+    next = Math.max(0, Math.min(next, totalHeight - height));
+    if (next !== node.scrollTop) {
+      node.scrollTop = next;
+      setScrollTop(next);
+    }
+  }, [itemCount, itemHeight, viewportHeight, totalHeight]);
+
+  return {
+    containerRef: setContainer,
+    onScroll,
+    startIndex,
+    endIndex,
+    totalHeight,
+    scrollToIndex,
+  };
+};
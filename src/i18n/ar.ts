@@ -0,0 +1,130 @@
+import { MessageCatalog } from './messages';
+
+/**
+ * The Arabic catalog. Arabic is written right to left and uses all six
+ * plural categories.
+ */
+export const AR_MESSAGES: MessageCatalog = {
+  'app.title': 'إدخال رقم الهاتف',
+  'app.form': 'نموذج إرسال رقم الهاتف',
+  'app.loadingCountries': 'جارٍ تحميل الدول...',
+  'app.submit': 'إرسال',
+  'app.sending': 'جارٍ الإرسال...',
+  'app.fallbackCountries': 'يمكن إرسال الرموز بعد تحميل قائمة الدول.',
+  'app.language': 'اللغة',
+  'app.theme': 'المظهر',
+  'app.themeAuto': 'النظام',
+  'app.themeLight': 'فاتح',
+  'app.themeDark': 'داكن',
+  'errorBoundary.title': 'عذرًا، حدث خطأ',
+  'errorBoundary.retry': 'حاول مرة أخرى',
+  'errorNotification.message': 'خطأ: {message}',
+  'config.invalid': 'خطأ: حقل الهاتف غير مُعدّ بشكل صحيح.',
+  'phoneInput.label': 'رقم الهاتف',
+  'phoneInput.loadingSelector': 'جارٍ تحميل قائمة الدول...',
+  'phoneInput.countryFallback': 'رمز الاتصال الدولي',
+  'countrySelector.trigger': 'رمز الدولة: {name} {code}',
+  'countrySelector.empty': 'اختر رمز الدولة',
+  'countrySelector.searchPlaceholder': 'ابحث عن دولة...',
+  'countrySelector.searchLabel': 'ابحث عن دولة',
+  'countrySelector.list': 'الدول',
+  'countrySelector.noResults': 'لم يتم العثور على أي دولة',
+  'countrySelector.results': {
+    zero: 'لم يتم العثور على أي دولة',
+    one: 'تم العثور على دولة واحدة',
+    two: 'تم العثور على دولتين',
+    few: 'تم العثور على {count} دول',
+    many: 'تم العثور على {count} دولة',
+    other: 'تم العثور على {count} دولة',
+  },
+  'validation.length': {
+    zero: 'يجب ألا يحتوي رقم الهاتف على أي رقم.',
+    one: 'يجب أن يتكون رقم الهاتف من رقم واحد.',
+    two: 'يجب أن يتكون رقم الهاتف من رقمين.',
+    few: 'يجب أن يتكون رقم الهاتف من {count} أرقام.',
+    many: 'يجب أن يتكون رقم الهاتف من {count} رقمًا.',
+    other: 'يجب أن يتكون رقم الهاتف من {count} رقم.',
+  },
+  'validation.lengthRange': 'يجب أن يتكون رقم الهاتف من {min} إلى {max} أرقام.',
+  'validation.leadingDigit': 'لا يمكن أن تبدأ أرقام الهاتف في {country} بالرقم {digit}.',
+  'validation.required': 'رقم الهاتف مطلوب.',
+  'validation.country': 'يرجى اختيار دولة.',
+  'validation.numberType': 'يبدو أن هذا رقم {type}. يُرجى إدخال رقم {allowed}.',
+  'validation.numberTypeUnknown': 'تعذّر تحديد نوع هذا الرقم. يُرجى إدخال رقم {allowed}.',
+  'numberType.mobile': 'جوال',
+  'numberType.fixed_line': 'أرضي',
+  'numberType.toll_free': 'مجاني',
+  'numberType.premium': 'بتعرفة مميزة',
+  'numberType.voip': 'صوت عبر الإنترنت',
+  'numberType.unknown': 'غير معروف',
+  'phoneList.list': 'أرقام الهاتف',
+  'phoneList.entry': 'رقم الهاتف {index}',
+  'phoneList.label': 'التسمية',
+  'phoneList.labelPlaceholder': 'مثلًا: العمل',
+  'phoneList.primary': 'أساسي',
+  'phoneList.add': 'إضافة رقم هاتف',
+  'phoneList.remove': 'إزالة',
+  'phoneList.moveUp': 'نقل لأعلى',
+  'phoneList.moveDown': 'نقل لأسفل',
+  'phoneList.duplicate': 'هذا الرقم موجود بالفعل في القائمة.',
+  'otp.group': 'رمز التحقق',
+  'otp.digit': 'الرقم {index} من {count}',
+  'twoFactor.form': 'نموذج رمز التحقق',
+  'twoFactor.prompt': 'أدخل الرمز المكوّن من {count} أرقام المرسل إلى {phone}.',
+  'twoFactor.expiresIn': 'تنتهي صلاحية الرمز خلال {time}',
+  'twoFactor.expired': 'انتهت صلاحية الرمز. يرجى طلب رمز جديد.',
+  'twoFactor.attemptsLeft': {
+    zero: 'لم تتبقَّ أي محاولة',
+    one: 'تبقّت محاولة واحدة',
+    two: 'تبقّت محاولتان',
+    few: 'تبقّت {count} محاولات',
+    many: 'تبقّت {count} محاولة',
+    other: 'تبقّت {count} محاولة',
+  },
+  'twoFactor.verify': 'تحقق',
+  'twoFactor.verifying': 'جارٍ التحقق...',
+  'twoFactor.resend': 'إعادة إرسال الرمز',
+  'twoFactor.resendIn': 'إعادة إرسال الرمز خلال {time}',
+  'twoFactor.changeNumber': 'تغيير رقم الهاتف',
+  'twoFactor.verified': 'تم التحقق من رقم هاتفك.',
+  'twoFactor.locked': 'محاولات فاشلة كثيرة. يرجى البدء من جديد.',
+  'twoFactor.expiredLocked': 'انتهت صلاحية الرمز ولا يمكن إرسال رموز أخرى. يُرجى البدء من جديد.',
+  'twoFactor.startOver': 'البدء من جديد',
+  'twoFactor.sendFailed': 'تعذّر إرسال الرمز',
+  'twoFactor.cannotResend': 'لا يمكن إعادة إرسال الرمز الآن',
+  'twoFactor.noResends': 'لا يمكن إرسال المزيد من الرموز',
+  'twoFactor.waitToResend': {
+    zero: 'يمكنك طلب رمز جديد الآن',
+    one: 'يرجى الانتظار ثانية واحدة قبل طلب رمز جديد',
+    two: 'يرجى الانتظار ثانيتين قبل طلب رمز جديد',
+    few: 'يرجى الانتظار {count} ثوانٍ قبل طلب رمز جديد',
+    many: 'يرجى الانتظار {count} ثانية قبل طلب رمز جديد',
+    other: 'يرجى الانتظار {count} ثانية قبل طلب رمز جديد',
+  },
+  'twoFactor.noPendingCode': 'لا يوجد رمز بانتظار التحقق',
+  'twoFactor.tooManyAttempts': 'محاولات كثيرة. يرجى طلب رمز جديد.',
+  'twoFactor.codeLength': 'يجب أن يتكون الرمز من {count} أرقام.',
+  'twoFactor.codeSent': 'تم إرسال رمز إلى {phone}.',
+  'error.network': 'تعذّر الوصول إلى الخادم. تحقّق من اتصالك.',
+  'error.timeout': 'استغرق الخادم وقتًا طويلاً للرد.',
+  'error.unauthorized': 'الطلب غير مصرّح به.',
+  'error.rateLimited': {
+    zero: 'طلبات كثيرة جدًا. حاول مرة أخرى الآن.',
+    one: 'طلبات كثيرة جدًا. حاول مرة أخرى بعد ثانية واحدة.',
+    two: 'طلبات كثيرة جدًا. حاول مرة أخرى بعد ثانيتين.',
+    few: 'طلبات كثيرة جدًا. حاول مرة أخرى بعد {count} ثوانٍ.',
+    many: 'طلبات كثيرة جدًا. حاول مرة أخرى بعد {count} ثانية.',
+    other: 'طلبات كثيرة جدًا. حاول مرة أخرى بعد {count} ثانية.',
+  },
+  'error.rateLimitedLater': 'طلبات كثيرة جدًا. حاول مرة أخرى لاحقًا.',
+  'error.validation': 'تم رفض الطلب.',
+  'error.invalidResponse': 'أرسل الخادم استجابة غير متوقعة.',
+  'error.configuration': 'هذه الميزة غير مهيأة. يُرجى التواصل مع الدعم.',
+  'error.countryUnavailable': 'يمكن إرسال الرموز بعد تحميل قائمة الدول.',
+  'error.unknown': 'حدث خطأ ما. يرجى المحاولة مرة أخرى.',
+  'error.accessToken': 'تعذّر الاتصال بخدمة التحقق.',
+  'error.countries': 'تعذّر تحميل أحدث قائمة للدول.',
+  'notification.region': 'الإشعارات',
+  'notification.retry': 'إعادة المحاولة',
+  'notification.dismiss': 'إغلاق',
+};
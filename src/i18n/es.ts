@@ -0,0 +1,103 @@
+import { MessageCatalog } from './messages';
+
+/**
+ * The Spanish catalog.
+ */
+export const ES_MESSAGES: MessageCatalog = {
+  'app.title': 'Número de teléfono',
+  'app.form': 'Formulario de envío del número de teléfono',
+  'app.loadingCountries': 'Cargando países...',
+  'app.submit': 'Enviar',
+  'app.sending': 'Enviando...',
+  'app.fallbackCountries': 'Los códigos se pueden enviar cuando se haya cargado la lista de países.',
+  'app.language': 'Idioma',
+  'app.theme': 'Tema',
+  'app.themeAuto': 'Sistema',
+  'app.themeLight': 'Claro',
+  'app.themeDark': 'Oscuro',
+  'errorBoundary.title': 'Lo sentimos, se produjo un error',
+  'errorBoundary.retry': 'Intentar de nuevo',
+  'errorNotification.message': 'Error: {message}',
+  'config.invalid': 'Error: el campo de teléfono no está configurado correctamente.',
+  'phoneInput.label': 'Número de teléfono',
+  'phoneInput.loadingSelector': 'Cargando el selector de país...',
+  'phoneInput.countryFallback': 'Prefijo telefónico del país',
+  'countrySelector.trigger': 'Prefijo: {name} {code}',
+  'countrySelector.empty': 'Selecciona un prefijo',
+  'countrySelector.searchPlaceholder': 'Buscar países...',
+  'countrySelector.searchLabel': 'Buscar países',
+  'countrySelector.list': 'Países',
+  'countrySelector.noResults': 'No se encontraron países',
+  'countrySelector.results': { one: '{count} país encontrado', other: '{count} países encontrados' },
+  'validation.length': {
+    one: 'El número de teléfono debe tener {count} dígito.',
+    other: 'El número de teléfono debe tener {count} dígitos.',
+  },
+  'validation.lengthRange': 'El número de teléfono debe tener entre {min} y {max} dígitos.',
+  'validation.leadingDigit': 'Los números de {country} no pueden empezar por {digit}.',
+  'validation.required': 'El número de teléfono es obligatorio.',
+  'validation.country': 'Selecciona un país.',
+  'validation.numberType': 'Parece un número {type}. Introduce un número {allowed}.',
+  'validation.numberTypeUnknown': 'No podemos saber qué tipo de número es. Introduce un número {allowed}.',
+  'numberType.mobile': 'móvil',
+  'numberType.fixed_line': 'fijo',
+  'numberType.toll_free': 'gratuito',
+  'numberType.premium': 'de tarificación adicional',
+  'numberType.voip': 'VoIP',
+  'numberType.unknown': 'desconocido',
+  'phoneList.list': 'Números de teléfono',
+  'phoneList.entry': 'Número de teléfono {index}',
+  'phoneList.label': 'Etiqueta',
+  'phoneList.labelPlaceholder': 'p. ej., Trabajo',
+  'phoneList.primary': 'Principal',
+  'phoneList.add': 'Añadir número de teléfono',
+  'phoneList.remove': 'Eliminar',
+  'phoneList.moveUp': 'Subir',
+  'phoneList.moveDown': 'Bajar',
+  'phoneList.duplicate': 'Este número ya está en la lista.',
+  'otp.group': 'Código de verificación',
+  'otp.digit': 'Dígito {index} de {count}',
+  'twoFactor.form': 'Formulario del código de verificación',
+  'twoFactor.prompt': 'Introduce el código de {count} dígitos enviado al {phone}.',
+  'twoFactor.expiresIn': 'El código caduca en {time}',
+  'twoFactor.expired': 'El código ha caducado. Solicita uno nuevo.',
+  'twoFactor.attemptsLeft': { one: 'Queda {count} intento', other: 'Quedan {count} intentos' },
+  'twoFactor.verify': 'Verificar',
+  'twoFactor.verifying': 'Verificando...',
+  'twoFactor.resend': 'Reenviar código',
+  'twoFactor.resendIn': 'Reenviar código en {time}',
+  'twoFactor.changeNumber': 'Cambiar número de teléfono',
+  'twoFactor.verified': 'Tu número de teléfono ha sido verificado.',
+  'twoFactor.locked': 'Demasiados intentos fallidos. Vuelve a empezar.',
+  'twoFactor.expiredLocked': 'El código ha caducado y no se pueden enviar más códigos. Vuelve a empezar.',
+  'twoFactor.startOver': 'Empezar de nuevo',
+  'twoFactor.sendFailed': 'No se pudo enviar el código',
+  'twoFactor.cannotResend': 'Ahora no se puede reenviar el código',
+  'twoFactor.noResends': 'No se pueden enviar más códigos',
+  'twoFactor.waitToResend': {
+    one: 'Espera {count} segundo antes de solicitar un código nuevo',
+    other: 'Espera {count} segundos antes de solicitar un código nuevo',
+  },
+  'twoFactor.noPendingCode': 'No hay ningún código pendiente de verificar',
+  'twoFactor.tooManyAttempts': 'Demasiados intentos. Solicita un código nuevo.',
+  'twoFactor.codeLength': 'El código debe tener {count} dígitos.',
+  'twoFactor.codeSent': 'Se envió un código al {phone}.',
+  'error.network': 'No se pudo contactar con el servidor. Comprueba tu conexión.',
+  'error.timeout': 'El servidor tardó demasiado en responder.',
+  'error.unauthorized': 'La solicitud no fue autorizada.',
+  'error.rateLimited': {
+    one: 'Demasiadas solicitudes. Inténtalo de nuevo en {count} segundo.',
+    other: 'Demasiadas solicitudes. Inténtalo de nuevo en {count} segundos.',
+  },
+  'error.rateLimitedLater': 'Demasiadas solicitudes. Inténtalo de nuevo más tarde.',
+  'error.validation': 'La solicitud fue rechazada.',
+  'error.invalidResponse': 'El servidor envió una respuesta inesperada.',
+  'error.configuration': 'Esta función no está configurada. Ponte en contacto con el soporte.',
+  'error.countryUnavailable': 'Los códigos se pueden enviar cuando se haya cargado la lista de países.',
+  'error.unknown': 'Algo salió mal. Inténtalo de nuevo.',
+  'error.accessToken': 'No se pudo conectar con el servicio de verificación.',
+  'error.countries': 'No se pudo cargar la lista de países más reciente.',
+  'notification.region': 'Notificaciones',
+  'notification.retry': 'Reintentar',
+  'notification.dismiss': 'Cerrar',
+};
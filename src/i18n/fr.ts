@@ -0,0 +1,103 @@
+import { MessageCatalog } from './messages';
+
+/**
+ * The French catalog.
+ */
+export const FR_MESSAGES: MessageCatalog = {
+  'app.title': 'Numéro de téléphone',
+  'app.form': 'Formulaire d’envoi du numéro de téléphone',
+  'app.loadingCountries': 'Chargement des pays...',
+  'app.submit': 'Envoyer',
+  'app.sending': 'Envoi...',
+  'app.fallbackCountries': 'Les codes pourront être envoyés une fois la liste des pays chargée.',
+  'app.language': 'Langue',
+  'app.theme': 'Thème',
+  'app.themeAuto': 'Système',
+  'app.themeLight': 'Clair',
+  'app.themeDark': 'Sombre',
+  'errorBoundary.title': 'Désolé, une erreur est survenue',
+  'errorBoundary.retry': 'Réessayer',
+  'errorNotification.message': 'Erreur : {message}',
+  'config.invalid': 'Erreur : le champ de téléphone n’est pas configuré correctement.',
+  'phoneInput.label': 'Numéro de téléphone',
+  'phoneInput.loadingSelector': 'Chargement du sélecteur de pays...',
+  'phoneInput.countryFallback': 'Indicatif téléphonique du pays',
+  'countrySelector.trigger': 'Indicatif : {name} {code}',
+  'countrySelector.empty': 'Choisir un indicatif',
+  'countrySelector.searchPlaceholder': 'Rechercher un pays...',
+  'countrySelector.searchLabel': 'Rechercher un pays',
+  'countrySelector.list': 'Pays',
+  'countrySelector.noResults': 'Aucun pays trouvé',
+  'countrySelector.results': { one: '{count} pays trouvé', other: '{count} pays trouvés' },
+  'validation.length': {
+    one: 'Le numéro de téléphone doit comporter {count} chiffre.',
+    other: 'Le numéro de téléphone doit comporter {count} chiffres.',
+  },
+  'validation.lengthRange': 'Le numéro de téléphone doit comporter entre {min} et {max} chiffres.',
+  'validation.leadingDigit': 'Les numéros de {country} ne peuvent pas commencer par {digit}.',
+  'validation.required': 'Le numéro de téléphone est obligatoire.',
+  'validation.country': 'Veuillez choisir un pays.',
+  'validation.numberType': 'Ce numéro semble être un numéro {type}. Saisissez un numéro {allowed}.',
+  'validation.numberTypeUnknown': 'Impossible de déterminer le type de ce numéro. Saisissez un numéro {allowed}.',
+  'numberType.mobile': 'mobile',
+  'numberType.fixed_line': 'fixe',
+  'numberType.toll_free': 'gratuit',
+  'numberType.premium': 'surtaxé',
+  'numberType.voip': 'VoIP',
+  'numberType.unknown': 'inconnu',
+  'phoneList.list': 'Numéros de téléphone',
+  'phoneList.entry': 'Numéro de téléphone {index}',
+  'phoneList.label': 'Libellé',
+  'phoneList.labelPlaceholder': 'p. ex. Travail',
+  'phoneList.primary': 'Principal',
+  'phoneList.add': 'Ajouter un numéro de téléphone',
+  'phoneList.remove': 'Supprimer',
+  'phoneList.moveUp': 'Monter',
+  'phoneList.moveDown': 'Descendre',
+  'phoneList.duplicate': 'Ce numéro figure déjà dans la liste.',
+  'otp.group': 'Code de vérification',
+  'otp.digit': 'Chiffre {index} sur {count}',
+  'twoFactor.form': 'Formulaire du code de vérification',
+  'twoFactor.prompt': 'Saisissez le code à {count} chiffres envoyé au {phone}.',
+  'twoFactor.expiresIn': 'Le code expire dans {time}',
+  'twoFactor.expired': 'Le code a expiré. Veuillez en demander un nouveau.',
+  'twoFactor.attemptsLeft': { one: '{count} tentative restante', other: '{count} tentatives restantes' },
+  'twoFactor.verify': 'Vérifier',
+  'twoFactor.verifying': 'Vérification...',
+  'twoFactor.resend': 'Renvoyer le code',
+  'twoFactor.resendIn': 'Renvoyer le code dans {time}',
+  'twoFactor.changeNumber': 'Changer de numéro',
+  'twoFactor.verified': 'Votre numéro de téléphone a été vérifié.',
+  'twoFactor.locked': 'Trop de tentatives échouées. Veuillez recommencer.',
+  'twoFactor.expiredLocked': 'Le code a expiré et aucun autre code ne peut être envoyé. Veuillez recommencer.',
+  'twoFactor.startOver': 'Recommencer',
+  'twoFactor.sendFailed': 'Impossible d’envoyer le code',
+  'twoFactor.cannotResend': 'Le code ne peut pas être renvoyé pour le moment',
+  'twoFactor.noResends': 'Aucun autre code ne peut être envoyé',
+  'twoFactor.waitToResend': {
+    one: 'Veuillez patienter {count} seconde avant de demander un nouveau code',
+    other: 'Veuillez patienter {count} secondes avant de demander un nouveau code',
+  },
+  'twoFactor.noPendingCode': 'Aucun code n’attend de vérification',
+  'twoFactor.tooManyAttempts': 'Trop de tentatives. Veuillez demander un nouveau code.',
+  'twoFactor.codeLength': 'Le code doit comporter {count} chiffres.',
+  'twoFactor.codeSent': 'Un code a été envoyé au {phone}.',
+  'error.network': 'Le serveur est injoignable. Vérifiez votre connexion.',
+  'error.timeout': 'Le serveur a mis trop de temps à répondre.',
+  'error.unauthorized': 'La requête n’a pas été autorisée.',
+  'error.rateLimited': {
+    one: 'Trop de requêtes. Réessayez dans {count} seconde.',
+    other: 'Trop de requêtes. Réessayez dans {count} secondes.',
+  },
+  'error.rateLimitedLater': 'Trop de requêtes. Réessayez plus tard.',
+  'error.validation': 'La requête a été refusée.',
+  'error.invalidResponse': 'Le serveur a envoyé une réponse inattendue.',
+  'error.configuration': 'Cette fonctionnalité n’est pas configurée. Veuillez contacter le support.',
+  'error.countryUnavailable': 'Les codes pourront être envoyés une fois la liste des pays chargée.',
+  'error.unknown': 'Une erreur est survenue. Veuillez réessayer.',
+  'error.accessToken': 'Impossible de se connecter au service de vérification.',
+  'error.countries': 'Impossible de charger la dernière liste des pays.',
+  'notification.region': 'Notifications',
+  'notification.retry': 'Réessayer',
+  'notification.dismiss': 'Fermer',
+};
@@ -0,0 +1,133 @@
+/**
+ * Type: PluralMessage
+ *
+ * A message with one form per plural category of the locale, chosen with
+ * `Intl.PluralRules` from the `count` parameter. `other` is required
+ * because every locale has it.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * Type: Message
+ *
+ * A catalog entry. `{name}` placeholders are replaced with the parameters
+ * passed to the translator.
+ */
+export type Message = string | PluralMessage;
+
+/**
+ * The English catalog. It is the source of the message keys and the
+ * fallback for keys missing from other catalogs.
+ */
+export const EN_MESSAGES = {
+  'app.title': 'Phone Number Input',
+  'app.form': 'Phone number submission form',
+  'app.loadingCountries': 'Loading countries...',
+  'app.submit': 'Submit',
+  'app.sending': 'Sending...',
+  'app.fallbackCountries': 'Codes can be sent once the country list has loaded.',
+  'app.language': 'Language',
+  'app.theme': 'Theme',
+  'app.themeAuto': 'System',
+  'app.themeLight': 'Light',
+  'app.themeDark': 'Dark',
+  'errorBoundary.title': 'Sorry.. there was an error',
+  'errorBoundary.retry': 'Try again',
+  'errorNotification.message': 'Error: {message}',
+  'config.invalid': 'Error: The phone input is not configured correctly.',
+  'phoneInput.label': 'Phone number input',
+  'phoneInput.loadingSelector': 'Loading country selector...',
+  'phoneInput.countryFallback': 'Country calling code',
+  'countrySelector.trigger': 'Country code: {name} {code}',
+  'countrySelector.empty': 'Select a country code',
+  'countrySelector.searchPlaceholder': 'Search countries...',
+  'countrySelector.searchLabel': 'Search countries',
+  'countrySelector.list': 'Countries',
+  'countrySelector.noResults': 'No countries found',
+  'countrySelector.results': { one: '{count} country found', other: '{count} countries found' },
+  'validation.length': {
+    one: 'Phone number must be {count} digit long.',
+    other: 'Phone number must be {count} digits long.',
+  },
+  'validation.lengthRange': 'Phone number must be between {min} and {max} digits long.',
+  'validation.leadingDigit': 'Phone numbers in {country} cannot start with {digit}.',
+  'validation.required': 'Phone number is required.',
+  'validation.country': 'Please select a country.',
+  'validation.numberType': 'This looks like a {type} number. Please enter a {allowed} number.',
+  'validation.numberTypeUnknown': "We can't tell what kind of number this is. Please enter a {allowed} number.",
+  'numberType.mobile': 'mobile',
+  'numberType.fixed_line': 'landline',
+  'numberType.toll_free': 'toll-free',
+  'numberType.premium': 'premium-rate',
+  'numberType.voip': 'VoIP',
+  'numberType.unknown': 'unknown',
+  'phoneList.list': 'Phone numbers',
+  'phoneList.entry': 'Phone number {index}',
+  'phoneList.label': 'Label',
+  'phoneList.labelPlaceholder': 'e.g. Work',
+  'phoneList.primary': 'Primary',
+  'phoneList.add': 'Add phone number',
+  'phoneList.remove': 'Remove',
+  'phoneList.moveUp': 'Move up',
+  'phoneList.moveDown': 'Move down',
+  'phoneList.duplicate': 'This number is already in the list.',
+  'otp.group': 'Verification code',
+  'otp.digit': 'Digit {index} of {count}',
+  'twoFactor.form': 'Verification code form',
+  'twoFactor.prompt': 'Enter the {count}-digit code sent to {phone}.',
+  'twoFactor.expiresIn': 'Code expires in {time}',
+  'twoFactor.expired': 'The code has expired. Please request a new one.',
+  'twoFactor.attemptsLeft': { one: '{count} attempt remaining', other: '{count} attempts remaining' },
+  'twoFactor.verify': 'Verify',
+  'twoFactor.verifying': 'Verifying...',
+  'twoFactor.resend': 'Resend code',
+  'twoFactor.resendIn': 'Resend code in {time}',
+  'twoFactor.changeNumber': 'Change phone number',
+  'twoFactor.verified': 'Your phone number has been verified.',
+  'twoFactor.locked': 'Too many failed attempts. Please start again.',
+  'twoFactor.expiredLocked': 'The code has expired and no more codes can be sent. Please start again.',
+  'twoFactor.startOver': 'Start over',
+  'twoFactor.sendFailed': 'Unable to send the code',
+  'twoFactor.cannotResend': 'A code cannot be resent right now',
+  'twoFactor.noResends': 'No more codes can be sent',
+  'twoFactor.waitToResend': {
+    one: 'Please wait {count} second before requesting a new code',
+    other: 'Please wait {count} seconds before requesting a new code',
+  },
+  'twoFactor.noPendingCode': 'There is no code waiting to be verified',
+  'twoFactor.tooManyAttempts': 'Too many attempts. Please request a new code.',
+  'twoFactor.codeLength': 'The code must be {count} digits long.',
+  'twoFactor.codeSent': 'A code was sent to {phone}.',
+  'error.network': 'The server could not be reached. Check your connection.',
+  'error.timeout': 'The server took too long to respond.',
+  'error.unauthorized': 'The request was not authorized.',
+  'error.rateLimited': {
+    one: 'Too many requests. Try again in {count} second.',
+    other: 'Too many requests. Try again in {count} seconds.',
+  },
+  'error.rateLimitedLater': 'Too many requests. Try again later.',
+  'error.validation': 'The request was rejected.',
+  'error.invalidResponse': 'The server sent an unexpected response.',
+  'error.configuration': 'This feature is not configured. Please contact support.',
+  'error.countryUnavailable': 'Codes can be sent once the country list has loaded.',
+  'error.unknown': 'Something went wrong. Please try again.',
+  'error.accessToken': 'Could not connect to the verification service.',
+  'error.countries': 'Could not load the latest country list.',
+  'notification.region': 'Notifications',
+  'notification.retry': 'Retry',
+  'notification.dismiss': 'Dismiss',
+};
+
+/**
+ * Type: MessageKey
+ *
+ * The key of a UI message.
+ */
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+/**
+ * Type: MessageCatalog
+ *
+ * A complete set of translations for one language.
+ */
+export type MessageCatalog = Record<MessageKey, Message>;
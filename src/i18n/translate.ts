@@ -0,0 +1,126 @@
+import { CountryWithISO } from '../types';
+import { EN_MESSAGES, Message, MessageCatalog, MessageKey } from './messages';
+import { ES_MESSAGES } from './es';
+import { FR_MESSAGES } from './fr';
+import { AR_MESSAGES } from './ar';
+
+/**
+ * Catalogs bundled with the component, keyed by language subtag.
+ */
+export const CATALOGS: Record<string, MessageCatalog> = {
+  en: EN_MESSAGES,
+  es: ES_MESSAGES,
+  fr: FR_MESSAGES,
+  ar: AR_MESSAGES,
+};
+
+export const DEFAULT_LOCALE = 'en';
+
+// Languages written right to left
+const RTL_LANGUAGES = ['ar', 'dv', 'fa', 'he', 'ku', 'ps', 'sd', 'ug', 'ur', 'yi'];
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Interface: Translator
+ *
+ * Messages, country names and text direction for one locale.
+ */
+export interface Translator {
+  locale: string;                                             // BCP 47 tag, e.g. "es-MX"
+  direction: TextDirection;                                   // Text direction of the locale
+  t: (key: MessageKey, params?: MessageParams) => string;     // Formats a message
+  countryName: (country: CountryWithISO) => string;           // Localized name of a country
+}
+
+/**
+ * Returns the language subtag of a locale, e.g. "es" for "es-MX".
+ *
+ * @param {string} locale - A BCP 47 locale tag.
+ * @returns {string} - The lowercase language subtag.
+ */
+const getLanguage = (locale: string) => locale.split(/[-_]/)[0].toLowerCase();
+
+/**
+ * Returns the text direction of a locale.
+ *
+ * @param {string} locale - A BCP 47 locale tag.
+ * @returns {TextDirection} - "rtl" for right-to-left scripts, otherwise "ltr".
+ */
+export const getTextDirection = (locale: string): TextDirection =>
+  RTL_LANGUAGES.includes(getLanguage(locale)) ? 'rtl' : 'ltr';
+
+/**
+ * Picks the first of the browser's languages that has a bundled catalog.
+ *
+ * @returns {string} - The detected locale, or the default locale.
+ */
+export const detectLocale = (): string => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  return languages.find((locale) => locale && CATALOGS[getLanguage(locale)]) ?? DEFAULT_LOCALE;
+};
+
+/**
+ * Replaces `{name}` placeholders with the given parameters.
+ *
+ * @param {string} template - The message text.
+ * @param {MessageParams} params - The parameter values.
+ * @returns {string} - The formatted text; unknown placeholders are kept.
+ */
+const interpolate = (template: string, params: MessageParams) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+
+/**
+ * Creates a translator for a locale. Messages missing from the locale's
+ * catalog and `overrides` fall back to English, and country names fall
+ * back to the name returned by the API when `Intl.DisplayNames` does not
+ * know the ISO code.
+ *
+ * @param {string} locale - A BCP 47 locale tag.
+ * @param {Partial<MessageCatalog>} [overrides] - Messages that replace the bundled ones.
+ * @returns {Translator} - The translator.
+ */
+export const createTranslator = (locale: string, overrides: Partial<MessageCatalog> = {}): Translator => {
+  const catalog: Partial<MessageCatalog> = { ...CATALOGS[getLanguage(locale)], ...overrides };
+  const pluralRules = new Intl.PluralRules(locale);
+
+  let displayNames: Intl.DisplayNames | null = null;
+  try {
+    displayNames = new Intl.DisplayNames([locale], { type: 'region', fallback: 'none' });
+  } catch {
+    // Older browsers and invalid tags keep the API names
+  }
+  const countryNames = new Map<string, string>();
+
+  const t = (key: MessageKey, params: MessageParams = {}) => {
+    const message: Message = catalog[key] ?? EN_MESSAGES[key];
+    if (typeof message === 'string') return interpolate(message, params);
+    const count = Number(params.count ?? 0);
+    return interpolate(message[pluralRules.select(count)] ?? message.other, params);
+  };
+
+  const countryName = (country: CountryWithISO) => {
+    const iso = country.iso.toUpperCase();
+    let name = countryNames.get(iso);
+    if (name === undefined) {
+      try {
+        name = displayNames?.of(iso) ?? country.name;
+      } catch {
+        name = country.name; // Not a valid region code
+      }
+      countryNames.set(iso, name);
+    }
+    return name;
+  };
+
+  return { locale, direction: getTextDirection(locale), t, countryName };
+};
+
+/**
+ * The English translator used outside an I18nProvider.
+ */
+export const DEFAULT_TRANSLATOR = createTranslator(DEFAULT_LOCALE);
@@ -1,23 +1,56 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import { AxiosAdapter } from 'axios';
 import App from './App';
+import PhoneInputConfigProvider from './components/PhoneInputConfigProvider';
+import I18nProvider from './components/I18nProvider';
+import NotificationProvider from './components/NotificationProvider';
+import TelemetryProvider from './components/TelemetryProvider';
+import { TrackedEvent } from './telemetry/events';
+import { getEnvConfig, PhoneInputConfigOptions } from './config';
 import './index.css';
 
-// Check if required environment variables are defined
-if (!process.env.REACT_APP_API_KEY || !process.env.REACT_APP_API_BASE_URL) {
-  throw new Error('Required environment variables are not defined. Please check your .env file');
-}
-
 const rootElement = document.getElementById('root');
 if (!rootElement) throw new Error('Failed to find the root element');
 
 const root: ReactDOM.Root = ReactDOM.createRoot(rootElement);
 
-// Render the application
-root.render(
+// Telemetry is opt-in; the demo only logs events while developing
+const logEvent = process.env.NODE_ENV === 'development'
+  ? (event: TrackedEvent) => console.debug('[telemetry]', event)
+  : undefined;
+
+/**
+ * Renders the application against the given API.
+ *
+ * @param {PhoneInputConfigOptions} config - The API configuration.
+ * @param {AxiosAdapter} [adapter] - Answers requests instead of the network, e.g. the mock API.
+ */
+const render = (config: PhoneInputConfigOptions, adapter?: AxiosAdapter) => root.render(
   <React.StrictMode>
     <React.Suspense fallback={<div>Loading...</div>}>
-      <App />
+      {/* The locale is detected from the browser and can be switched in the app */}
+      <TelemetryProvider onEvent={logEvent}>
+        <I18nProvider>
+          {/* Missing or invalid settings render an error screen instead of throwing */}
+          <PhoneInputConfigProvider config={config} adapter={adapter}>
+            <NotificationProvider>
+              <App />
+            </NotificationProvider>
+          </PhoneInputConfigProvider>
+        </I18nProvider>
+      </TelemetryProvider>
     </React.Suspense>
   </React.StrictMode>
 );
+
+// With REACT_APP_MOCK_API set, the development server answers API requests
+// locally; the mock is loaded as a separate chunk and never ships otherwise
+if (process.env.NODE_ENV === 'development' && process.env.REACT_APP_MOCK_API) {
+  import('./mocks/browser').then(({ startMockApi }) => {
+    const { config, adapter } = startMockApi();
+    render(config, adapter);
+  });
+} else {
+  render(getEnvConfig());
+}
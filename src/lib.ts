@@ -0,0 +1,70 @@
+/**
+ * Public entry point of the phone input library build (`npm run build:lib`).
+ * The demo application starts from `index.tsx` instead.
+ */
+export { default as PhoneInput } from './components/PhoneInput';
+export type { PhoneInputProps } from './components/PhoneInput';
+export { default as CountrySelector, HighlightedText } from './components/CountrySelector';
+export type { CountrySelectorProps, CountrySelectorClassNames, CountrySelectorSlots } from './components/CountrySelector';
+export { default as HeadlessCountrySelector } from './components/HeadlessCountrySelector';
+export type { HeadlessCountrySelectorProps } from './components/HeadlessCountrySelector';
+export { default as CountryFlag, isoToFlagEmoji } from './components/CountryFlag';
+export type { FlagProvider } from './components/CountryFlag';
+export { default as PhoneInputConfigProvider } from './components/PhoneInputConfigProvider';
+export { default as I18nProvider } from './components/I18nProvider';
+export { default as NotificationProvider } from './components/NotificationProvider';
+export type { NotificationOptions, NotificationTone, NotificationContextValue } from './components/NotificationProvider';
+export { default as ErrorNotification } from './components/ErrorNotification';
+export { default as PhoneListEditor } from './components/PhoneListEditor';
+export { default as PhoneInputSkeleton } from './components/PhoneInputSkeleton';
+export { default as ErrorBoundary } from './components/ErrorBoundary';
+export type { ErrorBoundaryFallbackProps } from './components/ErrorBoundary';
+export { default as TelemetryProvider } from './components/TelemetryProvider';
+
+export { useAccessToken, useCountries } from './hooks/useApi';
+export type { CountriesSource } from './hooks/useApi';
+export { isFallbackCountryId } from './data/fallbackCountries';
+export { usePhoneForm } from './hooks/usePhoneForm';
+export type { PhoneFormOptions } from './hooks/usePhoneForm';
+export { usePhoneList } from './hooks/usePhoneList';
+export type { PhoneList, PhoneListEntry, PhoneListEntryInit, PhoneListOptions } from './hooks/usePhoneList';
+export { useTwoFactorAuth, useVerifyTwoFactorCode } from './hooks/useTwoFactorAuth';
+export type { TwoFactorAuthResult, TwoFactorAuthOptions, ChallengeTokenProvider } from './hooks/useTwoFactorAuth';
+export { useTwoFactorFlow } from './hooks/useTwoFactorFlow';
+export { useI18n } from './hooks/useI18n';
+export { useNotifications } from './hooks/useNotifications';
+export { useTelemetry } from './hooks/useTelemetry';
+export { useCountrySelector } from './hooks/useCountrySelector';
+export type { CountrySelectorOptions, CountrySelectorItem, CountrySelectorState } from './hooks/useCountrySelector';
+
+export { toApiError, describeApiError, isRetryable } from './api/errors';
+export type { ApiError, ApiErrorKind } from './api/errors';
+export { decodeCountries, decodeAccessToken, InvalidResponseError } from './api/decoders';
+export type { DecodeIssue } from './api/decoders';
+export type { TelemetryEvent, TrackedEvent, ErrorReporter } from './telemetry/events';
+
+export { formatPhoneNumber, validatePhoneNumber, getPhoneNumberType } from './utils/phoneMetadata';
+export type { PhoneNumberType } from './utils/phoneMetadata';
+export { applyMaskEdit, fitMaskState, getCaretPosition } from './utils/phoneMask';
+export type { MaskEdit, MaskState } from './utils/phoneMask';
+export { getCountryCatalog } from './utils/countryCatalog';
+export type { CountryCatalog } from './utils/countryCatalog';
+export { resolveDefaultCountry } from './utils/defaultCountry';
+export { lazyWithRetry, retryImport } from './utils/lazyWithRetry';
+export { checkSendLimit, clearSendLimits, DEFAULT_SEND_LIMITS } from './utils/sendLimits';
+export type { SendLimitOptions, SendLimitCheck } from './utils/sendLimits';
+export type { RetryOptions } from './utils/lazyWithRetry';
+export { parseInternationalNumber } from './utils/parsePhoneNumber';
+export type { ParsedPhoneNumber } from './utils/parsePhoneNumber';
+export { createPhoneInputValue, validatePhoneInputValue, withDefaultCountry, EMPTY_PHONE_INPUT_VALUE } from './utils/phoneValue';
+export type { PhoneInputValidationOptions } from './utils/phoneValue';
+
+export { getPhoneInputControllerProps, phoneInputRules, phoneInputResolver } from './adapters/reactHookForm';
+export { getFormikPhoneInputProps, formikPhoneValidator } from './adapters/formik';
+
+export { createTranslator, CATALOGS } from './i18n/translate';
+export type { Translator, TextDirection } from './i18n/translate';
+export type { MessageCatalog, MessageKey } from './i18n/messages';
+
+export type { PhoneInputConfigOptions, ApiEndpoints } from './config';
+export type { Country, CountryWithISO, PhoneInputValue } from './types';
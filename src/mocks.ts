@@ -0,0 +1,8 @@
+/**
+ * Entry point of the mock SoftPoint API in the library build
+ * (`country-code-sel/dist/mocks`), kept out of `lib.ts` so applications
+ * only bundle it where they import it: tests, stories and demos.
+ */
+export { createMockApi, MOCK_SCENARIOS } from './mocks/mockApi';
+export type { MockApi, MockApiOptions, MockScenario, MockEndpoint, MockRequest } from './mocks/mockApi';
+export { MOCK_CODE, MOCK_CONFIG, MOCK_COUNTRIES, MOCK_ENDPOINTS } from './mocks/fixtures';
@@ -0,0 +1,39 @@
+import { createMockApi, MockEndpoint, MockScenario, MOCK_SCENARIOS } from './mockApi';
+import { MOCK_CONFIG, MOCK_ENDPOINTS } from './fixtures';
+
+/**
+ * Reads a scenario name, e.g. from the environment or the URL.
+ *
+ * @param {string | null | undefined} value - The name to check.
+ * @returns {MockScenario | null} - The scenario, or null when the name is unknown.
+ */
+const readScenario = (value: string | null | undefined): MockScenario | null =>
+  MOCK_SCENARIOS.includes(value as MockScenario) ? (value as MockScenario) : null;
+
+/**
+ * Starts the mock API for the development server. The scenario comes from
+ * the `mock` query parameter (e.g. `?mock=slow`), else from
+ * REACT_APP_MOCK_API; any other truthy value of the variable starts the
+ * 'success' scenario. `?mock=countries:server_error` switches one endpoint.
+ *
+ * @returns {Object} - The configuration and adapter for PhoneInputConfigProvider,
+ * and the mock API itself, which is also exposed as `window.mockApi`.
+ */
+export const startMockApi = () => {
+  const param = new URLSearchParams(window.location.search).get('mock') ?? '';
+  const [endpointOrScenario, endpointScenario] = param.split(':');
+  const mockApi = createMockApi({
+    scenario: readScenario(endpointScenario ? null : endpointOrScenario)
+      ?? readScenario(process.env.REACT_APP_MOCK_API)
+      ?? 'success',
+    latency: 300, // Loading states stay visible for a moment, as on a real network
+  });
+  const scenario = readScenario(endpointScenario);
+  if (scenario && endpointOrScenario in MOCK_ENDPOINTS) {
+    mockApi.setScenario(scenario, endpointOrScenario as MockEndpoint);
+  }
+
+  (window as Window & { mockApi?: typeof mockApi }).mockApi = mockApi;
+  console.info('[mock api] Requests are answered locally. Switch scenarios with ?mock=<scenario> or window.mockApi.setScenario().');
+  return { config: MOCK_CONFIG, adapter: mockApi.adapter, mockApi };
+};
@@ -0,0 +1,40 @@
+import { Country } from '../types';
+import { ApiEndpoints, DEFAULT_ENDPOINTS, PhoneInputConfigOptions } from '../config';
+
+/**
+ * Countries served by the mock countries endpoint, in the shape of the
+ * SoftPoint API. The IDs are made up and differ from the ISO codes, like
+ * the API's own.
+ */
+export const MOCK_COUNTRIES: Record<string, Country> = {
+  US: { id: '226', name: 'United States', calling_code: '+1', phone_length: '10' },
+  CA: { id: '38', name: 'Canada', calling_code: '+1', phone_length: '10' },
+  MX: { id: '138', name: 'Mexico', calling_code: '+52', phone_length: '10' },
+  GB: { id: '225', name: 'United Kingdom', calling_code: '+44', phone_length: '10' },
+  FR: { id: '73', name: 'France', calling_code: '+33', phone_length: '9' },
+  DE: { id: '80', name: 'Germany', calling_code: '+49', phone_length: '11' },
+  ES: { id: '195', name: 'Spain', calling_code: '+34', phone_length: '9' },
+};
+
+// The one-time code the mock verification endpoint accepts
+export const MOCK_CODE = '123456';
+
+/**
+ * The endpoint paths answered by the mock API: the default paths, plus a
+ * verification path of the mock's own, since that one has no default.
+ */
+export const MOCK_ENDPOINTS: ApiEndpoints = {
+  ...DEFAULT_ENDPOINTS,
+  verifyTwoFactorAuth: '/challenges/two_factor_auth/verify',
+};
+
+/**
+ * A configuration for PhoneInputConfigProvider that passes validation.
+ * Requests never reach the base URL when the mock API adapter is used.
+ */
+export const MOCK_CONFIG: PhoneInputConfigOptions = {
+  baseUrl: 'https://api.mock.test',
+  apiKey: 'mock-api-key',
+  corporateId: '10',
+  endpoints: MOCK_ENDPOINTS,
+};
@@ -0,0 +1,278 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { ApiEndpoints } from '../config';
+import { MOCK_CODE, MOCK_COUNTRIES, MOCK_ENDPOINTS } from './fixtures';
+import { Country } from '../types';
+
+/**
+ * Type: MockScenario
+ *
+ * How the mock API answers a request:
+ * - success: A valid response.
+ * - slow: A valid response after `slowDelay` milliseconds.
+ * - unauthorized: 401, as for an invalid API key or expired token.
+ * - rate_limited: 429 with a `Retry-After` header.
+ * - server_error: 500.
+ * - malformed: Status 200 with a body the decoders reject.
+ */
+export type MockScenario = 'success' | 'slow' | 'unauthorized' | 'rate_limited' | 'server_error' | 'malformed';
+
+export const MOCK_SCENARIOS: MockScenario[] = ['success', 'slow', 'unauthorized', 'rate_limited', 'server_error', 'malformed'];
+
+/**
+ * Type: MockEndpoint
+ *
+ * The endpoints implemented by the mock API, named as in ApiEndpoints.
+ */
+export type MockEndpoint = keyof ApiEndpoints;
+
+/**
+ * Interface: MockApiOptions
+ *
+ * Options for createMockApi.
+ */
+export interface MockApiOptions {
+  scenario?: MockScenario;                                    // How every endpoint answers; 'success' by default
+  scenarios?: Partial<Record<MockEndpoint, MockScenario>>;    // Overrides the scenario of single endpoints
+  countries?: Record<string, Country>;                        // Served by the countries endpoint
+  code?: string;                                              // The one-time code accepted by verification
+  latency?: number;                                           // Delay of every response, in milliseconds
+  slowDelay?: number;                                         // Delay of the 'slow' scenario, in milliseconds
+  retryAfter?: number;                                        // Retry-After of the 'rate_limited' scenario, in seconds
+  tokenTtl?: number;                                          // expires_in of issued tokens, in seconds
+  endpoints?: Partial<ApiEndpoints>;                          // Endpoint paths, when they differ from MOCK_ENDPOINTS
+}
+
+/**
+ * Interface: MockRequest
+ *
+ * A request received by the mock API, for assertions in tests.
+ */
+export interface MockRequest {
+  endpoint: MockEndpoint | null;           // The endpoint matched, or null for an unknown path
+  method: string;                          // The HTTP method, uppercase
+  url: string;                             // The path relative to the base URL
+  params: Record<string, unknown>;         // The query parameters
+  data: Record<string, unknown> | null;    // The JSON body
+  authorization: string | null;            // The Authorization header
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+// Bodies of the 'malformed' scenario: valid JSON or text that the decoders reject
+const MALFORMED_BODIES: Record<MockEndpoint, unknown> = {
+  accessToken: { token: 'missing-access-token-field' },
+  countries: [{ iso: 'US', name: 'United States' }],
+  twoFactorAuth: '<!doctype html><title>Maintenance</title>',
+  verifyTwoFactorAuth: '<!doctype html><title>Maintenance</title>',
+};
+
+/**
+ * Waits for a delay, rejecting like axios when the request is aborted.
+ *
+ * @param {number} ms - The delay, in milliseconds.
+ * @param {InternalAxiosRequestConfig} config - The request, for its signal and timeout.
+ * @returns {Promise<void>} - Resolves after the delay.
+ */
+const wait = (ms: number, config: InternalAxiosRequestConfig) => new Promise<void>((resolve, reject) => {
+  const { signal, timeout } = config;
+  if (signal?.aborted) {
+    reject(new CanceledError(undefined, undefined, config));
+    return;
+  }
+  if (ms <= 0) {
+    resolve();
+    return;
+  }
+
+  const timedOut = !!timeout && timeout < ms;
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CanceledError(undefined, undefined, config));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener?.('abort', onAbort);
+    if (timedOut) {
+      reject(new AxiosError(`timeout of ${timeout}ms exceeded`, AxiosError.ECONNABORTED, config));
+    } else {
+      resolve();
+    }
+  }, timedOut ? timeout : ms);
+  signal?.addEventListener?.('abort', onAbort);
+});
+
+/**
+ * Reads the JSON body of a request; axios has already serialized it.
+ *
+ * @param {unknown} data - The request data.
+ * @returns {Record<string, unknown> | null} - The parsed body.
+ */
+const readBody = (data: unknown): Record<string, unknown> | null => {
+  if (typeof data !== 'string') return (data as Record<string, unknown>) ?? null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Creates an in-memory implementation of the SoftPoint endpoints used by
+ * the hooks: access tokens, countries, and sending and verifying two-factor
+ * codes. Its `adapter` replaces the HTTP transport of the API client (see
+ * the `adapter` prop of PhoneInputConfigProvider), so tests and the demo
+ * run without the network. Each endpoint can be switched to a failure
+ * scenario at any time.
+ *
+ * Data endpoints check the bearer token like the real API: tokens issued
+ * by the mock are accepted until `revokeTokens` is called.
+ *
+ * @param {MockApiOptions} [options] - The initial scenario, data and timings.
+ *
+ * @returns {Object} - The mock API:
+ * - adapter: The axios adapter answering the requests.
+ * - requests: Every request received, in order.
+ * - setScenario: Switches every endpoint, or one endpoint, to a scenario.
+ * - getScenario: Returns the scenario of an endpoint.
+ * - revokeTokens: Rejects the tokens issued so far with 401, as when they expire.
+ * - reset: Clears the request log, tokens and scenario overrides.
+ */
+export const createMockApi = (options: MockApiOptions = {}) => {
+  const {
+    countries = MOCK_COUNTRIES,
+    code = MOCK_CODE,
+    latency = 0,
+    slowDelay = 3000,
+    retryAfter = 30,
+    tokenTtl = 30 * 60,
+  } = options;
+  const endpoints: ApiEndpoints = { ...MOCK_ENDPOINTS, ...options.endpoints };
+
+  let defaultScenario: MockScenario = options.scenario ?? 'success';
+  let scenarios: Partial<Record<MockEndpoint, MockScenario>> = { ...options.scenarios };
+  let issuedTokens = new Set<string>();
+  let tokenCount = 0;
+  const requests: MockRequest[] = [];
+
+  const getScenario = (endpoint: MockEndpoint): MockScenario => scenarios[endpoint] ?? defaultScenario;
+
+  /**
+   * Switches endpoints to a scenario.
+   *
+   * @param {MockScenario} scenario - The scenario.
+   * @param {MockEndpoint} [endpoint] - The endpoint to switch; every endpoint when omitted.
+   */
+  const setScenario = (scenario: MockScenario, endpoint?: MockEndpoint) => {
+    if (endpoint) {
+      scenarios = { ...scenarios, [endpoint]: scenario };
+    } else {
+      defaultScenario = scenario;
+      scenarios = {};
+    }
+  };
+
+  const revokeTokens = () => {
+    issuedTokens = new Set();
+  };
+
+  const reset = () => {
+    requests.length = 0;
+    revokeTokens();
+    defaultScenario = options.scenario ?? 'success';
+    scenarios = { ...options.scenarios };
+  };
+
+  // Answers a request that passed the scenario checks
+  const respond = (endpoint: MockEndpoint, request: MockRequest): MockResponse => {
+    if (endpoint === 'accessToken') {
+      const accessToken = `mock-token-${++tokenCount}`;
+      issuedTokens.add(accessToken);
+      return { status: 200, body: { access_token: accessToken, expires_in: tokenTtl } };
+    }
+
+    const token = request.authorization?.replace(/^Bearer\s+/i, '') ?? '';
+    if (!issuedTokens.has(token)) {
+      return { status: 401, body: { message: 'Invalid or expired access token' } };
+    }
+
+    if (endpoint === 'countries') {
+      return { status: 200, body: countries };
+    }
+
+    const body = request.data ?? {};
+    const fieldErrors: Record<string, string[]> = {};
+    if (!/^\d+$/.test(String(body.phone_number ?? ''))) fieldErrors.phone_number = ['is required'];
+    if (!body.country_id) fieldErrors.country_id = ['is required'];
+    if (endpoint === 'verifyTwoFactorAuth' && body.code !== code) fieldErrors.code = ['is invalid'];
+    if (Object.keys(fieldErrors).length > 0) {
+      return { status: 422, body: { message: 'Validation failed', errors: fieldErrors } };
+    }
+    return { status: 200, body: endpoint === 'twoFactorAuth' ? { sent: true } : { verified: true } };
+  };
+
+  const adapter: AxiosAdapter = async (config) => {
+    const url = config.url ?? '';
+    const endpoint = (Object.keys(endpoints) as MockEndpoint[]).find((name) => endpoints[name] === url) ?? null;
+    const request: MockRequest = {
+      endpoint,
+      method: (config.method ?? 'get').toUpperCase(),
+      url,
+      params: { ...config.params },
+      data: readBody(config.data),
+      authorization: config.headers?.get?.('Authorization')?.toString() ?? null,
+    };
+    requests.push(request);
+
+    const scenario = endpoint ? getScenario(endpoint) : 'success';
+    await wait(latency + (scenario === 'slow' ? slowDelay : 0), config);
+
+    let response: MockResponse;
+    if (!endpoint) {
+      response = { status: 404, body: { message: `No mock for ${request.method} ${url}` } };
+    } else if (scenario === 'unauthorized') {
+      response = { status: 401, body: { message: 'Unauthorized' } };
+    } else if (scenario === 'rate_limited') {
+      response = { status: 429, body: { message: 'Too many requests' }, headers: { 'retry-after': String(retryAfter) } };
+    } else if (scenario === 'server_error') {
+      response = { status: 500, body: { message: 'Internal server error' } };
+    } else if (scenario === 'malformed') {
+      response = { status: 200, body: MALFORMED_BODIES[endpoint] };
+    } else {
+      response = respond(endpoint, request);
+    }
+
+    // Serve text like the network would; axios parses JSON bodies afterwards
+    const axiosResponse: AxiosResponse = {
+      data: typeof response.body === 'string' ? response.body : JSON.stringify(response.body),
+      status: response.status,
+      statusText: String(response.status),
+      headers: { 'content-type': 'application/json', ...response.headers },
+      config,
+    };
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (validateStatus(axiosResponse.status)) {
+      return axiosResponse;
+    }
+    throw new AxiosError(
+      `Request failed with status code ${axiosResponse.status}`,
+      axiosResponse.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      null,
+      axiosResponse
+    );
+  };
+
+  return {
+    adapter,
+    requests,
+    setScenario,
+    getScenario,
+    revokeTokens,
+    reset,
+  };
+};
+
+export type MockApi = ReturnType<typeof createMockApi>;
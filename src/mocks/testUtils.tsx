@@ -0,0 +1,63 @@
+import React, { ReactElement, ReactNode } from "react";
+import { render, renderHook } from "@testing-library/react";
+import I18nProvider from "../components/I18nProvider";
+import PhoneInputConfigProvider from "../components/PhoneInputConfigProvider";
+import { createMockApi, MockApi } from "./mockApi";
+import { MOCK_CONFIG } from "./fixtures";
+import { PhoneInputConfigOptions } from "../config";
+
+/**
+ * Interface: ProviderOptions
+ *
+ * Options for renderWithProviders and renderHookWithProviders.
+ */
+export interface ProviderOptions {
+  mockApi?: MockApi;   // Answers the API requests; a new 'success' mock when omitted
+  locale?: string;     // Locale of the I18nProvider; English by default
+  config?: PhoneInputConfigOptions; // Configuration of the API client; MOCK_CONFIG by default
+}
+
+/**
+ * Creates a wrapper with the providers the hooks and components expect,
+ * with the API served by the mock.
+ *
+ * @param {ProviderOptions} options - The mock API, locale and configuration.
+ * @returns {React.FC} - The wrapper component.
+ */
+const createWrapper = ({ mockApi, locale, config }: Required<ProviderOptions>): React.FC<{ children: ReactNode }> => ({ children }) => (
+  <I18nProvider locale={locale}>
+    <PhoneInputConfigProvider config={config} adapter={mockApi.adapter}>
+      {children}
+    </PhoneInputConfigProvider>
+  </I18nProvider>
+);
+
+/**
+ * Renders an element inside the I18n and config providers.
+ *
+ * @param {ReactElement} ui - The element to render.
+ * @param {ProviderOptions} [options] - The mock API, locale and configuration.
+ * @returns {Object} - The testing-library render result and the mock API.
+ */
+export const renderWithProviders = (
+  ui: ReactElement,
+  { mockApi = createMockApi(), locale = "en", config = MOCK_CONFIG }: ProviderOptions = {}
+) => ({
+  ...render(ui, { wrapper: createWrapper({ mockApi, locale, config }) }),
+  mockApi,
+});
+
+/**
+ * Renders a hook inside the I18n and config providers.
+ *
+ * @param {Function} hook - Calls the hook under test and returns its result.
+ * @param {ProviderOptions} [options] - The mock API, locale and configuration.
+ * @returns {Object} - The testing-library renderHook result and the mock API.
+ */
+export const renderHookWithProviders = <T,>(
+  hook: () => T,
+  { mockApi = createMockApi(), locale = "en", config = MOCK_CONFIG }: ProviderOptions = {}
+) => ({
+  ...renderHook(hook, { wrapper: createWrapper({ mockApi, locale, config }) }),
+  mockApi,
+});
@@ -0,0 +1,10 @@
+// Adds DOM matchers such as toHaveFocus and toBeInTheDocument
+import '@testing-library/jest-dom';
+import { clearSendLimits } from './utils/sendLimits';
+
+// Cached countries, the last used country and send limits must not leak between tests
+afterEach(() => {
+  localStorage.clear();
+  sessionStorage.clear();
+  clearSendLimits();
+});
@@ -0,0 +1,72 @@
+import { ApiErrorKind } from '../api/errors';
+
+/**
+ * Type: CountrySelectionMethod
+ *
+ * How a country came to be selected.
+ */
+export type CountrySelectionMethod = 'click' | 'keyboard' | 'default' | 'paste';
+
+/**
+ * Type: ValidationFailureReason
+ *
+ * Why a phone number was rejected.
+ */
+export type ValidationFailureReason = 'length' | 'leading_digit' | 'number_type' | 'required' | 'country';
+
+/**
+ * Type: TelemetryEvent
+ *
+ * The events emitted for funnel analytics. Payloads never contain phone
+ * numbers, search text or codes: only ISO codes, API country IDs, counts
+ * and error kinds.
+ */
+export type TelemetryEvent =
+  | { type: 'selector_opened' }
+  | { type: 'country_selected'; country: string; method: CountrySelectionMethod }
+  | { type: 'search_no_results'; queryLength: number; isNumeric: boolean }
+  | { type: 'validation_failed'; country: string | null; reason: ValidationFailureReason; digitCount: number }
+  | { type: 'otp_requested'; countryId: string }
+  | { type: 'otp_request_failed'; countryId: string; errorKind: ApiErrorKind }
+  | { type: 'otp_resent' }
+  | { type: 'otp_verified'; attemptsUsed: number }
+  | { type: 'otp_verification_failed'; errorKind: ApiErrorKind; attemptsLeft: number }
+  | { type: 'otp_locked' }
+  | { type: 'api_error'; endpoint: 'access_token' | 'countries'; errorKind: ApiErrorKind };
+
+export type TelemetryEventType = TelemetryEvent['type'];
+
+/**
+ * Type: TrackedEvent
+ *
+ * An event as delivered to `onEvent`, with the time it happened.
+ */
+export type TrackedEvent = TelemetryEvent & { timestamp: number };
+
+/**
+ * Interface: ErrorReporter
+ *
+ * Receives errors caught by an ErrorBoundary, e.g. to forward them to an
+ * error tracking service.
+ */
+export interface ErrorReporter {
+  captureException: (error: Error, context: { componentStack?: string | null; boundary?: string }) => void;
+}
+
+/**
+ * Delivers an event to each handler. Handler failures are logged and
+ * swallowed so that analytics can never break the form.
+ *
+ * @param {TelemetryEvent} event - The event.
+ * @param {Array<Function | undefined>} handlers - The `onEvent` callbacks to call.
+ */
+export const dispatchEvent = (event: TelemetryEvent, handlers: Array<((event: TrackedEvent) => void) | undefined>) => {
+  const tracked: TrackedEvent = { ...event, timestamp: Date.now() };
+  handlers.forEach((handler) => {
+    try {
+      handler?.(tracked);
+    } catch (error) {
+      console.error('Telemetry handler failed:', error);
+    }
+  });
+};
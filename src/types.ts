@@ -52,3 +52,16 @@ export function isCountry(value: unknown): value is Country {
     CountryFields.PHONE_LENGTH in value
   );
 }
+
+/**
+ * Interface: PhoneInputValue
+ * 
+ * This interface represents the value of a phone input: the selected 
+ * country together with the number entered for it.
+ */
+export interface PhoneInputValue {
+  country: CountryWithISO | null;  // The selected country, or null before one is chosen
+  nationalNumber: string;          // The national number digits, without the trunk prefix
+  e164: string;                    // The number in E.164 format, or an empty string without a country
+  isValid: boolean;                // Whether the number satisfies the country's numbering plan
+}
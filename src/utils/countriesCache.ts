@@ -0,0 +1,76 @@
+import { Country } from '../types';
+import { decodeCountries } from '../api/decoders';
+
+// Bump when the cached shape changes so old entries are ignored
+const CACHE_VERSION = 1;
+
+const CACHE_KEY_PREFIX = 'country-code-selector:countries';
+
+// How long cached countries are considered fresh, in milliseconds
+export const COUNTRIES_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+interface CachedCountries {
+  version: number;                      // CACHE_VERSION at the time of writing
+  savedAt: number;                      // When the entry was written, in milliseconds since the epoch
+  countries: Record<string, Country>;   // The cached countries
+}
+
+/**
+ * Interface: CountriesCacheEntry
+ *
+ * Countries read from the cache, with their freshness.
+ */
+export interface CountriesCacheEntry {
+  countries: Record<string, Country>;  // The cached countries
+  isStale: boolean;                    // True once the entry is older than the TTL
+}
+
+/**
+ * Builds the storage key for a data source, so tenants with different
+ * API base URLs do not share cached countries.
+ *
+ * @param {string} source - Identifies the API the countries came from.
+ * @returns {string} - The storage key.
+ */
+const getCacheKey = (source: string) => `${CACHE_KEY_PREFIX}:${source}`;
+
+/**
+ * Reads cached countries from localStorage.
+ *
+ * @param {string} source - Identifies the API the countries came from.
+ * @returns {CountriesCacheEntry | null} - The cached countries, or null when there are
+ * none, they were written by another version, they fail validation, or storage
+ * is unavailable.
+ */
+export const readCountriesCache = (source: string): CountriesCacheEntry | null => {
+  try {
+    const raw = window.localStorage.getItem(getCacheKey(source));
+    if (!raw) return null;
+
+    const cached: CachedCountries = JSON.parse(raw);
+    if (cached.version !== CACHE_VERSION || typeof cached.savedAt !== 'number') {
+      return null;
+    }
+    return {
+      countries: decodeCountries(cached.countries), // Throws for unusable entries, like the API response
+      isStale: Date.now() - cached.savedAt > COUNTRIES_CACHE_TTL,
+    };
+  } catch {
+    return null; // Storage disabled or corrupted entry
+  }
+};
+
+/**
+ * Writes countries to localStorage. Failures (quota, private mode) are ignored.
+ *
+ * @param {string} source - Identifies the API the countries came from.
+ * @param {Record<string, Country>} countries - The countries to cache.
+ */
+export const writeCountriesCache = (source: string, countries: Record<string, Country>) => {
+  try {
+    const entry: CachedCountries = { version: CACHE_VERSION, savedAt: Date.now(), countries };
+    window.localStorage.setItem(getCacheKey(source), JSON.stringify(entry));
+  } catch {
+    // Caching is best effort
+  }
+};
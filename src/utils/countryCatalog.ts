@@ -0,0 +1,56 @@
+import { Country, CountryWithISO } from '../types';
+import { createCountrySearchIndex, CountrySearchIndex } from './countrySearch';
+
+/**
+ * Interface: CountryCatalog
+ *
+ * The data every country selector derives from the same countries and
+ * locale.
+ */
+export interface CountryCatalog {
+  countries: CountryWithISO[];      // The API countries with their ISO codes, in API order
+  localized: CountryWithISO[];      // The same countries with localized names, sorted for the locale
+  searchIndex: CountrySearchIndex;  // Search data over the localized names, also matching the API names
+}
+
+// Catalogs by countries object, then by the translator's countryName function
+const catalogs = new WeakMap<Record<string, Country>, WeakMap<(country: CountryWithISO) => string, CountryCatalog>>();
+
+/**
+ * Returns the catalog for a countries object in a locale, building it on
+ * first use. Selectors rendering the same countries, such as the rows of a
+ * phone list, share one catalog instead of each sorting and indexing the
+ * list. Entries are released with the countries object.
+ *
+ * @param {Record<string, Country>} countries - An object mapping ISO codes to country objects.
+ * @param {Function} countryName - The translator's localized country name lookup.
+ * @param {string} locale - The translator's locale, used to sort the names.
+ * @returns {CountryCatalog} - The shared catalog.
+ */
+export const getCountryCatalog = (
+  countries: Record<string, Country>,
+  countryName: (country: CountryWithISO) => string,
+  locale: string
+): CountryCatalog => {
+  let byTranslator = catalogs.get(countries);
+  if (!byTranslator) {
+    byTranslator = new WeakMap();
+    catalogs.set(countries, byTranslator);
+  }
+
+  let catalog = byTranslator.get(countryName);
+  if (!catalog) {
+    const list = Object.entries(countries).map(([iso, country]) => ({ ...country, iso }));
+    const collator = new Intl.Collator(locale);
+    const localized = list
+      .map((country) => ({ ...country, name: countryName(country) }))
+      .sort((a, b) => collator.compare(a.name, b.name));
+    catalog = {
+      countries: list,
+      localized,
+      searchIndex: createCountrySearchIndex(localized, (country) => [countries[country.iso]?.name ?? '']),
+    };
+    byTranslator.set(countryName, catalog);
+  }
+  return catalog;
+};
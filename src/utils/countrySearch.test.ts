@@ -0,0 +1,30 @@
+import { createCountrySearchIndex, searchCountries } from "./countrySearch";
+import { MOCK_COUNTRIES } from "../mocks/fixtures";
+
+const INDEX = createCountrySearchIndex(Object.entries(MOCK_COUNTRIES).map(([iso, country]) => ({ ...country, iso })));
+
+const search = (query: string) => searchCountries(INDEX, query);
+
+describe("searchCountries", () => {
+  it.each(["", "  ", "+", " + ", "-", "("])("returns every country without highlights for %j", (query) => {
+    const results = search(query);
+
+    expect(results).toHaveLength(INDEX.length);
+    expect(results.every(({ highlight, score }) => highlight === undefined && score === 0)).toBe(true);
+  });
+
+  it("highlights the calling code digits once a digit follows the +", () => {
+    expect(search("+4")).toEqual([
+      expect.objectContaining({ country: expect.objectContaining({ iso: "GB" }), highlight: { field: "calling_code", start: 1, end: 2 } }),
+      expect.objectContaining({ country: expect.objectContaining({ iso: "DE" }), highlight: { field: "calling_code", start: 1, end: 2 } }),
+    ]);
+    expect(search("+44")[0]).toMatchObject({ highlight: { field: "calling_code", start: 1, end: 3 } });
+  });
+
+  it("highlights name matches within the name", () => {
+    expect(search("king")[0]).toMatchObject({
+      country: expect.objectContaining({ iso: "GB" }),
+      highlight: { field: "name", start: 7, end: 11 },
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import { CountryWithISO } from '../types';
+
+/**
+ * ISO 3166-1 alpha-3 codes keyed by alpha-2 code, so users can search by
+ * either form.
+ */
+const ALPHA3_CODES: Record<string, string> = {
+  AD: 'AND', AE: 'ARE', AF: 'AFG', AG: 'ATG', AI: 'AIA', AL: 'ALB', AM: 'ARM', AO: 'AGO', AQ: 'ATA', AR: 'ARG',
+  AS: 'ASM', AT: 'AUT', AU: 'AUS', AW: 'ABW', AX: 'ALA', AZ: 'AZE', BA: 'BIH', BB: 'BRB', BD: 'BGD', BE: 'BEL',
+  BF: 'BFA', BG: 'BGR', BH: 'BHR', BI: 'BDI', BJ: 'BEN', BL: 'BLM', BM: 'BMU', BN: 'BRN', BO: 'BOL', BQ: 'BES',
+  BR: 'BRA', BS: 'BHS', BT: 'BTN', BV: 'BVT', BW: 'BWA', BY: 'BLR', BZ: 'BLZ', CA: 'CAN', CC: 'CCK', CD: 'COD',
+  CF: 'CAF', CG: 'COG', CH: 'CHE', CI: 'CIV', CK: 'COK', CL: 'CHL', CM: 'CMR', CN: 'CHN', CO: 'COL', CR: 'CRI',
+  CU: 'CUB', CV: 'CPV', CW: 'CUW', CX: 'CXR', CY: 'CYP', CZ: 'CZE', DE: 'DEU', DJ: 'DJI', DK: 'DNK', DM: 'DMA',
+  DO: 'DOM', DZ: 'DZA', EC: 'ECU', EE: 'EST', EG: 'EGY', EH: 'ESH', ER: 'ERI', ES: 'ESP', ET: 'ETH', FI: 'FIN',
+  FJ: 'FJI', FK: 'FLK', FM: 'FSM', FO: 'FRO', FR: 'FRA', GA: 'GAB', GB: 'GBR', GD: 'GRD', GE: 'GEO', GF: 'GUF',
+  GG: 'GGY', GH: 'GHA', GI: 'GIB', GL: 'GRL', GM: 'GMB', GN: 'GIN', GP: 'GLP', GQ: 'GNQ', GR: 'GRC', GS: 'SGS',
+  GT: 'GTM', GU: 'GUM', GW: 'GNB', GY: 'GUY', HK: 'HKG', HM: 'HMD', HN: 'HND', HR: 'HRV', HT: 'HTI', HU: 'HUN',
+  ID: 'IDN', IE: 'IRL', IL: 'ISR', IM: 'IMN', IN: 'IND', IO: 'IOT', IQ: 'IRQ', IR: 'IRN', IS: 'ISL', IT: 'ITA',
+  JE: 'JEY', JM: 'JAM', JO: 'JOR', JP: 'JPN', KE: 'KEN', KG: 'KGZ', KH: 'KHM', KI: 'KIR', KM: 'COM', KN: 'KNA',
+  KP: 'PRK', KR: 'KOR', KW: 'KWT', KY: 'CYM', KZ: 'KAZ', LA: 'LAO', LB: 'LBN', LC: 'LCA', LI: 'LIE', LK: 'LKA',
+  LR: 'LBR', LS: 'LSO', LT: 'LTU', LU: 'LUX', LV: 'LVA', LY: 'LBY', MA: 'MAR', MC: 'MCO', MD: 'MDA', ME: 'MNE',
+  MF: 'MAF', MG: 'MDG', MH: 'MHL', MK: 'MKD', ML: 'MLI', MM: 'MMR', MN: 'MNG', MO: 'MAC', MP: 'MNP', MQ: 'MTQ',
+  MR: 'MRT', MS: 'MSR', MT: 'MLT', MU: 'MUS', MV: 'MDV', MW: 'MWI', MX: 'MEX', MY: 'MYS', MZ: 'MOZ', NA: 'NAM',
+  NC: 'NCL', NE: 'NER', NF: 'NFK', NG: 'NGA', NI: 'NIC', NL: 'NLD', NO: 'NOR', NP: 'NPL', NR: 'NRU', NU: 'NIU',
+  NZ: 'NZL', OM: 'OMN', PA: 'PAN', PE: 'PER', PF: 'PYF', PG: 'PNG', PH: 'PHL', PK: 'PAK', PL: 'POL', PM: 'SPM',
+  PN: 'PCN', PR: 'PRI', PS: 'PSE', PT: 'PRT', PW: 'PLW', PY: 'PRY', QA: 'QAT', RE: 'REU', RO: 'ROU', RS: 'SRB',
+  RU: 'RUS', RW: 'RWA', SA: 'SAU', SB: 'SLB', SC: 'SYC', SD: 'SDN', SE: 'SWE', SG: 'SGP', SH: 'SHN', SI: 'SVN',
+  SJ: 'SJM', SK: 'SVK', SL: 'SLE', SM: 'SMR', SN: 'SEN', SO: 'SOM', SR: 'SUR', SS: 'SSD', ST: 'STP', SV: 'SLV',
+  SX: 'SXM', SY: 'SYR', SZ: 'SWZ', TC: 'TCA', TD: 'TCD', TF: 'ATF', TG: 'TGO', TH: 'THA', TJ: 'TJK', TK: 'TKL',
+  TL: 'TLS', TM: 'TKM', TN: 'TUN', TO: 'TON', TR: 'TUR', TT: 'TTO', TV: 'TUV', TW: 'TWN', TZ: 'TZA', UA: 'UKR',
+  UG: 'UGA', UM: 'UMI', US: 'USA', UY: 'URY', UZ: 'UZB', VA: 'VAT', VC: 'VCT', VE: 'VEN', VG: 'VGB', VI: 'VIR',
+  VN: 'VNM', VU: 'VUT', WF: 'WLF', WS: 'WSM', XK: 'XKX', YE: 'YEM', YT: 'MYT', ZA: 'ZAF', ZM: 'ZMB', ZW: 'ZWE',
+};
+
+/**
+ * Common alternative names keyed by alpha-2 code.
+ */
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  AE: ['UAE', 'Emirates'],
+  BO: ['Bolivia'],
+  CD: ['DRC', 'Congo-Kinshasa'],
+  CG: ['Congo-Brazzaville'],
+  CI: ['Ivory Coast', "Cote d'Ivoire"],
+  CV: ['Cabo Verde'],
+  CZ: ['Czechia', 'Czech Republic'],
+  FM: ['Micronesia'],
+  GB: ['UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'],
+  IR: ['Iran'],
+  KP: ['North Korea'],
+  KR: ['South Korea', 'Korea'],
+  LA: ['Laos'],
+  MD: ['Moldova'],
+  MK: ['Macedonia'],
+  MM: ['Burma'],
+  NL: ['Holland'],
+  PS: ['Palestine'],
+  RU: ['Russia'],
+  SY: ['Syria'],
+  SZ: ['Swaziland'],
+  TL: ['East Timor'],
+  TR: ['Turkiye', 'Türkiye'],
+  TW: ['Taiwan'],
+  TZ: ['Tanzania'],
+  US: ['USA', 'America', 'United States of America'],
+  VA: ['Vatican', 'Holy See'],
+  VE: ['Venezuela'],
+  VN: ['Vietnam'],
+};
+
+/**
+ * Interface: SearchHighlight
+ *
+ * The part of a displayed field that matched the search, as a half-open
+ * range of character positions.
+ */
+export interface SearchHighlight {
+  field: 'name' | 'calling_code';  // The field the range refers to
+  start: number;                   // Index of the first matched character
+  end: number;                     // Index after the last matched character
+}
+
+/**
+ * Interface: CountrySearchResult
+ *
+ * A country matching the search query, with its ranking score.
+ */
+export interface CountrySearchResult {
+  country: CountryWithISO;       // The matching country
+  score: number;                 // Higher scores are listed first
+  highlight?: SearchHighlight;   // The matched part of the name or calling code
+}
+
+interface FoldedText {
+  text: string;        // The folded text
+  positions: number[]; // Position in the original text of each folded character
+}
+
+interface SearchEntry {
+  country: CountryWithISO;
+  name: FoldedText;
+  aliases: string[];
+  iso2: string;
+  iso3: string;
+  callingCode: string;
+}
+
+// Score for each kind of match; exact code matches and prefixes rank first
+const SCORES = {
+  EXACT_CALLING_CODE: 100,
+  EXACT_ISO: 95,
+  EXACT_NAME: 90,
+  CALLING_CODE_PREFIX: 80,
+  NAME_PREFIX: 70,
+  ALIAS_PREFIX: 65,
+  WORD_PREFIX: 60,
+  NAME_SUBSTRING: 50,
+  ALIAS_SUBSTRING: 40,
+};
+
+/**
+ * Folds text for comparison: lowercases it, strips diacritics and
+ * apostrophes, and turns other punctuation into spaces. The position of
+ * each folded character in the original text is kept for highlighting.
+ *
+ * @param {string} value - The text to fold.
+ * @returns {FoldedText} - The folded text and its position map.
+ */
+const foldText = (value: string): FoldedText => {
+  let text = "";
+  const positions: number[] = [];
+  Array.from(value).forEach((char, index) => {
+    const folded = char
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "") // Remove combining diacritical marks
+      .replace(/['‘’`]/g, "") // Remove apostrophes
+      .replace(/[^\p{L}\p{N}]/gu, " ") // Treat other punctuation as spaces
+      .toLowerCase();
+    for (const c of folded) {
+      // Collapse runs of spaces so "St. Lucia" and "St Lucia" match
+      if (c === " " && (text.length === 0 || text.endsWith(" "))) continue;
+      text += c;
+      positions.push(index);
+    }
+  });
+  return { text, positions };
+};
+
+/**
+ * Type: CountrySearchIndex
+ *
+ * The precomputed search data for a list of countries.
+ */
+export type CountrySearchIndex = SearchEntry[];
+
+/**
+ * Builds a search index over the given countries.
+ *
+ * @param {CountryWithISO[]} countries - The countries to index.
+ * @param {Function} [getAlternateNames] - Extra names to match for a country, such as
+ *   its API name when the countries carry localized names.
+ * @returns {CountrySearchIndex} - The search index.
+ */
+export const createCountrySearchIndex = (
+  countries: CountryWithISO[],
+  getAlternateNames: (country: CountryWithISO) => string[] = () => []
+): CountrySearchIndex =>
+  countries.map((country) => {
+    const iso = country.iso.toUpperCase();
+    return {
+      country,
+      name: foldText(country.name),
+      aliases: [...(COUNTRY_ALIASES[iso] ?? []), ...getAlternateNames(country)]
+        .map((alias) => foldText(alias).text.trim()),
+      iso2: iso.toLowerCase(),
+      iso3: (ALPHA3_CODES[iso] ?? "").toLowerCase(),
+      callingCode: country.calling_code.replace(/\D/g, ""),
+    };
+  });
+
+/**
+ * Maps a match in the folded name back to a range in the original name.
+ *
+ * @param {FoldedText} name - The folded name.
+ * @param {number} start - Start of the match in the folded text.
+ * @param {number} length - Length of the match in the folded text.
+ * @returns {SearchHighlight} - The range in the original name.
+ */
+const toNameHighlight = (name: FoldedText, start: number, length: number): SearchHighlight => ({
+  field: 'name',
+  start: name.positions[start],
+  end: name.positions[start + length - 1] + 1,
+});
+
+/**
+ * Maps a match on the calling code digits back to a range in the
+ * displayed calling code, skipping "+" and other separators.
+ *
+ * @param {CountryWithISO} country - The matching country.
+ * @param {number} length - Number of matched digits.
+ * @returns {SearchHighlight} - The range in the displayed calling code.
+ */
+const toCallingCodeHighlight = (country: CountryWithISO, length: number): SearchHighlight => {
+  const display = country.calling_code;
+  const start = display.search(/\d/);
+  let end = start;
+  for (let digits = 0; end < display.length && digits < length; end++) {
+    if (/\d/.test(display[end])) digits++;
+  }
+  return { field: 'calling_code', start, end };
+};
+
+/**
+ * Scores a single index entry against a numeric query.
+ *
+ * @param {SearchEntry} entry - The entry to score.
+ * @param {string} digits - The query digits.
+ * @returns {CountrySearchResult | null} - The result, or null when the entry does not match.
+ */
+const matchCallingCode = (entry: SearchEntry, digits: string): CountrySearchResult | null => {
+  if (entry.callingCode === digits) {
+    return { country: entry.country, score: SCORES.EXACT_CALLING_CODE, highlight: toCallingCodeHighlight(entry.country, digits.length) };
+  }
+  if (entry.callingCode.startsWith(digits)) {
+    return { country: entry.country, score: SCORES.CALLING_CODE_PREFIX, highlight: toCallingCodeHighlight(entry.country, digits.length) };
+  }
+  return null;
+};
+
+/**
+ * Scores a single index entry against a text query.
+ *
+ * @param {SearchEntry} entry - The entry to score.
+ * @param {string} query - The folded query.
+ * @returns {CountrySearchResult | null} - The result, or null when the entry does not match.
+ */
+const matchText = (entry: SearchEntry, query: string): CountrySearchResult | null => {
+  const { country, name } = entry;
+
+  if (query === entry.iso2 || query === entry.iso3) {
+    return { country, score: SCORES.EXACT_ISO };
+  }
+  if (name.text === query) {
+    return { country, score: SCORES.EXACT_NAME, highlight: toNameHighlight(name, 0, query.length) };
+  }
+  if (entry.aliases.includes(query)) {
+    return { country, score: SCORES.EXACT_NAME };
+  }
+  if (name.text.startsWith(query)) {
+    return { country, score: SCORES.NAME_PREFIX, highlight: toNameHighlight(name, 0, query.length) };
+  }
+  if (entry.aliases.some((alias) => alias.startsWith(query))) {
+    return { country, score: SCORES.ALIAS_PREFIX };
+  }
+  const wordStart = name.text.indexOf(` ${query}`);
+  if (wordStart >= 0) {
+    return { country, score: SCORES.WORD_PREFIX, highlight: toNameHighlight(name, wordStart + 1, query.length) };
+  }
+  const index = name.text.indexOf(query);
+  if (index >= 0) {
+    return { country, score: SCORES.NAME_SUBSTRING, highlight: toNameHighlight(name, index, query.length) };
+  }
+  if (entry.aliases.some((alias) => alias.includes(query))) {
+    return { country, score: SCORES.ALIAS_SUBSTRING };
+  }
+  return null;
+};
+
+/**
+ * Searches the index by calling code (with or without "+"), ISO alpha-2 or
+ * alpha-3 code, alias, or accent-insensitive name. Results are ranked by
+ * match quality and otherwise keep the index order. An empty query, or one
+ * with no letters or digits such as a bare "+", returns every country.
+ *
+ * @param {CountrySearchIndex} index - The index built by createCountrySearchIndex.
+ * @param {string} query - The search text typed by the user.
+ * @returns {CountrySearchResult[]} - The matching countries, best first.
+ */
+export const searchCountries = (index: CountrySearchIndex, query: string): CountrySearchResult[] => {
+  const trimmed = query.trim();
+  const numeric = trimmed.match(/^\+?\s*(\d[\d\s-]*)$/);
+  const folded = foldText(trimmed).text.trim();
+  // A bare "+" starts a calling code and narrows nothing yet, like other punctuation
+  if (!numeric && !folded) {
+    return index.map((entry) => ({ country: entry.country, score: 0 }));
+  }
+
+  const results: CountrySearchResult[] = [];
+
+  index.forEach((entry) => {
+    const result = numeric
+      ? matchCallingCode(entry, numeric[1].replace(/\D/g, ""))
+      : matchText(entry, folded);
+    if (result) results.push(result);
+  });
+
+  // Array.prototype.sort is stable, so equal scores keep the index order
+  return results.sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,99 @@
+import { getLastUsedCountry, resolveDefaultCountry, saveLastUsedCountry } from "./defaultCountry";
+import { MOCK_COUNTRIES } from "../mocks/fixtures";
+
+const COUNTRIES = Object.entries(MOCK_COUNTRIES).map(([iso, country]) => ({ ...country, iso }));
+
+// Browser preferences consulted after the explicit default and the last used country
+const mockBrowser = ({ languages = [] as string[], timeZone = "Etc/UTC" } = {}) => {
+  jest.spyOn(navigator, "languages", "get").mockReturnValue(languages);
+  jest.spyOn(navigator, "language", "get").mockReturnValue(languages[0] ?? "");
+  jest.spyOn(Intl.DateTimeFormat.prototype, "resolvedOptions").mockReturnValue({
+    ...new Intl.DateTimeFormat("en").resolvedOptions(),
+    timeZone,
+  });
+};
+
+const resolveIso = (explicitIso?: string, countries = COUNTRIES) => resolveDefaultCountry(countries, explicitIso)?.iso;
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("resolveDefaultCountry", () => {
+  it("prefers the explicit default over everything else", () => {
+    mockBrowser({ languages: ["fr-FR"], timeZone: "Europe/Berlin" });
+    saveLastUsedCountry("MX");
+
+    expect(resolveIso("es")).toBe("ES");
+  });
+
+  it("uses the last used country when there is no explicit default", () => {
+    mockBrowser({ languages: ["fr-FR"], timeZone: "Europe/Berlin" });
+    saveLastUsedCountry("mx");
+
+    expect(resolveIso()).toBe("MX");
+  });
+
+  it("skips defaults that are not in the list", () => {
+    mockBrowser({ languages: ["fr-FR"] });
+    saveLastUsedCountry("JP");
+
+    expect(resolveIso("BR")).toBe("FR");
+  });
+
+  it("uses the region of the first preferred language that names a listed country", () => {
+    mockBrowser({ languages: ["en", "pt-BR", "de-DE", "fr-FR"], timeZone: "Europe/Madrid" });
+
+    expect(resolveIso()).toBe("DE");
+  });
+
+  it("reads region subtags from tags Intl.Locale rejects", () => {
+    mockBrowser({ languages: ["es_MX"] });
+
+    expect(resolveIso()).toBe("MX");
+  });
+
+  it("falls back to the time zone when no language names a region", () => {
+    mockBrowser({ languages: ["en", "fr"], timeZone: "America/Toronto" });
+
+    expect(resolveIso()).toBe("CA");
+  });
+
+  it("falls back to the first country when nothing else matches", () => {
+    mockBrowser({ languages: ["en"], timeZone: "Asia/Tokyo" });
+    const countries = [...COUNTRIES].reverse();
+
+    expect(resolveIso(undefined, countries)).toBe(countries[0].iso);
+  });
+
+  it("returns undefined for an empty list", () => {
+    mockBrowser();
+
+    expect(resolveDefaultCountry([], "US")).toBeUndefined();
+  });
+});
+
+describe("last used country", () => {
+  it("stores the ISO code in upper case", () => {
+    saveLastUsedCountry("gb");
+
+    expect(getLastUsedCountry()).toBe("GB");
+    expect(window.localStorage.getItem("country-code-selector:last-country")).toBe("GB");
+  });
+
+  it("returns null when nothing was stored", () => {
+    expect(getLastUsedCountry()).toBeNull();
+  });
+
+  it("treats unavailable storage as nothing stored", () => {
+    jest.spyOn(Storage.prototype, "getItem").mockImplementation(() => {
+      throw new Error("SecurityError");
+    });
+    jest.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new Error("SecurityError");
+    });
+
+    expect(() => saveLastUsedCountry("GB")).not.toThrow();
+    expect(getLastUsedCountry()).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import { CountryWithISO } from '../types';
+
+const LAST_COUNTRY_KEY = 'country-code-selector:last-country';
+
+/**
+ * Countries keyed by IANA time zone, used when the browser's languages do
+ * not name a region.
+ */
+const TIMEZONE_COUNTRIES: Record<string, string> = {
+  'Africa/Abidjan': 'CI', 'Africa/Accra': 'GH', 'Africa/Addis_Ababa': 'ET', 'Africa/Algiers': 'DZ',
+  'Africa/Cairo': 'EG', 'Africa/Casablanca': 'MA', 'Africa/Dakar': 'SN', 'Africa/Dar_es_Salaam': 'TZ',
+  'Africa/Johannesburg': 'ZA', 'Africa/Kampala': 'UG', 'Africa/Khartoum': 'SD', 'Africa/Kinshasa': 'CD',
+  'Africa/Lagos': 'NG', 'Africa/Luanda': 'AO', 'Africa/Maputo': 'MZ', 'Africa/Nairobi': 'KE',
+  'Africa/Tripoli': 'LY', 'Africa/Tunis': 'TN', 'Africa/Windhoek': 'NA',
+  'America/Anchorage': 'US', 'America/Argentina/Buenos_Aires': 'AR', 'America/Asuncion': 'PY',
+  'America/Bogota': 'CO', 'America/Caracas': 'VE', 'America/Chicago': 'US', 'America/Costa_Rica': 'CR',
+  'America/Denver': 'US', 'America/Edmonton': 'CA', 'America/Guatemala': 'GT', 'America/Guayaquil': 'EC',
+  'America/Halifax': 'CA', 'America/Havana': 'CU', 'America/Jamaica': 'JM', 'America/La_Paz': 'BO',
+  'America/Lima': 'PE', 'America/Los_Angeles': 'US', 'America/Managua': 'NI', 'America/Mexico_City': 'MX',
+  'America/Monterrey': 'MX', 'America/Montevideo': 'UY', 'America/New_York': 'US', 'America/Panama': 'PA',
+  'America/Phoenix': 'US', 'America/Port-au-Prince': 'HT', 'America/Puerto_Rico': 'PR', 'America/Regina': 'CA',
+  'America/Santiago': 'CL', 'America/Santo_Domingo': 'DO', 'America/Sao_Paulo': 'BR', 'America/St_Johns': 'CA',
+  'America/Tegucigalpa': 'HN', 'America/Tijuana': 'MX', 'America/Toronto': 'CA', 'America/Vancouver': 'CA',
+  'America/Winnipeg': 'CA', 'America/El_Salvador': 'SV', 'America/Detroit': 'US', 'America/Boise': 'US',
+  'America/Indiana/Indianapolis': 'US', 'America/Manaus': 'BR', 'America/Fortaleza': 'BR', 'America/Recife': 'BR',
+  'Pacific/Honolulu': 'US', 'Pacific/Auckland': 'NZ', 'Pacific/Fiji': 'FJ', 'Pacific/Guam': 'GU',
+  'Pacific/Port_Moresby': 'PG', 'Pacific/Tongatapu': 'TO', 'Pacific/Apia': 'WS',
+  'Asia/Almaty': 'KZ', 'Asia/Amman': 'JO', 'Asia/Baghdad': 'IQ', 'Asia/Baku': 'AZ', 'Asia/Bangkok': 'TH',
+  'Asia/Beirut': 'LB', 'Asia/Calcutta': 'IN', 'Asia/Colombo': 'LK', 'Asia/Damascus': 'SY', 'Asia/Dhaka': 'BD',
+  'Asia/Dubai': 'AE', 'Asia/Ho_Chi_Minh': 'VN', 'Asia/Hong_Kong': 'HK', 'Asia/Jakarta': 'ID',
+  'Asia/Jerusalem': 'IL', 'Asia/Kabul': 'AF', 'Asia/Karachi': 'PK', 'Asia/Kathmandu': 'NP', 'Asia/Kolkata': 'IN',
+  'Asia/Kuala_Lumpur': 'MY', 'Asia/Kuwait': 'KW', 'Asia/Macau': 'MO', 'Asia/Manila': 'PH', 'Asia/Muscat': 'OM',
+  'Asia/Qatar': 'QA', 'Asia/Riyadh': 'SA', 'Asia/Saigon': 'VN', 'Asia/Seoul': 'KR', 'Asia/Shanghai': 'CN',
+  'Asia/Singapore': 'SG', 'Asia/Taipei': 'TW', 'Asia/Tashkent': 'UZ', 'Asia/Tbilisi': 'GE', 'Asia/Tehran': 'IR',
+  'Asia/Tokyo': 'JP', 'Asia/Ulaanbaatar': 'MN', 'Asia/Yangon': 'MM', 'Asia/Yerevan': 'AM', 'Asia/Bahrain': 'BH',
+  'Asia/Phnom_Penh': 'KH', 'Asia/Vientiane': 'LA', 'Asia/Bishkek': 'KG', 'Asia/Dushanbe': 'TJ',
+  'Asia/Novosibirsk': 'RU', 'Asia/Vladivostok': 'RU', 'Asia/Yekaterinburg': 'RU', 'Asia/Nicosia': 'CY',
+  'Atlantic/Reykjavik': 'IS', 'Atlantic/Azores': 'PT', 'Atlantic/Canary': 'ES',
+  'Australia/Adelaide': 'AU', 'Australia/Brisbane': 'AU', 'Australia/Darwin': 'AU', 'Australia/Hobart': 'AU',
+  'Australia/Melbourne': 'AU', 'Australia/Perth': 'AU', 'Australia/Sydney': 'AU',
+  'Europe/Amsterdam': 'NL', 'Europe/Athens': 'GR', 'Europe/Belgrade': 'RS', 'Europe/Berlin': 'DE',
+  'Europe/Bratislava': 'SK', 'Europe/Brussels': 'BE', 'Europe/Bucharest': 'RO', 'Europe/Budapest': 'HU',
+  'Europe/Chisinau': 'MD', 'Europe/Copenhagen': 'DK', 'Europe/Dublin': 'IE', 'Europe/Helsinki': 'FI',
+  'Europe/Istanbul': 'TR', 'Europe/Kiev': 'UA', 'Europe/Kyiv': 'UA', 'Europe/Lisbon': 'PT',
+  'Europe/Ljubljana': 'SI', 'Europe/London': 'GB', 'Europe/Luxembourg': 'LU', 'Europe/Madrid': 'ES',
+  'Europe/Malta': 'MT', 'Europe/Minsk': 'BY', 'Europe/Monaco': 'MC', 'Europe/Moscow': 'RU', 'Europe/Oslo': 'NO',
+  'Europe/Paris': 'FR', 'Europe/Prague': 'CZ', 'Europe/Riga': 'LV', 'Europe/Rome': 'IT', 'Europe/Sarajevo': 'BA',
+  'Europe/Skopje': 'MK', 'Europe/Sofia': 'BG', 'Europe/Stockholm': 'SE', 'Europe/Tallinn': 'EE',
+  'Europe/Tirane': 'AL', 'Europe/Vienna': 'AT', 'Europe/Vilnius': 'LT', 'Europe/Warsaw': 'PL',
+  'Europe/Zagreb': 'HR', 'Europe/Zurich': 'CH',
+};
+
+/**
+ * Reads the country the user picked last time.
+ *
+ * @returns {string | null} - The ISO code, or null when none was saved or storage is unavailable.
+ */
+export const getLastUsedCountry = (): string | null => {
+  try {
+    return window.localStorage.getItem(LAST_COUNTRY_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Remembers the country the user picked, for the next visit.
+ *
+ * @param {string} iso - The ISO code of the picked country.
+ */
+export const saveLastUsedCountry = (iso: string) => {
+  try {
+    window.localStorage.setItem(LAST_COUNTRY_KEY, iso.toUpperCase());
+  } catch {
+    // Remembering the country is best effort
+  }
+};
+
+/**
+ * Extracts region subtags from the browser's preferred languages,
+ * e.g. "pt-BR" gives "BR".
+ *
+ * @returns {string[]} - ISO codes in order of preference.
+ */
+const getLanguageRegions = (): string[] => {
+  const languages = typeof navigator === 'undefined'
+    ? []
+    : navigator.languages?.length ? navigator.languages : [navigator.language];
+
+  return languages
+    .filter(Boolean)
+    .map((tag) => {
+      try {
+        return new Intl.Locale(tag).region;
+      } catch {
+        return tag.split(/[-_]/).slice(1).find((subtag) => /^[a-z]{2}$/i.test(subtag));
+      }
+    })
+    .filter((region): region is string => !!region && /^[a-z]{2}$/i.test(region))
+    .map((region) => region.toUpperCase());
+};
+
+/**
+ * Looks up the country of the browser's IANA time zone.
+ *
+ * @returns {string | null} - The ISO code, or null when the time zone is unknown.
+ */
+const getTimezoneCountry = (): string | null => {
+  try {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return TIMEZONE_COUNTRIES[timeZone] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Picks the country to preselect, trying in order: the explicit default,
+ * the country the user picked last time, the regions of the browser's
+ * languages, the browser's time zone, and finally the first country.
+ *
+ * @param {CountryWithISO[]} countries - The available countries.
+ * @param {string} [explicitIso] - An ISO code chosen by the host application.
+ * @returns {CountryWithISO | undefined} - The country to preselect, or undefined when the list is empty.
+ */
+export const resolveDefaultCountry = (
+  countries: CountryWithISO[],
+  explicitIso?: string
+): CountryWithISO | undefined => {
+  const byIso = new Map(countries.map((country) => [country.iso.toUpperCase(), country]));
+  const candidates = [
+    explicitIso,
+    getLastUsedCountry(),
+    ...getLanguageRegions(),
+    getTimezoneCountry(),
+  ];
+
+  for (const iso of candidates) {
+    const country = iso ? byIso.get(iso.toUpperCase()) : undefined;
+    if (country) return country;
+  }
+  return countries[0];
+};
@@ -0,0 +1,48 @@
+import { lazy, ComponentType, LazyExoticComponent } from 'react';
+
+/**
+ * Interface: RetryOptions
+ *
+ * How often and how patiently a failed import is repeated.
+ */
+export interface RetryOptions {
+  retries?: number;  // Attempts after the first one
+  delay?: number;    // Milliseconds before the first retry; doubled for each further retry
+}
+
+/**
+ * Calls an import function until it succeeds or the retries run out.
+ * Bundlers forget a chunk that failed to load, so calling the import
+ * again requests it again, e.g. after a network blip or a deploy.
+ *
+ * @param {Function} factory - The dynamic import, e.g. `() => import('./CountrySelector')`.
+ * @param {RetryOptions} [options] - Number of retries and the initial delay.
+ * @returns {Promise} - The module.
+ */
+export const retryImport = async <T>(
+  factory: () => Promise<T>,
+  { retries = 2, delay = 500 }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await factory();
+    } catch (error) {
+      if (attempt >= retries) throw error;
+      await new Promise((resolve) => setTimeout(resolve, delay * 2 ** attempt));
+    }
+  }
+};
+
+/**
+ * Like React.lazy, but retries a failed chunk import before giving up.
+ * React caches a rejected lazy component, so create a new one (e.g. when
+ * an error boundary resets) to try again after the retries run out.
+ *
+ * @param {Function} factory - The dynamic import of a module with a default export.
+ * @param {RetryOptions} [options] - Number of retries and the initial delay.
+ * @returns {React.LazyExoticComponent} - The lazy component.
+ */
+export const lazyWithRetry = <P>(
+  factory: () => Promise<{ default: ComponentType<P> }>,
+  options?: RetryOptions
+): LazyExoticComponent<ComponentType<P>> => lazy(() => retryImport(factory, options));
@@ -0,0 +1,145 @@
+import { Country, CountryWithISO } from '../types';
+import { getPhoneMetadata, normalizeNationalNumber } from './phoneMetadata';
+
+/**
+ * Interface: ParsedPhoneNumber
+ *
+ * The result of parsing a full international phone number.
+ */
+export interface ParsedPhoneNumber {
+  country: CountryWithISO;  // The country the number belongs to
+  callingCode: string;      // The calling code digits, without "+"
+  nationalNumber: string;   // The national significant number digits
+  e164: string;             // The number in E.164 format, e.g. "+442079460958"
+}
+
+/**
+ * Leading national digits used to tell apart countries sharing a calling
+ * code, keyed by ISO code. Numbers that match none of them are assigned to
+ * the main country for the code.
+ */
+const SHARED_CODE_PREFIXES: Record<string, RegExp> = {
+  CA: /^(204|226|236|249|250|263|289|306|343|354|365|367|368|382|387|403|416|418|428|431|437|438|450|460|468|474|506|514|519|548|579|581|584|587|600|604|613|639|647|672|683|705|709|742|753|778|780|782|807|819|825|867|873|879|902|905)/,
+  PR: /^(787|939)/,
+  DO: /^(809|829|849)/,
+  JM: /^(658|876)/,
+  TT: /^868/,
+  BS: /^242/,
+  BB: /^246/,
+  AI: /^264/,
+  AG: /^268/,
+  VG: /^284/,
+  VI: /^340/,
+  KY: /^345/,
+  BM: /^441/,
+  GD: /^473/,
+  TC: /^649/,
+  MS: /^664/,
+  MP: /^670/,
+  GU: /^671/,
+  AS: /^684/,
+  SX: /^721/,
+  LC: /^758/,
+  DM: /^767/,
+  VC: /^784/,
+  KN: /^869/,
+  KZ: /^[67]/,
+};
+
+// The country a shared calling code resolves to when no prefix matches.
+const MAIN_COUNTRY_BY_CODE: Record<string, string> = {
+  '1': 'US',
+  '7': 'RU',
+  '39': 'IT',
+  '44': 'GB',
+  '47': 'NO',
+  '61': 'AU',
+  '212': 'MA',
+  '262': 'RE',
+  '358': 'FI',
+  '590': 'GP',
+  '599': 'CW',
+};
+
+/**
+ * Picks the country a number belongs to among countries sharing its
+ * calling code.
+ *
+ * @param {CountryWithISO[]} candidates - Countries with the matching calling code.
+ * @param {string} callingCode - The calling code digits.
+ * @param {string} rest - The digits following the calling code.
+ * @returns {CountryWithISO} - The best matching country.
+ */
+const pickCountry = (candidates: CountryWithISO[], callingCode: string, rest: string) => {
+  if (candidates.length === 1) return candidates[0];
+
+  const byPrefix = candidates.find((country) => SHARED_CODE_PREFIXES[country.iso.toUpperCase()]?.test(rest));
+  if (byPrefix) return byPrefix;
+
+  const mainIso = MAIN_COUNTRY_BY_CODE[callingCode];
+  return candidates.find((country) => country.iso.toUpperCase() === mainIso) ?? candidates[0];
+};
+
+/**
+ * Extracts the national number from the digits following the calling code,
+ * removing a trunk prefix written as "+44 (0) 20..." along the way.
+ *
+ * @param {string} rest - The digits following the calling code.
+ * @param {CountryWithISO} country - The detected country.
+ * @returns {string} - The national number digits.
+ */
+const toNationalNumber = (rest: string, country: CountryWithISO) => {
+  if (getPhoneMetadata(country)) {
+    return normalizeNationalNumber(rest, country);
+  }
+  // Without metadata, drop a leading "0" only when it makes the number too long
+  const phoneLength = parseInt(country.phone_length, 10);
+  return rest.startsWith("0") && rest.length > phoneLength ? rest.slice(1) : rest;
+};
+
+/**
+ * Parses a phone number written in international form, i.e. starting with
+ * "+" or "00" followed by the calling code, and detects its country.
+ *
+ * @param {string} value - The raw value, e.g. "+44 20 7946 0958".
+ * @param {Record<string, Country>} countries - An object mapping ISO codes to country objects.
+ * @returns {ParsedPhoneNumber | null} - The parsed number, or null when the value is not
+ * an international number or its calling code is unknown.
+ */
+export const parseInternationalNumber = (
+  value: string,
+  countries: Record<string, Country>
+): ParsedPhoneNumber | null => {
+  const trimmed = value.trim();
+  const prefix = trimmed.match(/^(\+|00)/);
+  if (!prefix) return null;
+
+  const digits = trimmed.slice(prefix[0].length).replace(/\D/g, "");
+  if (!digits) return null;
+
+  // Group the countries by calling code digits, e.g. "+1" and "1" both become "1"
+  const countriesByCode = new Map<string, CountryWithISO[]>();
+  Object.entries(countries).forEach(([iso, country]) => {
+    const code = country.calling_code.replace(/\D/g, "");
+    countriesByCode.set(code, [...(countriesByCode.get(code) ?? []), { ...country, iso }]);
+  });
+
+  // Calling codes are prefix-free, so the longest match is the right one
+  for (let length = Math.min(4, digits.length); length > 0; length--) {
+    const callingCode = digits.slice(0, length);
+    const candidates = countriesByCode.get(callingCode);
+    if (!candidates) continue;
+
+    const rest = digits.slice(length);
+    const country = pickCountry(candidates, callingCode, rest);
+    const nationalNumber = toNationalNumber(rest, country);
+    return {
+      country,
+      callingCode,
+      nationalNumber,
+      e164: `+${callingCode}${nationalNumber}`,
+    };
+  }
+
+  return null;
+};
@@ -0,0 +1,152 @@
+import { applyMaskEdit, countDigits, fitMaskState, getCaretPosition, MaskEdit } from "./phoneMask";
+import { formatPhoneNumber } from "./phoneMetadata";
+import { MOCK_COUNTRIES } from "../mocks/fixtures";
+
+const country = (iso: string) => ({ ...MOCK_COUNTRIES[iso], iso });
+
+// An edit of the formatted value with the caret, or the selection, at the given positions
+const edit = (value: string, inputType: string, selectionStart: number, selectionEnd = selectionStart, data: string | null = null): MaskEdit =>
+  ({ value, inputType, selectionStart, selectionEnd, data });
+
+// Applies an edit the way PhoneInput does, returning the formatted text and caret position
+const applyInField = (maskEdit: MaskEdit, iso = "US") => {
+  const state = applyMaskEdit(maskEdit);
+  if (!state) return null;
+  const fitted = fitMaskState(state, country(iso));
+  const formatted = formatPhoneNumber(fitted.digits, country(iso));
+  return { formatted, caret: getCaretPosition(formatted, fitted.caret), isTruncated: fitted.isTruncated };
+};
+
+const US_NUMBER = "(201) 555-0123";
+
+describe("applyMaskEdit", () => {
+  describe("inserting", () => {
+    it("inserts a digit in the middle and keeps the caret after it", () => {
+      expect(applyMaskEdit(edit("(201) 555-01", "insertText", 6, 6, "9"))).toEqual({ digits: "201955501", caret: 4 });
+      expect(applyInField(edit("(201) 555-01", "insertText", 6, 6, "9"))).toEqual({ formatted: "(201) 955-501", caret: 7, isTruncated: false });
+    });
+
+    it("cuts off digits beyond the maximum length and reports it", () => {
+      expect(applyInField(edit(US_NUMBER, "insertText", 6, 6, "9"))).toEqual({ formatted: "(201) 955-5012", caret: 7, isTruncated: true });
+    });
+
+    it("replaces the selected digits", () => {
+      expect(applyMaskEdit(edit(US_NUMBER, "insertText", 6, 9, "9"))).toEqual({ digits: "20190123", caret: 4 });
+    });
+
+    it("keeps only the digits of inserted text", () => {
+      expect(applyMaskEdit(edit("(201) 5", "insertText", 7, 7, "a"))).toEqual({ digits: "2015", caret: 4 });
+    });
+  });
+
+  describe("deleting", () => {
+    it("removes the digit before a literal on Backspace", () => {
+      // The caret sits after ") ": the "1" goes, not the space
+      expect(applyMaskEdit(edit(US_NUMBER, "deleteContentBackward", 6))).toEqual({ digits: "205550123", caret: 2 });
+      expect(applyInField(edit(US_NUMBER, "deleteContentBackward", 6))).toMatchObject({ formatted: "(205) 550-123", caret: 3 });
+    });
+
+    it("removes the digit before a dash on Backspace", () => {
+      expect(applyMaskEdit(edit(US_NUMBER, "deleteContentBackward", 10))).toEqual({ digits: "201550123", caret: 5 });
+      expect(applyInField(edit(US_NUMBER, "deleteContentBackward", 10))).toMatchObject({ formatted: "(201) 550-123", caret: 8 });
+    });
+
+    it("removes the digit after a literal on Delete", () => {
+      // The caret sits before ") ": the first "5" goes
+      expect(applyMaskEdit(edit(US_NUMBER, "deleteContentForward", 4))).toEqual({ digits: "201550123", caret: 3 });
+      expect(applyInField(edit(US_NUMBER, "deleteContentForward", 4))).toMatchObject({ formatted: "(201) 550-123", caret: 4 });
+    });
+
+    it("does nothing on Backspace at the start or Delete at the end", () => {
+      expect(applyMaskEdit(edit(US_NUMBER, "deleteContentBackward", 1))).toEqual({ digits: "2015550123", caret: 0 });
+      expect(applyMaskEdit(edit(US_NUMBER, "deleteContentForward", 14))).toEqual({ digits: "2015550123", caret: 10 });
+    });
+
+    it("deletes a selection as a whole", () => {
+      expect(applyMaskEdit(edit(US_NUMBER, "deleteContentBackward", 3, 11))).toEqual({ digits: "20123", caret: 2 });
+    });
+
+    it("deletes the group of digits before the caret on word Backspace", () => {
+      expect(applyMaskEdit(edit(US_NUMBER, "deleteWordBackward", 14))).toEqual({ digits: "201555", caret: 6 });
+      // Literals next to the caret are skipped, then the previous group goes
+      expect(applyMaskEdit(edit(US_NUMBER, "deleteWordBackward", 10))).toEqual({ digits: "2010123", caret: 3 });
+      expect(applyInField(edit(US_NUMBER, "deleteWordBackward", 10))).toMatchObject({ formatted: "(201) 012-3", caret: 4 });
+    });
+
+    it("deletes the group of digits after the caret on word Delete", () => {
+      expect(applyMaskEdit(edit(US_NUMBER, "deleteWordForward", 5))).toEqual({ digits: "2010123", caret: 3 });
+    });
+
+    it("deletes to the start of the line", () => {
+      expect(applyMaskEdit(edit(US_NUMBER, "deleteSoftLineBackward", 9))).toEqual({ digits: "0123", caret: 0 });
+    });
+
+    it("leaves the digits alone when cutting nothing", () => {
+      expect(applyMaskEdit(edit(US_NUMBER, "deleteByCut", 6))).toEqual({ digits: "2015550123", caret: 3 });
+    });
+  });
+
+  describe("pasting", () => {
+    it("reads a formatted national number", () => {
+      expect(applyMaskEdit(edit("", "insertFromPaste", 0, 0, "(201) 555-0123"))).toEqual({ digits: "2015550123", caret: 10 });
+      expect(applyInField(edit("", "insertFromPaste", 0, 0, "(201) 555-0123"))).toMatchObject({ formatted: US_NUMBER, caret: 14 });
+    });
+
+    it("leaves international numbers pasted at the start to the change handler", () => {
+      expect(applyMaskEdit(edit("", "insertFromPaste", 0, 0, "+1 (201) 555-0123"))).toBeNull();
+      expect(applyMaskEdit(edit(US_NUMBER, "insertFromPaste", 0, 14, " +44 7400 123456"))).toBeNull();
+      expect(applyMaskEdit(edit("", "insertFromPaste", 0, 0, "0044 7400 123456"))).toBeNull();
+    });
+
+    it("keeps the digits of a + number pasted after the start", () => {
+      expect(applyMaskEdit(edit("(201) 5", "insertFromPaste", 7, 7, "+55"))).toEqual({ digits: "201555", caret: 6 });
+    });
+
+    it("drops a trunk prefix and moves the caret with it", () => {
+      expect(applyMaskEdit(edit("", "insertFromPaste", 0, 0, "07400 123456"))).toEqual({ digits: "07400123456", caret: 11 });
+      expect(applyInField(edit("", "insertFromPaste", 0, 0, "07400 123456"), "GB")).toEqual({ formatted: "7400 123456", caret: 11, isTruncated: false });
+    });
+  });
+
+  it("leaves edit types it does not know to the browser", () => {
+    expect(applyMaskEdit(edit(US_NUMBER, "historyUndo", 14))).toBeNull();
+    expect(applyMaskEdit(edit(US_NUMBER, "formatBold", 14))).toBeNull();
+  });
+});
+
+describe("fitMaskState", () => {
+  it("shifts the caret left when a trunk prefix is dropped", () => {
+    expect(fitMaskState({ digits: "07400123456", caret: 3 }, country("GB"))).toEqual({ digits: "7400123456", caret: 2, isTruncated: false });
+    expect(fitMaskState({ digits: "0612345678", caret: 1 }, country("FR"))).toEqual({ digits: "612345678", caret: 0, isTruncated: false });
+  });
+
+  it("keeps the caret within the number", () => {
+    expect(fitMaskState({ digits: "20155501234", caret: 11 }, country("US"))).toEqual({ digits: "2015550123", caret: 10, isTruncated: true });
+  });
+});
+
+describe("caret mapping", () => {
+  it("counts the digits before a position", () => {
+    expect(countDigits(US_NUMBER, 0)).toBe(0);
+    expect(countDigits(US_NUMBER, 6)).toBe(3);
+    expect(countDigits(US_NUMBER)).toBe(10);
+  });
+
+  it("places the caret right after the given digit, skipping literals", () => {
+    expect(getCaretPosition(US_NUMBER, 3)).toBe(4);
+    expect(getCaretPosition(US_NUMBER, 6)).toBe(9);
+    expect(getCaretPosition(US_NUMBER, 10)).toBe(14);
+  });
+
+  it("places the caret before the first digit for zero digits", () => {
+    expect(getCaretPosition(US_NUMBER, 0)).toBe(1);
+    expect(getCaretPosition("", 0)).toBe(0);
+  });
+
+  it("maps a position to digits and back to the same digit", () => {
+    for (let position = 0; position <= US_NUMBER.length; position++) {
+      const caret = getCaretPosition(US_NUMBER, countDigits(US_NUMBER, position));
+      expect(countDigits(US_NUMBER, caret)).toBe(countDigits(US_NUMBER, position));
+    }
+  });
+});
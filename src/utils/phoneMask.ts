@@ -0,0 +1,150 @@
+import { CountryWithISO } from '../types';
+import { getLengthBounds, normalizeNationalNumber } from './phoneMetadata';
+
+/**
+ * Interface: MaskEdit
+ *
+ * An edit about to be applied to the formatted phone number field, as
+ * described by a `beforeinput` event.
+ */
+export interface MaskEdit {
+  value: string;           // The formatted text currently in the field
+  selectionStart: number;  // Start of the selection, in characters
+  selectionEnd: number;    // End of the selection, in characters
+  inputType: string;       // The event's `inputType`, e.g. "insertText" or "deleteContentBackward"
+  data: string | null;     // The inserted text, if any
+}
+
+/**
+ * Interface: MaskState
+ *
+ * The digits of a phone number and the caret position among them. A caret
+ * of 2 sits right after the second digit, whatever literals surround it.
+ */
+export interface MaskState {
+  digits: string;  // The national number digits
+  caret: number;   // The number of digits before the caret
+}
+
+// Edits that insert text at the selection
+const INSERT_TYPES = ['insertText', 'insertFromPaste', 'insertFromDrop', 'insertReplacementText', 'insertFromYank'];
+
+const isDigit = (char: string | undefined) => char !== undefined && char >= '0' && char <= '9';
+
+/**
+ * Counts the digits before a position in a formatted value.
+ *
+ * @param {string} value - The formatted value.
+ * @param {number} [end] - The position, in characters; defaults to the end.
+ * @returns {number} - The number of digits before the position.
+ */
+export const countDigits = (value: string, end = value.length) => value.slice(0, end).replace(/\D/g, '').length;
+
+/**
+ * Maps a digit position to a position in the formatted value: right after
+ * the given number of digits, or before the first digit for 0.
+ *
+ * @param {string} formatted - The formatted value, e.g. "(201) 555-01".
+ * @param {number} digitCount - The number of digits before the caret.
+ * @returns {number} - The caret position in characters.
+ */
+export const getCaretPosition = (formatted: string, digitCount: number) => {
+  if (digitCount <= 0) {
+    const first = formatted.search(/\d/);
+    return first === -1 ? formatted.length : first;
+  }
+  let seen = 0;
+  for (let i = 0; i < formatted.length; i++) {
+    if (isDigit(formatted[i]) && ++seen === digitCount) return i + 1;
+  }
+  return formatted.length;
+};
+
+/**
+ * Finds where a word deletion stops: the start (or end) of the group of
+ * digits next to the caret, skipping the literals in between.
+ *
+ * @param {string} value - The formatted value.
+ * @param {number} position - The caret position in characters.
+ * @param {boolean} backward - Whether the deletion goes backward.
+ * @returns {number} - The other end of the deleted range, in characters.
+ */
+const findWordBoundary = (value: string, position: number, backward: boolean) => {
+  const step = backward ? -1 : 1;
+  const charAt = (index: number) => value[backward ? index - 1 : index];
+  let index = position;
+  while (charAt(index) !== undefined && !isDigit(charAt(index))) index += step;
+  while (isDigit(charAt(index))) index += step;
+  return index;
+};
+
+/**
+ * Applies an edit to the digits of a formatted phone number. Literals are
+ * never edited: deleting next to ")" or "-" removes the nearest digit
+ * instead, and inserted text keeps its digits only.
+ *
+ * International numbers (text starting with "+" or "00" inserted at the
+ * start) and edit types the engine does not know are left to the browser,
+ * signalled by null, so the field's change handler reads them.
+ *
+ * @param {MaskEdit} edit - The edit and the field's current state.
+ * @returns {MaskState | null} - The new digits and caret, or null when the edit is not handled.
+ */
+export const applyMaskEdit = ({ value, selectionStart, selectionEnd, inputType, data }: MaskEdit): MaskState | null => {
+  const digits = value.replace(/\D/g, '');
+  const start = countDigits(value, selectionStart);
+  const end = countDigits(value, selectionEnd);
+
+  if (INSERT_TYPES.includes(inputType)) {
+    const text = data ?? '';
+    if (selectionStart === 0 && /^\s*(\+|00)/.test(text)) return null;
+    const inserted = text.replace(/\D/g, '');
+    return { digits: digits.slice(0, start) + inserted + digits.slice(end), caret: start + inserted.length };
+  }
+
+  if (!inputType.startsWith('delete')) return null;
+
+  // A selection is deleted as a whole, whichever direction
+  if (start !== end) {
+    return { digits: digits.slice(0, start) + digits.slice(end), caret: start };
+  }
+
+  // Nothing is selected to cut or drag away
+  if (inputType === 'deleteByCut' || inputType === 'deleteByDrag') {
+    return { digits, caret: start };
+  }
+
+  const backward = inputType.endsWith('Backward');
+  let from = start;
+  let to = start;
+  if (inputType.startsWith('deleteWord')) {
+    const boundary = countDigits(value, findWordBoundary(value, selectionStart, backward));
+    [from, to] = backward ? [boundary, start] : [start, boundary];
+  } else if (inputType.startsWith('deleteSoftLine') || inputType.startsWith('deleteHardLine')) {
+    [from, to] = backward ? [0, start] : [start, digits.length];
+  } else if (backward) {
+    from = Math.max(0, start - 1);
+  } else {
+    to = Math.min(digits.length, start + 1);
+  }
+  return { digits: digits.slice(0, from) + digits.slice(to), caret: from };
+};
+
+/**
+ * Fits edited digits to a country's numbering plan, moving the caret with
+ * them: a trunk prefix that is dropped shifts the caret left, and digits
+ * beyond the maximum length are cut off.
+ *
+ * @param {MaskState} state - The edited digits and caret.
+ * @param {CountryWithISO} country - The selected country.
+ * @returns {MaskState & { isTruncated: boolean }} - The national number, the caret, and whether digits were cut off.
+ */
+export const fitMaskState = ({ digits, caret }: MaskState, country: CountryWithISO) => {
+  const nationalNumber = normalizeNationalNumber(digits, country).slice(0, getLengthBounds(country).max);
+  const offset = digits.startsWith(nationalNumber) ? 0 : Math.max(0, digits.indexOf(nationalNumber));
+  return {
+    digits: nationalNumber,
+    caret: Math.min(Math.max(0, caret - offset), nationalNumber.length),
+    isTruncated: digits.length - offset > nationalNumber.length,
+  };
+};
@@ -0,0 +1,482 @@
+import { CountryWithISO } from '../types';
+import { DEFAULT_TRANSLATOR, Translator } from '../i18n/translate';
+
+/**
+ * Interface: PhoneFormat
+ *
+ * A grouping pattern for national numbers. Each `X` in the pattern is
+ * replaced by a digit; every other character is a literal separator.
+ */
+export interface PhoneFormat {
+  pattern: string;         // Grouping pattern, e.g. "XX XXXX XXXX"
+  leadingDigits?: RegExp;  // Only use this pattern when the number matches
+}
+
+/**
+ * Type: PhoneNumberType
+ *
+ * What kind of line a number belongs to. `unknown` covers numbers the
+ * metadata cannot classify, including geographic numbers of plans such as
+ * NANP where mobile and fixed-line numbers share the same ranges.
+ */
+export type PhoneNumberType = 'mobile' | 'fixed_line' | 'toll_free' | 'premium' | 'voip' | 'unknown';
+
+/**
+ * Interface: PhoneNumberRange
+ *
+ * A range of national numbers of one type.
+ */
+export interface PhoneNumberRange {
+  type: Exclude<PhoneNumberType, 'unknown'>;  // The type of the numbers in the range
+  leadingDigits: RegExp;                      // Matches the national numbers in the range
+}
+
+/**
+ * Interface: PhoneMetadata
+ *
+ * Numbering plan rules for a single country. Lengths refer to the national
+ * significant number, i.e. without the calling code and trunk prefix.
+ */
+export interface PhoneMetadata {
+  formats: PhoneFormat[];  // Grouping patterns, checked in order
+  minLength: number;       // Shortest valid national number
+  maxLength: number;       // Longest valid national number
+  leadingDigits?: RegExp;  // Digits a national number is allowed to start with
+  trunkPrefix?: string;    // Prefix dialled domestically, e.g. "0" in the UK
+  numberRanges?: PhoneNumberRange[]; // Number types by leading digits, checked in order
+}
+
+// Shared by the countries of the North American Numbering Plan.
+const NANP: PhoneMetadata = {
+  formats: [{ pattern: '(XXX) XXX-XXXX' }],
+  minLength: 10,
+  maxLength: 10,
+  leadingDigits: /^[2-9]/,
+  trunkPrefix: '1',
+  // Geographic numbers can be mobile or fixed-line, so only special ranges are classified
+  numberRanges: [
+    { type: 'toll_free', leadingDigits: /^8(00|33|44|55|66|77|88)/ },
+    { type: 'premium', leadingDigits: /^900/ },
+  ],
+};
+
+/**
+ * Numbering plan metadata keyed by ISO 3166-1 alpha-2 code. Countries that
+ * are not listed fall back to the API's `phone_length` and the US mask.
+ */
+export const PHONE_METADATA: Record<string, PhoneMetadata> = {
+  US: NANP,
+  CA: NANP,
+  GB: {
+    formats: [
+      { pattern: 'XXXX XXXXXX', leadingDigits: /^7/ },
+      { pattern: 'XX XXXX XXXX', leadingDigits: /^[235689]/ },
+      { pattern: 'XXX XXX XXXX', leadingDigits: /^1(1|\d1)/ },
+      { pattern: 'XXXX XXXXXX' },
+    ],
+    minLength: 9,
+    maxLength: 10,
+    leadingDigits: /^[1-9]/,
+    trunkPrefix: '0',
+    numberRanges: [
+      { type: 'mobile', leadingDigits: /^7([1-57-9]|624)/ },
+      { type: 'fixed_line', leadingDigits: /^[12]/ },
+      { type: 'toll_free', leadingDigits: /^80[08]/ },
+      { type: 'premium', leadingDigits: /^9[018]/ },
+      { type: 'voip', leadingDigits: /^56/ },
+    ],
+  },
+  DE: {
+    formats: [
+      { pattern: 'XXXX XXXXXXX', leadingDigits: /^1[5-7]/ },
+      { pattern: 'XX XXXXXXXX', leadingDigits: /^(30|40|69|89)/ },
+      { pattern: 'XXXX XXXXXXX' },
+    ],
+    minLength: 6,
+    maxLength: 11,
+    leadingDigits: /^[1-9]/,
+    trunkPrefix: '0',
+    numberRanges: [
+      { type: 'mobile', leadingDigits: /^1[5-7]/ },
+      { type: 'toll_free', leadingDigits: /^800/ },
+      { type: 'premium', leadingDigits: /^900/ },
+      { type: 'voip', leadingDigits: /^32/ },
+      { type: 'fixed_line', leadingDigits: /^[2-9]/ },
+    ],
+  },
+  FR: {
+    formats: [{ pattern: 'X XX XX XX XX' }],
+    minLength: 9,
+    maxLength: 9,
+    leadingDigits: /^[1-9]/,
+    trunkPrefix: '0',
+    numberRanges: [
+      { type: 'mobile', leadingDigits: /^[67]/ },
+      { type: 'fixed_line', leadingDigits: /^[1-5]/ },
+      { type: 'toll_free', leadingDigits: /^80[0-5]/ },
+      { type: 'premium', leadingDigits: /^8[19]/ },
+      { type: 'voip', leadingDigits: /^9/ },
+    ],
+  },
+  ES: {
+    formats: [{ pattern: 'XXX XX XX XX' }],
+    minLength: 9,
+    maxLength: 9,
+    leadingDigits: /^[5-9]/,
+    numberRanges: [
+      { type: 'mobile', leadingDigits: /^(6|7[1-4])/ },
+      { type: 'toll_free', leadingDigits: /^[89]00/ },
+      { type: 'premium', leadingDigits: /^(80[367]|90[57])/ },
+      { type: 'fixed_line', leadingDigits: /^[89]/ },
+    ],
+  },
+  IT: {
+    formats: [{ pattern: 'XXX XXX XXXX' }],
+    minLength: 6,
+    maxLength: 11,
+    numberRanges: [
+      { type: 'mobile', leadingDigits: /^3/ },
+      { type: 'fixed_line', leadingDigits: /^0/ },
+      { type: 'toll_free', leadingDigits: /^80[03]/ },
+      { type: 'premium', leadingDigits: /^89/ },
+    ],
+  },
+  NL: {
+    formats: [
+      { pattern: 'X XXXXXXXX', leadingDigits: /^6/ },
+      { pattern: 'XX XXX XXXX' },
+    ],
+    minLength: 9,
+    maxLength: 9,
+    leadingDigits: /^[1-9]/,
+    trunkPrefix: '0',
+    numberRanges: [
+      { type: 'mobile', leadingDigits: /^6[1-58]/ },
+      { type: 'toll_free', leadingDigits: /^800/ },
+      { type: 'premium', leadingDigits: /^90[069]/ },
+      { type: 'voip', leadingDigits: /^(85|91)/ },
+      { type: 'fixed_line', leadingDigits: /^[1-57]/ },
+    ],
+  },
+  RU: {
+    formats: [{ pattern: 'XXX XXX-XX-XX' }],
+    minLength: 10,
+    maxLength: 10,
+    leadingDigits: /^[3489]/,
+    trunkPrefix: '8',
+    numberRanges: [
+      { type: 'mobile', leadingDigits: /^9/ },
+      { type: 'toll_free', leadingDigits: /^800/ },
+      { type: 'premium', leadingDigits: /^809/ },
+      { type: 'fixed_line', leadingDigits: /^[348]/ },
+    ],
+  },
+  BR: {
+    formats: [
+      { pattern: '(XX) XXXXX-XXXX', leadingDigits: /^\d{2}9/ },
+      { pattern: '(XX) XXXX-XXXX' },
+    ],
+    minLength: 10,
+    maxLength: 11,
+    leadingDigits: /^[1-9]/,
+    trunkPrefix: '0',
+    numberRanges: [
+      { type: 'mobile', leadingDigits: /^\d{2}9/ },
+      { type: 'fixed_line', leadingDigits: /^\d{2}[2-5]/ },
+    ],
+  },
+  MX: {
+    formats: [{ pattern: 'XX XXXX XXXX' }],
+    minLength: 10,
+    maxLength: 10,
+    leadingDigits: /^[1-9]/,
+    numberRanges: [
+      { type: 'toll_free', leadingDigits: /^800/ },
+      { type: 'premium', leadingDigits: /^900/ },
+    ],
+  },
+  JP: {
+    formats: [
+      { pattern: 'XX-XXXX-XXXX', leadingDigits: /^[789]0/ },
+      { pattern: 'X-XXXX-XXXX', leadingDigits: /^[36]/ },
+      { pattern: 'XX-XXX-XXXX' },
+    ],
+    minLength: 9,
+    maxLength: 10,
+    leadingDigits: /^[1-9]/,
+    trunkPrefix: '0',
+    numberRanges: [
+      { type: 'mobile', leadingDigits: /^[789]0/ },
+      { type: 'toll_free', leadingDigits: /^(120|800)/ },
+      { type: 'premium', leadingDigits: /^990/ },
+      { type: 'voip', leadingDigits: /^50/ },
+      { type: 'fixed_line', leadingDigits: /^[1-9]/ },
+    ],
+  },
+  KR: {
+    formats: [
+      { pattern: 'XX-XXXX-XXXX', leadingDigits: /^1/ },
+      { pattern: 'X-XXXX-XXXX', leadingDigits: /^2/ },
+      { pattern: 'XX-XXX-XXXX' },
+    ],
+    minLength: 9,
+    maxLength: 10,
+    leadingDigits: /^[1-9]/,
+    trunkPrefix: '0',
+    numberRanges: [
+      { type: 'mobile', leadingDigits: /^1[016-9]/ },
+      { type: 'toll_free', leadingDigits: /^80/ },
+      { type: 'premium', leadingDigits: /^60/ },
+      { type: 'voip', leadingDigits: /^70/ },
+      { type: 'fixed_line', leadingDigits: /^[2-6]/ },
+    ],
+  },
+  CN: {
+    formats: [
+      { pattern: 'XXX XXXX XXXX', leadingDigits: /^1/ },
+      { pattern: 'XX XXXX XXXX' },
+    ],
+    minLength: 9,
+    maxLength: 11,
+    leadingDigits: /^[1-9]/,
+    trunkPrefix: '0',
+    numberRanges: [
+      { type: 'mobile', leadingDigits: /^1[3-9]/ },
+      { type: 'toll_free', leadingDigits: /^800/ },
+      { type: 'fixed_line', leadingDigits: /^[2-9]/ },
+    ],
+  },
+  IN: {
+    formats: [{ pattern: 'XXXXX XXXXX' }],
+    minLength: 10,
+    maxLength: 10,
+    leadingDigits: /^[1-9]/,
+    trunkPrefix: '0',
+    numberRanges: [
+      { type: 'toll_free', leadingDigits: /^1800/ },
+      { type: 'mobile', leadingDigits: /^[6-9]/ },
+      { type: 'fixed_line', leadingDigits: /^[1-5]/ },
+    ],
+  },
+  AU: {
+    formats: [
+      { pattern: 'XXX XXX XXX', leadingDigits: /^4/ },
+      { pattern: 'X XXXX XXXX' },
+    ],
+    minLength: 9,
+    maxLength: 9,
+    leadingDigits: /^[2-478]/,
+    trunkPrefix: '0',
+    numberRanges: [
+      { type: 'mobile', leadingDigits: /^4/ },
+      { type: 'fixed_line', leadingDigits: /^[2378]/ },
+    ],
+  },
+  ZA: {
+    formats: [{ pattern: 'XX XXX XXXX' }],
+    minLength: 9,
+    maxLength: 9,
+    leadingDigits: /^[1-8]/,
+    trunkPrefix: '0',
+    numberRanges: [
+      { type: 'toll_free', leadingDigits: /^80/ },
+      { type: 'mobile', leadingDigits: /^(6|7|8[1-4])/ },
+      { type: 'fixed_line', leadingDigits: /^[1-5]/ },
+    ],
+  },
+};
+
+/**
+ * Looks up the numbering plan metadata for a country.
+ *
+ * @param {CountryWithISO} country - The country to look up.
+ * @returns {PhoneMetadata | undefined} - The metadata, or undefined when the country has none.
+ */
+export const getPhoneMetadata = (country: CountryWithISO): PhoneMetadata | undefined =>
+  PHONE_METADATA[country.iso.toUpperCase()];
+
+/**
+ * Returns the valid national number length range for a country, using the
+ * API's `phone_length` when no metadata is available.
+ *
+ * @param {CountryWithISO} country - The selected country.
+ * @returns {{ min: number, max: number }} - The inclusive length bounds.
+ */
+export const getLengthBounds = (country: CountryWithISO) => {
+  const metadata = getPhoneMetadata(country);
+  if (metadata) {
+    return { min: metadata.minLength, max: metadata.maxLength };
+  }
+  const length = parseInt(country.phone_length, 10);
+  return { min: length, max: length };
+};
+
+/**
+ * Extracts the national significant number from user input: keeps digits
+ * only, removes the trunk prefix and drops digits beyond the maximum length.
+ *
+ * @param {string} value - The raw input value.
+ * @param {CountryWithISO} country - The selected country.
+ * @returns {string} - The national number digits.
+ */
+export const normalizeNationalNumber = (value: string, country: CountryWithISO) => {
+  let digits = value.replace(/\D/g, ""); // Remove non-digit characters
+  const metadata = getPhoneMetadata(country);
+  if (!metadata) return digits;
+
+  // Only treat the prefix as a trunk prefix when the number cannot be valid with it
+  const { trunkPrefix, leadingDigits, maxLength } = metadata;
+  if (
+    trunkPrefix &&
+    digits.startsWith(trunkPrefix) &&
+    (digits.length > maxLength || (leadingDigits && !leadingDigits.test(digits)))
+  ) {
+    digits = digits.slice(trunkPrefix.length);
+  }
+  return digits.slice(0, maxLength);
+};
+
+/**
+ * Fills a grouping pattern with digits. Trailing separators are omitted
+ * until the next digit is typed, and digits beyond the pattern are
+ * appended to the last group.
+ *
+ * @param {string} digits - The digits to format.
+ * @param {string} pattern - The grouping pattern.
+ * @returns {string} - The formatted digits.
+ */
+const applyPattern = (digits: string, pattern: string) => {
+  let formatted = "";
+  let index = 0;
+  for (const char of pattern) {
+    if (index >= digits.length) break;
+    formatted += char === "X" ? digits[index++] : char;
+  }
+  return formatted + digits.slice(index);
+};
+
+/**
+ * Picks the grouping pattern that applies to the given digits.
+ *
+ * @param {string} digits - The national number digits.
+ * @param {PhoneMetadata} metadata - The country's metadata.
+ * @returns {PhoneFormat} - The first format whose leading digits match.
+ */
+const selectFormat = (digits: string, metadata: PhoneMetadata) =>
+  metadata.formats.find((format) => !format.leadingDigits || format.leadingDigits.test(digits))
+    ?? metadata.formats[metadata.formats.length - 1];
+
+/**
+ * Formats a phone number for display according to the selected country.
+ * Countries without metadata use the `(XXX) XXX-XXXX` mask.
+ *
+ * @param {string} value - The raw input value from the phone number field.
+ * @param {CountryWithISO} country - The selected country.
+ * @returns {string} - The formatted phone number string.
+ */
+export const formatPhoneNumber = (value: string, country: CountryWithISO) => {
+  const metadata = getPhoneMetadata(country);
+  if (metadata) {
+    const digits = normalizeNationalNumber(value, country);
+    return applyPattern(digits, selectFormat(digits, metadata).pattern);
+  }
+
+  const digits = value.replace(/\D/g, ""); // Remove non-digit characters
+  const phoneLength = parseInt(country.phone_length, 10);
+
+  // Format based on the length of the digits
+  if (digits.length <= 3) {
+    return `(${digits}`; // Initial area code
+  } else if (digits.length <= 6) {
+    return `(${digits.slice(0, 3)}) ${digits.slice(3)}`; // Area code + first part of the number
+  }
+  return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6, phoneLength)}`; // Full formatting
+};
+
+/**
+ * Builds the placeholder mask shown in the empty phone number field.
+ *
+ * @param {CountryWithISO} country - The selected country.
+ * @returns {string} - The placeholder mask, e.g. "(000) 000-0000".
+ */
+export const getPlaceholderMask = (country: CountryWithISO) => {
+  const metadata = getPhoneMetadata(country);
+  if (metadata) {
+    return metadata.formats[0].pattern.replace(/X/g, "0");
+  }
+  const length = parseInt(country.phone_length, 10);
+  return `(${"0".repeat(3)}) ${"0".repeat(3)}-${"0".repeat(Math.max(0, length - 6))}`;
+};
+
+/**
+ * Classifies a national number by the number ranges of its country.
+ *
+ * @param {string} digits - The national number digits.
+ * @param {CountryWithISO} country - The selected country.
+ * @returns {PhoneNumberType} - The type of the number, or `unknown` when no range matches.
+ */
+export const getPhoneNumberType = (digits: string, country: CountryWithISO): PhoneNumberType =>
+  getPhoneMetadata(country)?.numberRanges?.find((range) => range.leadingDigits.test(digits))?.type ?? 'unknown';
+
+/**
+ * Classifies why a national number does not fit the country's numbering
+ * plan or, once it does, why its type is not accepted.
+ *
+ * @param {string} digits - The national number digits.
+ * @param {CountryWithISO} country - The selected country.
+ * @param {PhoneNumberType[]} [allowedTypes] - The accepted number types; any type when omitted.
+ * @returns {'leading_digit' | 'length' | 'number_type' | null} - The problem, or null when the number is valid.
+ */
+export const getPhoneNumberProblem = (digits: string, country: CountryWithISO, allowedTypes?: PhoneNumberType[]) => {
+  const metadata = getPhoneMetadata(country);
+  if (metadata?.leadingDigits && digits.length > 0 && !metadata.leadingDigits.test(digits)) {
+    return 'leading_digit';
+  }
+  const { min, max } = getLengthBounds(country);
+  if (digits.length < min || digits.length > max) {
+    return 'length';
+  }
+  if (allowedTypes && !allowedTypes.includes(getPhoneNumberType(digits, country))) {
+    return 'number_type';
+  }
+  return null;
+};
+
+/**
+ * Validates a national number against the country's numbering plan and,
+ * when given, the accepted number types.
+ *
+ * @param {string} digits - The national number digits.
+ * @param {CountryWithISO} country - The selected country.
+ * @param {Translator} [translator] - Localizes the message; English by default.
+ * @param {PhoneNumberType[]} [allowedTypes] - The accepted number types; any type when omitted.
+ * @returns {string | null} - A validation message, or null when the number is valid.
+ */
+export const validatePhoneNumber = (
+  digits: string,
+  country: CountryWithISO,
+  { t, locale, countryName }: Translator = DEFAULT_TRANSLATOR,
+  allowedTypes?: PhoneNumberType[]
+) => {
+  const problem = getPhoneNumberProblem(digits, country, allowedTypes);
+  if (problem === 'leading_digit') {
+    return t('validation.leadingDigit', { country: countryName(country), digit: digits[0] });
+  }
+  if (problem === 'length') {
+    const { min, max } = getLengthBounds(country);
+    return min === max
+      ? t('validation.length', { count: min })
+      : t('validation.lengthRange', { min, max, count: max });
+  }
+  if (problem === 'number_type' && allowedTypes) {
+    // Name the types that can be classified, e.g. "mobile or landline"
+    const allowed = new Intl.ListFormat(locale, { type: 'disjunction' }).format(
+      allowedTypes.filter((type) => type !== 'unknown').map((type) => t(`numberType.${type}`))
+    );
+    const type = getPhoneNumberType(digits, country);
+    return type === 'unknown'
+      ? t('validation.numberTypeUnknown', { allowed })
+      : t('validation.numberType', { type: t(`numberType.${type}`), allowed });
+  }
+  return null;
+};
@@ -0,0 +1,107 @@
+import { Country, CountryWithISO, PhoneInputValue } from '../types';
+import { normalizeNationalNumber, PhoneNumberType, validatePhoneNumber } from './phoneMetadata';
+import { parseInternationalNumber } from './parsePhoneNumber';
+import { DEFAULT_TRANSLATOR, Translator } from '../i18n/translate';
+import { resolveDefaultCountry } from './defaultCountry';
+
+/**
+ * Builds a PhoneInputValue from a country and national number.
+ *
+ * @param {CountryWithISO | null} country - The selected country.
+ * @param {string} nationalNumber - The national number digits.
+ * @returns {PhoneInputValue} - The value, with its E.164 form and validity.
+ */
+export const createPhoneInputValue = (country: CountryWithISO | null, nationalNumber: string): PhoneInputValue => {
+  if (!country) {
+    return { country: null, nationalNumber, e164: '', isValid: false };
+  }
+  const callingCode = country.calling_code.replace(/\D/g, '');
+  return {
+    country,
+    nationalNumber,
+    e164: `+${callingCode}${nationalNumber}`,
+    isValid: validatePhoneNumber(nationalNumber, country) === null,
+  };
+};
+
+export const EMPTY_PHONE_INPUT_VALUE: PhoneInputValue = createPhoneInputValue(null, '');
+
+/**
+ * Returns the value a form field should show: the stored value, or, while
+ * it has no country, the same number in the country the selector would
+ * preselect. The form adapters pass this to PhoneInput so the selector
+ * does not pick a country itself and report it as a change, which would
+ * make the form dirty after mounting and after every reset.
+ *
+ * @param {PhoneInputValue | null | undefined} value - The value stored by the form.
+ * @param {Record<string, Country>} countries - An object mapping ISO codes to country objects.
+ * @param {string} [defaultCountry] - ISO code of the country to preselect.
+ * @returns {PhoneInputValue} - The value to pass to PhoneInput.
+ */
+export const withDefaultCountry = (
+  value: PhoneInputValue | null | undefined,
+  countries: Record<string, Country>,
+  defaultCountry?: string
+): PhoneInputValue => {
+  if (value?.country) return value;
+  const list = Object.entries(countries).map(([iso, country]) => ({ ...country, iso }));
+  return createPhoneInputValue(resolveDefaultCountry(list, defaultCountry) ?? null, value?.nationalNumber ?? '');
+};
+
+/**
+ * Interprets the text typed, pasted or autofilled into a phone field.
+ * International numbers switch to the country of their calling code;
+ * anything else is read as a national number of the selected country.
+ *
+ * @param {string} rawValue - The text in the phone field.
+ * @param {CountryWithISO | null} country - The selected country.
+ * @param {Record<string, Country>} [countries] - Countries to detect international numbers against.
+ * @returns {{ country: CountryWithISO, nationalNumber: string } | null} - The resulting country
+ * and national number, or null when no country is selected and none could be detected.
+ */
+export const readPhoneInput = (
+  rawValue: string,
+  country: CountryWithISO | null,
+  countries?: Record<string, Country>
+) => {
+  const parsed = countries ? parseInternationalNumber(rawValue, countries) : null;
+  if (parsed) {
+    return { country: parsed.country, nationalNumber: parsed.nationalNumber };
+  }
+  if (!country) return null;
+  return { country, nationalNumber: normalizeNationalNumber(rawValue, country) };
+};
+
+/**
+ * Interface: PhoneInputValidationOptions
+ *
+ * Options for validatePhoneInputValue.
+ */
+export interface PhoneInputValidationOptions {
+  required?: boolean;         // Whether an empty number is an error
+  requiredMessage?: string;   // Message for a missing number
+  translator?: Translator;    // Localizes the messages; English by default
+  allowedTypes?: PhoneNumberType[]; // The accepted number types, e.g. ['mobile']; any type when omitted
+}
+
+/**
+ * Validates a PhoneInputValue with the same rules as the phone input:
+ * a country must be selected, the number must match its numbering plan
+ * and, when `allowedTypes` is given, be of an accepted type.
+ *
+ * @param {PhoneInputValue | null | undefined} value - The value to validate.
+ * @param {PhoneInputValidationOptions} [options] - Whether the number is required.
+ * @returns {string | null} - A validation message, or null when the value is valid.
+ */
+export const validatePhoneInputValue = (
+  value: PhoneInputValue | null | undefined,
+  { required = false, requiredMessage, translator = DEFAULT_TRANSLATOR, allowedTypes }: PhoneInputValidationOptions = {}
+): string | null => {
+  if (!value || !value.nationalNumber) {
+    return required ? requiredMessage ?? translator.t('validation.required') : null;
+  }
+  if (!value.country) {
+    return translator.t('validation.country');
+  }
+  return validatePhoneNumber(value.nationalNumber, value.country, translator, allowedTypes);
+};
@@ -0,0 +1,180 @@
+const SEND_LIMITS_KEY = 'country-code-selector:send-limits';
+
+/**
+ * Interface: SendLimitOptions
+ *
+ * Client-side limits on sending two-factor codes. Durations are expressed
+ * in seconds. They only slow down honest double submits and casual abuse;
+ * the API remains responsible for enforcing its own limits.
+ */
+export interface SendLimitOptions {
+  cooldown?: number;       // Wait after the first code sent to a number; doubled for each further code
+  maxCooldown?: number;    // Upper bound of the wait between codes for the same number
+  maxPerSession?: number;  // Codes that can be sent during one browser session, across all numbers
+}
+
+export const DEFAULT_SEND_LIMITS: Required<SendLimitOptions> = {
+  cooldown: 30,
+  maxCooldown: 900,
+  maxPerSession: 10,
+};
+
+/**
+ * Type: SendLimitCheck
+ *
+ * Whether a code may be sent now, and if not, why.
+ */
+export type SendLimitCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'cooldown'; retryAfter: number }
+  | { allowed: false; reason: 'session_cap' };
+
+interface SendLimitState {
+  sent: number;                                                     // Codes sent during the session
+  numbers: Record<string, { count: number; availableAt: number }>;  // Per number: codes sent and when the next one is allowed
+}
+
+// Used when sessionStorage is unavailable, so the limits still hold until reload
+let memoryState: SendLimitState = { sent: 0, numbers: {} };
+
+/**
+ * Derives the storage key of a phone number. The number is hashed so that
+ * it is never written to storage in clear text.
+ *
+ * @param {string} phoneNumber - The phone number, formatted or not.
+ * @param {string} countryId - The API ID of the number's country.
+ * @returns {string} - A short hash of the country and digits.
+ */
+const toNumberKey = (phoneNumber: string, countryId: string) => {
+  const text = `${countryId}:${phoneNumber.replace(/\D/g, '')}`;
+  // FNV-1a: stable and cheap; collisions only merge two numbers' cooldowns
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const readState = (): SendLimitState => {
+  let stored: string | null;
+  try {
+    stored = window.sessionStorage.getItem(SEND_LIMITS_KEY);
+  } catch {
+    return memoryState; // sessionStorage is unavailable
+  }
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored) as SendLimitState;
+      if (typeof parsed.sent === 'number' && typeof parsed.numbers === 'object' && parsed.numbers !== null) {
+        return parsed;
+      }
+    } catch {
+      // A corrupt entry counts as no limits recorded
+    }
+  }
+  return { sent: 0, numbers: {} };
+};
+
+const writeState = (state: SendLimitState) => {
+  memoryState = state;
+  try {
+    window.sessionStorage.setItem(SEND_LIMITS_KEY, JSON.stringify(state));
+  } catch {
+    // The in-memory state still applies
+  }
+};
+
+/**
+ * Checks whether a code may be sent to a phone number now.
+ *
+ * @param {string} phoneNumber - The phone number.
+ * @param {string} countryId - The API ID of the number's country.
+ * @param {SendLimitOptions} [limits] - Overrides for the default limits.
+ * @param {number} [now] - The current time in milliseconds.
+ * @returns {SendLimitCheck} - Whether the code may be sent.
+ */
+export const checkSendLimit = (
+  phoneNumber: string,
+  countryId: string,
+  limits: SendLimitOptions = {},
+  now = Date.now()
+): SendLimitCheck => {
+  const { maxPerSession } = { ...DEFAULT_SEND_LIMITS, ...limits };
+  const state = readState();
+  const entry = state.numbers[toNumberKey(phoneNumber, countryId)];
+  if (entry && entry.availableAt > now) {
+    return { allowed: false, reason: 'cooldown', retryAfter: Math.ceil((entry.availableAt - now) / 1000) };
+  }
+  if (state.sent >= maxPerSession) {
+    return { allowed: false, reason: 'session_cap' };
+  }
+  return { allowed: true };
+};
+
+/**
+ * Records a code sent to a phone number, starting the number's cooldown.
+ * Each further code to the same number doubles the cooldown, up to
+ * `maxCooldown`.
+ *
+ * @param {string} phoneNumber - The phone number.
+ * @param {string} countryId - The API ID of the number's country.
+ * @param {SendLimitOptions} [limits] - Overrides for the default limits.
+ * @param {number} [now] - The current time in milliseconds.
+ * @returns {number} - When the next code may be sent to this number, in milliseconds.
+ */
+export const recordSend = (
+  phoneNumber: string,
+  countryId: string,
+  limits: SendLimitOptions = {},
+  now = Date.now()
+): number => {
+  const { cooldown, maxCooldown } = { ...DEFAULT_SEND_LIMITS, ...limits };
+  const state = readState();
+  const key = toNumberKey(phoneNumber, countryId);
+  const count = (state.numbers[key]?.count ?? 0) + 1;
+  const availableAt = now + Math.min(cooldown * 2 ** (count - 1), maxCooldown) * 1000;
+  writeState({ sent: state.sent + 1, numbers: { ...state.numbers, [key]: { count, availableAt } } });
+  return availableAt;
+};
+
+/**
+ * Records a wait imposed by the API, e.g. from a 429 `Retry-After` header,
+ * so no code is requested for the number before it has passed.
+ *
+ * @param {string} phoneNumber - The phone number.
+ * @param {string} countryId - The API ID of the number's country.
+ * @param {number} retryAfter - Seconds to wait.
+ * @param {number} [now] - The current time in milliseconds.
+ * @returns {number} - When the next code may be sent to this number, in milliseconds.
+ */
+export const recordRetryAfter = (phoneNumber: string, countryId: string, retryAfter: number, now = Date.now()): number => {
+  const state = readState();
+  const key = toNumberKey(phoneNumber, countryId);
+  const entry = state.numbers[key] ?? { count: 0, availableAt: 0 };
+  const availableAt = Math.max(entry.availableAt, now + retryAfter * 1000);
+  writeState({ ...state, numbers: { ...state.numbers, [key]: { ...entry, availableAt } } });
+  return availableAt;
+};
+
+/**
+ * Reads when the next code may be sent to a phone number.
+ *
+ * @param {string} phoneNumber - The phone number.
+ * @param {string} countryId - The API ID of the number's country.
+ * @returns {number | null} - The time in milliseconds, or null when nothing was sent to it.
+ */
+export const getSendAvailableAt = (phoneNumber: string, countryId: string): number | null =>
+  readState().numbers[toNumberKey(phoneNumber, countryId)]?.availableAt ?? null;
+
+/**
+ * Forgets all recorded sends, e.g. after the user signs out.
+ */
+export const clearSendLimits = () => {
+  memoryState = { sent: 0, numbers: {} };
+  try {
+    window.sessionStorage.removeItem(SEND_LIMITS_KEY);
+  } catch {
+    // Nothing stored
+  }
+};